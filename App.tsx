@@ -1,13 +1,77 @@
 
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import PhysioEye from "./components/PhysioEye";
 import FeedbackPanel from "./components/FeedbackPanel";
+import SettingsPanel from "./components/SettingsPanel";
+import HistoryView from "./components/HistoryView";
+import SetSummary from "./components/SetSummary";
+import RomReport from "./components/RomReport";
+import CameraSettingsPanel from "./components/CameraSettingsPanel";
 import { analyzeFormWithGemini } from "./services/geminiService";
-import { PoseResults, PhysioEyeRef, AnalysisResult, HUDState, SessionStatus } from "./types";
-import { POSE_LANDMARKS } from "./utils/geometry";
-import { areLandmarksVisible } from "./utils/signal";
-import { SquatMechanics, ExerciseState } from "./utils/exerciseLogic";
-import { Dumbbell } from "lucide-react";
+import { PoseResults, PhysioEyeRef, AnalysisResult, HUDState, SessionStatus, ExerciseType, ExerciseMetadata, SessionRecord, CameraSettings, AssessmentStatus } from "./types";
+import { ExerciseEngine, ExerciseState, BodySide, SideRepStats } from "./utils/exerciseLogic";
+import { createExerciseEngine, getExerciseMetadata, listExercises, DEFAULT_EXERCISE } from "./utils/exerciseRegistry";
+import { ExerciseClassifier, ClassificationResult } from "./utils/exerciseClassifier";
+import { ClientProfile, DEFAULT_PROFILE } from "./utils/exerciseConfig";
+import { FaultPenalty } from "./utils/scoring";
+import { VelocityStatus } from "./utils/velocity";
+import { SetSummary as SetSummaryData, TelemetrySample, summarizeSet, toTelemetrySample } from "./utils/setSummary";
+import { LandmarkRecorder, LandmarkRecording, parseRecording, serializeRecording } from "./utils/landmarkRecording";
+import { PerformanceMonitor, PerformanceStats } from "./utils/performanceMonitor";
+import { loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId } from "./services/profileService";
+import { saveSession, createSessionId, loadBaselineAssessment } from "./services/historyService";
+import { loadCameraSettings, saveCameraSettings } from "./services/cameraService";
+import { Dumbbell, Circle, Upload, Film, Camera, Video } from "lucide-react";
+
+// State cues emitted by the engines that are not form faults (excluded from the Gemini fault summary).
+// The tempo cue "SLOWER DOWN" stays in the summary: rushing a prescribed eccentric is an execution fault.
+const NON_FAULT_FEEDBACK = new Set([
+  "GO LOWER", "DRIVE UP", "STAND TALL", "GOOD DEPTH!", "PERFECT REP!", "SHOW FULL BODY",
+  "GET IN PLANK", "GO DOWN", "LOWER...", "PUSH!", "READY",
+  "HIPS BACK", "GOOD HINGE!", "SQUEEZE GLUTES",
+  "HOLD!", "PAUSED", "BACK ON IT!", "HOLD", "LAST REP", "STOP SET",
+  "REACH OVERHEAD", "SQUAT DEEP", "LIFT LEFT KNEE", "LIFT RIGHT KNEE", "AS FAR AS YOU CAN", "GOT IT", "ASSESSMENT DONE", "NEEDS 3D TRACKING"
+]);
+
+// Saves a landmark recording as a JSON-lines download
+const downloadRecording = (recording: LandmarkRecording) => {
+  const blob = new Blob([serializeRecording(recording)], { type: "application/x-ndjson" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  const stamp = new Date(recording.header.createdAt).toISOString().replace(/[:.]/g, "-");
+  link.href = url;
+  link.download = `physioai-${(recording.header.exercise ?? "session").toLowerCase()}-${stamp}.jsonl`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const PERF_LEVEL_STYLES: Record<PerformanceStats['level'], string> = {
+  GOOD: 'text-emerald-400 border-white/10',
+  LOW: 'text-amber-400 border-amber-500/50',
+  CRITICAL: 'text-red-400 border-red-500/50',
+};
+
+// Live pipeline numbers. Warns when the frame rate is too low to sample
+// movement finely: timings get coarse and short faults can fall between frames.
+const PerformanceReadout: React.FC<{ stats: PerformanceStats | null }> = ({ stats }) => {
+  if (!stats) return null;
+  return (
+    <div className={`bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border text-xs font-mono ${PERF_LEVEL_STYLES[stats.level]}`}>
+      <div>
+        FPS: {Math.round(stats.analysisFps)}
+        {stats.cameraFps !== null && ` / ${Math.round(stats.cameraFps)} CAM`}
+        {' • '}POSE: {Math.round(stats.inferenceMs)}ms
+        {' • '}ENGINE: {stats.engineMs.toFixed(1)}ms
+        {stats.droppedFrames > 0 && ` • DROPPED: ${stats.droppedFrames}`}
+      </div>
+      {stats.level !== 'GOOD' && (
+        <div className="mt-0.5">
+          {stats.level === 'CRITICAL' ? 'FPS TOO LOW: fault detection unreliable' : 'LOW FPS: brief faults may be missed'}
+        </div>
+      )}
+    </div>
+  );
+};
 
 export default function App() {
   // --- STATE ---
@@ -17,30 +81,113 @@ export default function App() {
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [repCount, setRepCount] = useState(0);
+  const [exerciseType, setExerciseType] = useState<ExerciseType>(DEFAULT_EXERCISE);
+  const [sideStats, setSideStats] = useState<Record<BodySide, SideRepStats> | null>(null);
+  const [lastRep, setLastRep] = useState<{ score: number; breakdown: FaultPenalty[] } | null>(null);
+  const [velocity, setVelocity] = useState<VelocityStatus | null>(null);
+  const [holdDurationMs, setHoldDurationMs] = useState(0);
+  const [holdBreaks, setHoldBreaks] = useState(0);
+  const [assessment, setAssessment] = useState<AssessmentStatus | null>(null);
+  const [romBaseline, setRomBaseline] = useState<SessionRecord | null>(null);
+  const [showRomReport, setShowRomReport] = useState(false);
+  const [autoDetect, setAutoDetect] = useState(false);
+  const [profiles, setProfiles] = useState<ClientProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(loadActiveProfileId);
+  const [showSettings, setShowSettings] = useState(false);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [setSummary, setSetSummary] = useState<SetSummaryData | null>(null);
+  const [showSetSummary, setShowSetSummary] = useState(false);
+  const [recordLandmarks, setRecordLandmarks] = useState(false);
+  const [replay, setReplay] = useState<LandmarkRecording | null>(null);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [perfStats, setPerfStats] = useState<PerformanceStats | null>(null);
+
+  // History covers the camera view, so it is only reachable between sets
+  const isBetweenSets = sessionStatus === 'IDLE' || sessionStatus === 'SUMMARY';
+
+  // A deleted or invalid stored profile falls back to the built-in defaults
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? DEFAULT_PROFILE;
   
   // Real-time HUD State (passed to MediaPipe loop)
   const [hudState, setHudState] = useState<HUDState>({ message: "", color: "", visible: false });
   
   // --- REFS ---
   const eyeRef = useRef<PhysioEyeRef>(null);
-  const squatEngine = useRef(new SquatMechanics());
+  // Active movement engine. Replaced at session start from the registry.
+  const engineRef = useRef<ExerciseEngine>(createExerciseEngine(DEFAULT_EXERCISE));
+  const classifierRef = useRef(new ExerciseClassifier());
+  const recorderRef = useRef(new LandmarkRecorder());
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const performanceMonitorRef = useRef(new PerformanceMonitor());
   
   // TELEMETRY BUFFER: Stores the last ~10 seconds of mechanics state
   const historyRef = useRef<ExerciseState[]>([]);
+  // SET TELEMETRY: Compact per-frame samples for the whole set (summary charts)
+  const setTelemetryRef = useRef<TelemetrySample[]>([]);
   
+  // SESSION LOG: The set being recorded for History. Kept after the set ends so
+  // late Gemini results can still be attached to it.
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const sessionEndedRef = useRef(false);
+  // Set once the engine ends the set itself (velocity auto-stop, finished assessment)
+  const autoEndRef = useRef(false);
+
   // PRIORITY LOCK: Prevents real-time engine from overwriting Gemini feedback for N milliseconds.
   // If Date.now() < hudLockRef.current, the engine cannot write to the HUD.
   const hudLockRef = useRef<number>(0);
 
+  // Refresh the performance readout twice a second (the monitor itself updates every frame)
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setPerfStats(performanceMonitorRef.current.snapshot(performance.now()));
+    }, 500);
+    return () => clearInterval(interval);
+  }, []);
+
   // --- ACTIONS ---
 
-  const handleStartSession = () => {
+  const handleSaveProfiles = (updated: ClientProfile[], selectedId: string) => {
+    setProfiles(updated);
+    setActiveProfileId(selectedId);
+    saveProfiles(updated);
+    saveActiveProfileId(selectedId);
+    setShowSettings(false);
+  };
+
+  const handleSaveCameraSettings = (settings: CameraSettings) => {
+    setCameraSettings(settings);
+    saveCameraSettings(settings);
+    setShowCameraSettings(false);
+  };
+
+  // `recording` replays a saved landmark stream instead of the camera
+  const startSession = (type: ExerciseType, recording: LandmarkRecording | null = null) => {
     setSessionStatus('COUNTDOWN');
     setCountdown(3);
     setAnalysisResult(null);
     setRepCount(0);
-    squatEngine.current.reset();
+    setSideStats(null);
+    setLastRep(null);
+    setVelocity(null);
+    setHoldDurationMs(0);
+    setHoldBreaks(0);
+    setAssessment(null);
+    setShowRomReport(false);
+    autoEndRef.current = false;
+    engineRef.current = createExerciseEngine(type, activeProfile, cameraSettings.cameraView);
+    classifierRef.current.reset();
+    // Replays re-score an old set, so they are not added to History again
+    sessionRecordRef.current = recording ? null : createSessionRecord(engineRef.current.metadata);
+    sessionEndedRef.current = false;
     historyRef.current = []; // Clear history
+    setTelemetryRef.current = [];
+    setSetSummary(null);
+    if (recordLandmarks && !recording) {
+      recorderRef.current.start({ exercise: type, profileName: activeProfile.name });
+    }
 
     // 3... 2... 1... GO
     let count = 3;
@@ -52,19 +199,151 @@ export default function App() {
         clearInterval(interval);
         setSessionStatus('ACTIVE');
         setHudState({ message: "GO!", color: "#10B981", visible: true });
+        if (recording) setReplay(recording);
       }
     }, 1000);
   };
 
   const handleEndSession = () => {
     setSessionStatus('SUMMARY');
-    setHudState({ message: "SET COMPLETE", color: "#3B82F6", visible: true });
+    setReplay(null);
+
+    const recording = recorderRef.current.stop();
+    if (recording) downloadRecording(recording);
+
+    const record = sessionRecordRef.current;
+    const lastState = historyRef.current[historyRef.current.length - 1];
+    if (record) {
+      record.endedAt = Date.now();
+      record.repCount = lastState?.repCount ?? 0;
+      record.reps = (lastState?.repLog ?? []).map(rep => ({
+        repNumber: rep.repNumber,
+        completedAt: rep.endedAt,
+        score: rep.score,
+        faults: rep.faults,
+        minAngle: Math.round(rep.minAngle),
+        descentMs: rep.descentMs,
+        ascentMs: rep.ascentMs,
+        tempoScore: rep.tempoScore,
+        meanVelocity: rep.meanVelocity,
+      }));
+      if (record.mode === 'HOLD') {
+        record.holdDurationMs = lastState?.holdDurationMs ?? 0;
+        record.holdBreaks = lastState?.holdBreaks ?? 0;
+      }
+      // Only a finished assessment is kept, so an aborted attempt never becomes the baseline
+      if (record.mode === 'ASSESSMENT' && lastState?.assessment?.complete) {
+        record.rom = lastState.assessment.measurements;
+      }
+      sessionEndedRef.current = true;
+      persistSession(record);
+    }
+
+    const isAssessment = engineRef.current.metadata.mode === 'ASSESSMENT';
+    if (isAssessment) {
+      // Re-assessments are compared against the client's first assessment
+      loadBaselineAssessment(activeProfile.name, record?.id).then(baseline => {
+        setRomBaseline(baseline);
+        setShowRomReport(true);
+      });
+    } else {
+      setSetSummary(summarizeSet(setTelemetryRef.current, lastState?.repLog ?? []));
+      setShowSetSummary(true);
+    }
+
+    setHudState({ message: isAssessment ? "ASSESSMENT COMPLETE" : "SET COMPLETE", color: "#3B82F6", visible: true });
     // Keep the HUD message for a moment
     hudLockRef.current = Date.now() + 3000;
   };
 
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow loading the same file again
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      const type = recording.header.exercise ?? exerciseType;
+      // Start (and so create the engine) before the selection changes, so a bad
+      // recording never leaves an unusable exercise selected
+      startSession(type, recording);
+      setExerciseType(type);
+      setAutoDetect(false);
+    } catch (e) {
+      console.error("Failed to load recording:", e);
+      setHudState({ message: "INVALID RECORDING", color: "#EF4444", visible: true });
+      hudLockRef.current = Date.now() + 3000;
+    }
+  };
+
+  const handleVideoFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) setVideoFile(file);
+  };
+
+  // Scrubbing a video file backwards shows the engine frames it has already counted,
+  // so the set restarts from the new position
+  const handleVideoRewind = () => {
+    if (sessionStatus !== 'ACTIVE') return;
+    engineRef.current.reset();
+    classifierRef.current.reset();
+    historyRef.current = [];
+    setTelemetryRef.current = [];
+    setRepCount(0);
+    setSideStats(null);
+    setLastRep(null);
+    setVelocity(null);
+    setHoldDurationMs(0);
+    setHoldBreaks(0);
+    setAssessment(null);
+    // Counting starts over, but it is still the same set with the same spot checks
+    if (sessionRecordRef.current) {
+      const { id, startedAt, analyses } = sessionRecordRef.current;
+      sessionRecordRef.current = { ...createSessionRecord(engineRef.current.metadata), id, startedAt, analyses };
+    }
+    if (recorderRef.current.isRecording) {
+      recorderRef.current.start({ exercise: engineRef.current.metadata.type, profileName: activeProfile.name });
+    }
+    setHudState({ message: "REWOUND - RECOUNTING", color: "#3B82F6", visible: true });
+    hudLockRef.current = Date.now() + 1500;
+  };
+
+  // Sets where nothing was done are not worth keeping
+  const persistSession = (record: SessionRecord) => {
+    if (record.repCount > 0 || (record.holdDurationMs ?? 0) > 0 || (record.rom?.length ?? 0) > 0 || record.analyses.length > 0) {
+      saveSession(record);
+    }
+  };
+
+  const createSessionRecord = (metadata: ExerciseMetadata): SessionRecord => {
+    const now = Date.now();
+    return {
+      id: createSessionId(),
+      startedAt: now,
+      endedAt: now,
+      exercise: metadata.type,
+      exerciseName: metadata.name,
+      mode: metadata.mode,
+      profileName: activeProfile.name,
+      repCount: 0,
+      reps: [],
+      analyses: [],
+    };
+  };
+
+  const handleSelectExercise = (type: ExerciseType) => {
+    setExerciseType(type);
+    setAutoDetect(false);
+    setAnalysisResult(null);
+  };
+
+  const handleToggleAutoDetect = () => {
+    setAutoDetect(prev => !prev);
+  };
+
   // Helper to condense history into a context string for Gemini
-  const getTelemetrySummary = (history: ExerciseState[]): string => {
+  const getTelemetrySummary = (history: ExerciseState[], metadata: ExerciseMetadata): string => {
     if (history.length === 0) return "No telemetry data available.";
 
     const minAngle = Math.min(...history.map(s => s.angle));
@@ -72,14 +351,17 @@ export default function App() {
     const faults = new Set(
       history
         .map(s => s.feedback)
-        .filter(f => f !== "GO LOWER" && f !== "DRIVE UP" && f !== "STAND TALL" && f !== "GOOD DEPTH!" && f !== "PERFECT REP!" && f !== "SHOW FULL BODY")
+        .filter(f => !NON_FAULT_FEEDBACK.has(f) && !f.startsWith("HOLD "))
     );
     
     const faultString = faults.size > 0 ? Array.from(faults).join(", ") : "None";
+    const angleHint = metadata.angleHint ? ` (${metadata.angleHint})` : "";
+    const cameraView = history[history.length - 1].cameraView;
+    const viewString = cameraView ? ` Camera: ${cameraView === 'SIDE' ? 'side-on (sagittal plane)' : 'frontal'}.` : "";
     
-    return `Exercise: Squat.
+    return `Exercise: ${metadata.name}.${viewString}
     Telemetry Data (Last 5-10s):
-    - Lowest Knee Angle Observed: ${Math.round(minAngle)} degrees (90 is parallel).
+    - Lowest ${metadata.primaryJoint} Angle Observed: ${Math.round(minAngle)} degrees${angleHint}.
     - Detected Tracking Faults: ${faultString}.
     - Movement Phase history captured.`;
   };
@@ -94,16 +376,29 @@ export default function App() {
     hudLockRef.current = Date.now() + 10000; // Temporary long lock until fail/success
     setHudState({ message: "AI ANALYZING...", color: "#3B82F6", visible: true });
 
+    // The result belongs to the set it was requested in, even if that set ends or another starts meanwhile
+    const record = sessionRecordRef.current;
+
     try {
       const screenshot = eyeRef.current.getScreenshot();
       
       if (screenshot) {
         // combine user context (if any) with telemetry
-        // Enforce "Squat" context to prevent Gemini hallucinating Push-ups due to "PUSH UP" text or ambiguous posture.
-        const finalContext = `Exercise: Squat. ${customContext || "User requested spot check."}`;
+        // Enforce the active exercise to prevent Gemini hallucinating Push-ups due to "PUSH UP" text or ambiguous posture.
+        const finalContext = `Exercise: ${engineRef.current.metadata.name}. ${customContext || "User requested spot check."}`;
         
         const result = await analyzeFormWithGemini(screenshot, finalContext);
         setAnalysisResult(result);
+
+        if (record) {
+          record.analyses.push({ timestamp: Date.now(), result });
+          // Auto-detect replaces the record object mid-set but keeps its id and analyses
+          const current = sessionRecordRef.current;
+          const isCurrent = current?.id === record.id;
+          // Result arrived after the set ended: update the stored copy
+          if (!isCurrent) persistSession(record);
+          else if (sessionEndedRef.current) persistSession(current);
+        }
         
         // RESULT RECEIVED: Update HUD and Lock it for 4 seconds so user can read it.
         setHudState({ 
@@ -126,6 +421,12 @@ export default function App() {
   // --- MEDIAPIPE CALLBACK (Runs 30fps) ---
   const handleLandmarks = useCallback((results: PoseResults) => {
     const isLocked = Date.now() < hudLockRef.current;
+    const timestamp = results.timestamp ?? Date.now();
+
+    // Record every frame of the set, including ones without a pose
+    if (sessionStatus === 'ACTIVE') {
+      recorderRef.current.addFrame(results.poseLandmarks, timestamp, results.poseWorldLandmarks);
+    }
     
     // 1. Basic Safety Check
     if (!results.poseLandmarks || results.poseLandmarks.length === 0) {
@@ -137,23 +438,82 @@ export default function App() {
     
     // 2. LOGIC (Only run engine if Active)
     if (sessionStatus === 'ACTIVE') {
-      const engineState = squatEngine.current.update(landmarks);
+      // --- AUTO-DETECT ---
+      // Swap engines once the classifier has settled on the user doing something else.
+      // The new engine starts from scratch, so reps counted by the old engine are dropped.
+      // Assessments are guided movements, not exercises, so they are never swapped out.
+      let recognition: ClassificationResult | null = null;
+      if (autoDetect && engineRef.current.metadata.mode !== 'ASSESSMENT') {
+        recognition = classifierRef.current.update(landmarks, timestamp);
+        if (
+          recognition.exercise !== 'IDLE' &&
+          recognition.exercise !== engineRef.current.metadata.type &&
+          recognition.settled
+        ) {
+          engineRef.current = createExerciseEngine(recognition.exercise, activeProfile, cameraSettings.cameraView);
+          setExerciseType(recognition.exercise);
+          setSideStats(null);
+          setLastRep(null);
+          setVelocity(null);
+          historyRef.current = [];
+          setTelemetryRef.current = [];
+          if (sessionRecordRef.current) {
+            const { id, startedAt, analyses } = sessionRecordRef.current;
+            sessionRecordRef.current = { ...createSessionRecord(engineRef.current.metadata), id, startedAt, analyses };
+          }
+          // Restart the recording too, so its header names the new exercise and a
+          // replay feeds that engine the same frames it sees live
+          if (recorderRef.current.isRecording) {
+            recorderRef.current.start({ exercise: recognition.exercise, profileName: activeProfile.name });
+            recorderRef.current.addFrame(landmarks, timestamp, results.poseWorldLandmarks);
+          }
+        }
+      }
+
+      const engineStart = performance.now();
+      const engineState = engineRef.current.update(landmarks, timestamp, results.poseWorldLandmarks);
+      performanceMonitorRef.current.recordEngineUpdate(performance.now() - engineStart, performance.now());
       setRepCount(engineState.repCount);
+      if (engineState.didFinishRep) {
+        setLastRep({ score: engineState.repScore, breakdown: engineState.scoreBreakdown });
+        if (engineState.sideStats) setSideStats(engineState.sideStats);
+      }
+      // The engine keeps the same object until the next rep is measured
+      if (engineState.velocity) setVelocity(engineState.velocity);
+      if (activeProfile.velocityAutoStop && engineState.velocity?.stopSet && !replay && !autoEndRef.current) {
+        autoEndRef.current = true;
+        handleEndSession();
+        return;
+      }
+      if (engineState.holdDurationMs !== undefined) {
+        // Round to 100ms so the panel re-renders at most 10x per second
+        setHoldDurationMs(Math.floor(engineState.holdDurationMs / 100) * 100);
+        setHoldBreaks(engineState.holdBreaks ?? 0);
+      }
+      if (engineState.assessment) setAssessment(engineState.assessment);
 
       // --- TELEMETRY ---
       // Push state to history buffer (only if tracking isn't completely lost)
       if (engineState.trackingMode !== 'LOST') {
         historyRef.current.push(engineState);
+        setTelemetryRef.current.push(toTelemetrySample(engineState, timestamp));
         // Keep last 300 frames (~10 seconds at 30fps)
         if (historyRef.current.length > 300) {
             historyRef.current.shift();
         }
       }
 
+      // The assessment ends itself once the last movement is measured
+      if (engineState.assessment?.complete && !autoEndRef.current) {
+        autoEndRef.current = true;
+        handleEndSession();
+        return;
+      }
+
       // --- AUTOMATION ---
-      // Trigger Gemini automatically every 5 reps
-      if (engineState.didFinishRep && engineState.repCount > 0 && engineState.repCount % 5 === 0) {
-         const context = getTelemetrySummary(historyRef.current);
+      // Trigger Gemini automatically every 5 reps (not on replays: there is no video frame)
+      if (!replay && engineState.didFinishRep && engineState.repCount > 0 && engineState.repCount % 5 === 0) {
+         const context = getTelemetrySummary(historyRef.current, engineRef.current.metadata);
          // Call without awaiting to not block loop
          triggerAnalysis(`Auto-Triggered Check (Rep ${engineState.repCount}). ${context}`);
       }
@@ -165,7 +525,10 @@ export default function App() {
             color: engineState.feedbackColor,
             visible: true,
             trackingMode: engineState.trackingMode,
-            visualContext: engineState.visualContext // Pass visual context for drawing
+            trackingSource: engineState.trackingSource,
+            cameraView: engineState.cameraView,
+            visualContext: engineState.visualContext, // Pass visual context for drawing
+            recognition: recognition ? { label: recognition.exercise, confidence: recognition.confidence } : undefined
         });
       }
     } else if (sessionStatus === 'IDLE') {
@@ -175,7 +538,7 @@ export default function App() {
        }
     }
 
-  }, [sessionStatus, triggerAnalysis]); 
+  }, [sessionStatus, triggerAnalysis, autoDetect, activeProfile, cameraSettings.cameraView, replay]); 
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-50 font-sans selection:bg-emerald-500/30">
@@ -190,13 +553,61 @@ export default function App() {
             <span className="font-bold text-xl tracking-tight">PhysioAI<span className="text-emerald-400">.Spotter</span></span>
           </div>
           <div className="hidden md:flex items-center gap-6 text-sm font-medium text-slate-400">
-            <span className="hover:text-emerald-400 cursor-pointer transition-colors">History</span>
-            <span className="hover:text-emerald-400 cursor-pointer transition-colors">Settings</span>
-            <div className="w-8 h-8 rounded-full bg-slate-700 border border-slate-600"></div>
+            <span
+              onClick={() => isBetweenSets && setShowHistory(true)}
+              title={isBetweenSets ? undefined : "Available after the set"}
+              className={`transition-colors ${isBetweenSets ? 'hover:text-emerald-400 cursor-pointer' : 'opacity-40 cursor-not-allowed'}`}
+            >
+              History
+            </span>
+            <span onClick={() => setShowSettings(true)} className="hover:text-emerald-400 cursor-pointer transition-colors">Settings</span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-slate-500">{activeProfile.name}</span>
+              <div className="w-8 h-8 rounded-full bg-slate-700 border border-slate-600"></div>
+            </div>
           </div>
         </div>
       </header>
 
+      {showHistory && (
+        <HistoryView exercises={listExercises()} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showSetSummary && setSummary && (
+        <SetSummary
+          summary={setSummary}
+          exercise={engineRef.current.metadata}
+          onClose={() => setShowSetSummary(false)}
+        />
+      )}
+
+      {showRomReport && assessment && (
+        <RomReport
+          measurements={assessment.measurements}
+          complete={assessment.complete}
+          baseline={romBaseline}
+          profileName={activeProfile.name}
+          onClose={() => setShowRomReport(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          profiles={profiles}
+          activeProfileId={activeProfile.id}
+          onSave={handleSaveProfiles}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showCameraSettings && (
+        <CameraSettingsPanel
+          settings={cameraSettings}
+          onSave={handleSaveCameraSettings}
+          onClose={() => setShowCameraSettings(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="pt-24 pb-8 px-4 max-w-7xl mx-auto h-[calc(100vh)] flex flex-col md:flex-row gap-6">
         
@@ -204,7 +615,9 @@ export default function App() {
         <div className="flex-1 relative flex flex-col min-h-[400px]">
           <div className="absolute -top-6 left-0 text-xs font-mono text-emerald-500/70 uppercase tracking-widest mb-2 flex items-center gap-2">
             <span className={`w-2 h-2 rounded-full ${sessionStatus === 'ACTIVE' ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`}></span>
-            {sessionStatus === 'ACTIVE' ? 'LIVE SESSION RECORDING' : 'CAMERA READY'}
+            {sessionStatus === 'ACTIVE'
+              ? (replay ? 'REPLAYING RECORDING' : videoFile ? 'ANALYSING VIDEO FILE' : 'LIVE SESSION RECORDING')
+              : (videoFile ? `VIDEO: ${videoFile.name}` : 'CAMERA READY')}
           </div>
           
           <PhysioEye 
@@ -212,6 +625,12 @@ export default function App() {
             isActive={true} 
             onLandmarksDetected={handleLandmarks}
             hudState={hudState}
+            replay={replay}
+            onReplayEnd={handleEndSession}
+            videoFile={videoFile}
+            onRewind={handleVideoRewind}
+            cameraSettings={cameraSettings}
+            performanceMonitor={performanceMonitorRef.current}
           />
 
           {/* COUNTDOWN OVERLAY */}
@@ -225,8 +644,44 @@ export default function App() {
           
           {/* Status Overlay */}
           <div className="absolute bottom-4 left-4 right-4 flex justify-between items-end pointer-events-none z-30">
-             <div className="bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-white/10 text-xs font-mono text-emerald-400">
-               FPS: 30 • LATENCY: LOW
+             <PerformanceReadout stats={perfStats} />
+             <div className="flex gap-2 pointer-events-auto">
+               <button
+                 onClick={() => setShowCameraSettings(true)}
+                 disabled={!isBetweenSets}
+                 title="Camera, resolution, mirroring and rotation"
+                 className="bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-white/10 text-xs font-mono text-slate-400 hover:text-white flex items-center gap-1.5 disabled:opacity-40"
+               >
+                 <Video className="w-3 h-3" /> CAM
+               </button>
+               <button
+                 onClick={() => setRecordLandmarks(prev => !prev)}
+                 disabled={!isBetweenSets}
+                 title="Save the landmark stream of each set to a file"
+                 className={`bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border text-xs font-mono flex items-center gap-1.5 disabled:opacity-40 ${
+                   recordLandmarks ? 'border-red-500/50 text-red-400' : 'border-white/10 text-slate-400 hover:text-white'
+                 }`}
+               >
+                 <Circle className={`w-3 h-3 ${recordLandmarks ? 'fill-red-500' : ''}`} /> REC
+               </button>
+               <button
+                 onClick={() => replayInputRef.current?.click()}
+                 disabled={!isBetweenSets}
+                 title="Replay a landmark recording through the engine of its recorded exercise"
+                 className="bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-white/10 text-xs font-mono text-slate-400 hover:text-white flex items-center gap-1.5 disabled:opacity-40"
+               >
+                 <Upload className="w-3 h-3" /> REPLAY
+               </button>
+               <input ref={replayInputRef} type="file" accept=".jsonl,.ndjson" className="hidden" onChange={handleReplayFile} />
+               <button
+                 onClick={() => (videoFile ? setVideoFile(null) : videoInputRef.current?.click())}
+                 disabled={!isBetweenSets}
+                 title={videoFile ? "Switch back to the live camera" : "Analyse a recorded video file instead of the camera"}
+                 className="bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-white/10 text-xs font-mono text-slate-400 hover:text-white flex items-center gap-1.5 disabled:opacity-40"
+               >
+                 {videoFile ? <><Camera className="w-3 h-3" /> CAMERA</> : <><Film className="w-3 h-3" /> VIDEO</>}
+               </button>
+               <input ref={videoInputRef} type="file" accept="video/mp4,video/webm" className="hidden" onChange={handleVideoFile} />
              </div>
           </div>
         </div>
@@ -237,10 +692,22 @@ export default function App() {
             analyzing={analyzing} 
             result={analysisResult} 
             onAnalyze={() => triggerAnalysis()} 
-            onStartSession={handleStartSession}
+            onStartSession={() => startSession(exerciseType)}
             onEndSession={handleEndSession}
             sessionStatus={sessionStatus}
             repCount={repCount}
+            sideStats={sideStats}
+            lastRep={lastRep}
+            velocity={velocity}
+            onViewSummary={assessment ? () => setShowRomReport(true) : setSummary ? () => setShowSetSummary(true) : undefined}
+            holdDurationMs={holdDurationMs}
+            holdBreaks={holdBreaks}
+            assessment={assessment}
+            exercise={getExerciseMetadata(exerciseType)}
+            exercises={listExercises()}
+            onSelectExercise={handleSelectExercise}
+            autoDetect={autoDetect}
+            onToggleAutoDetect={handleToggleAutoDetect}
           />
           
           <div className="mt-4 p-4 bg-slate-800/30 rounded-xl border border-white/5 text-xs text-slate-500">
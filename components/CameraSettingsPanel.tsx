@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Video, X, Save } from "lucide-react";
+import { CameraSettings, CameraRotation, CameraViewSetting } from "../types";
+import {
+  CAMERA_VIEW_OPTIONS,
+  CameraDevice,
+  DEFAULT_CAMERA_SETTINGS,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_PRESETS,
+  ROTATION_OPTIONS,
+  listCameras,
+} from "../services/cameraService";
+
+interface CameraSettingsPanelProps {
+  settings: CameraSettings;
+  onSave: (settings: CameraSettings) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "mt-1 w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white";
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CameraSettings>(settings);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCameras().then(result => {
+      if (!cancelled) setCameras(result);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const update = (changes: Partial<CameraSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const resolutionKey = `${draft.width}x${draft.height}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-md flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Video className="w-5 h-5 text-emerald-400" />
+            Camera Settings
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block text-xs text-slate-400">
+            Camera
+            <select
+              value={draft.deviceId ?? ""}
+              onChange={e => update({ deviceId: e.target.value || null })}
+              className={selectClassName}
+            >
+              <option value="">Default front camera</option>
+              {cameras.map(camera => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-slate-400">
+              Resolution
+              <select
+                value={resolutionKey}
+                onChange={e => {
+                  const preset = RESOLUTION_PRESETS.find(p => `${p.width}x${p.height}` === e.target.value);
+                  if (preset) update({ width: preset.width, height: preset.height });
+                }}
+                className={selectClassName}
+              >
+                {RESOLUTION_PRESETS.map(preset => (
+                  <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-400">
+              Frame rate
+              <select
+                value={draft.frameRate}
+                onChange={e => update({ frameRate: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {FRAME_RATE_OPTIONS.map(fps => (
+                  <option key={fps} value={fps}>{fps} fps</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block text-xs text-slate-400">
+            Rotation (for phones mounted sideways)
+            <select
+              value={draft.rotation}
+              onChange={e => update({ rotation: Number(e.target.value) as CameraRotation })}
+              className={selectClassName}
+            >
+              {ROTATION_OPTIONS.map(rotation => (
+                <option key={rotation} value={rotation}>{rotation === 0 ? "None" : `${rotation}° clockwise`}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-slate-400">
+            Camera position (squat analysis)
+            <select
+              value={draft.cameraView}
+              onChange={e => update({ cameraView: e.target.value as CameraViewSetting })}
+              className={selectClassName}
+            >
+              {CAMERA_VIEW_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.mirrored}
+              onChange={e => update({ mirrored: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            Mirror view (selfie camera)
+          </label>
+
+          <p className="text-xs text-slate-500">
+            Resolution and frame rate are requests; the camera uses the closest mode it supports.
+            Video files are never mirrored, but rotation applies to them too.
+            Side-on squats are judged on depth and shin angle instead of knee tracking.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+          <button
+            onClick={() => setDraft(DEFAULT_CAMERA_SETTINGS)}
+            className="text-xs text-slate-400 hover:text-white"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 rounded-xl font-bold text-sm bg-emerald-500 hover:bg-emerald-600 text-white flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraSettingsPanel;
@@ -1,6 +1,9 @@
 import React from "react";
-import { Activity, CheckCircle, AlertCircle, Play, Square, Camera, RotateCcw } from "lucide-react";
-import { AnalysisResult, SessionStatus } from "../types";
+import { Activity, CheckCircle, AlertCircle, Play, Square, Camera, RotateCcw, BarChart3 } from "lucide-react";
+import { AnalysisResult, SessionStatus, ExerciseMetadata, ExerciseType, AssessmentStatus } from "../types";
+import { BodySide, SideRepStats } from "../utils/exerciseLogic";
+import { FaultPenalty } from "../utils/scoring";
+import { VelocityStatus } from "../utils/velocity";
 
 interface FeedbackPanelProps {
   analyzing: boolean;
@@ -10,8 +13,93 @@ interface FeedbackPanelProps {
   onEndSession: () => void;
   sessionStatus: SessionStatus;
   repCount: number;
+  sideStats?: Record<BodySide, SideRepStats> | null;
+  lastRep?: { score: number; breakdown: FaultPenalty[] } | null;
+  velocity?: VelocityStatus | null;
+  onViewSummary?: () => void;
+  holdDurationMs?: number;
+  holdBreaks?: number;
+  assessment?: AssessmentStatus | null;
+  exercise: ExerciseMetadata;
+  exercises: ExerciseMetadata[];
+  onSelectExercise: (type: ExerciseType) => void;
+  autoDetect: boolean;
+  onToggleAutoDetect: () => void;
 }
 
+// Formats milliseconds as m:ss.t for the hold timer
+const formatHoldTime = (ms: number): string => {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+// Left/Right rep counts and average scores for unilateral exercises
+const SideBreakdown: React.FC<{ sideStats: Record<BodySide, SideRepStats> }> = ({ sideStats }) => (
+  <div className="mt-4 grid grid-cols-2 gap-3 w-full font-mono text-xs">
+    {(['LEFT', 'RIGHT'] as BodySide[]).map(side => (
+      <div key={side} className="p-2 rounded-lg bg-slate-900/50 border border-slate-700">
+        <div className="text-slate-400">{side}</div>
+        <div className="text-2xl font-bold text-white">{sideStats[side].reps}</div>
+        <div className="text-slate-500">AVG {Math.round(sideStats[side].averageScore)}</div>
+      </div>
+    ))}
+  </div>
+);
+
+// Last rep score with the deduction behind each fault
+const ScoreBreakdown: React.FC<{ score: number; breakdown: FaultPenalty[] }> = ({ score, breakdown }) => (
+  <div className="mt-4 w-full p-3 rounded-lg bg-slate-900/50 border border-slate-700 font-mono text-xs text-left">
+    <div className="flex justify-between text-slate-400 mb-1">
+      <span>LAST REP</span>
+      <span className={`font-bold ${score >= 70 ? 'text-emerald-400' : 'text-red-400'}`}>{score}/100</span>
+    </div>
+    {breakdown.length === 0 ? (
+      <div className="text-emerald-400">No deductions</div>
+    ) : (
+      breakdown.map(item => (
+        <div key={item.fault} className="flex justify-between text-slate-300">
+          <span>{item.label}</span>
+          <span className="text-red-400">-{item.penalty}</span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+// Concentric velocity of the last rep and the loss against the set's fastest rep
+const VelocityReadout: React.FC<{ velocity: VelocityStatus }> = ({ velocity }) => (
+  <div className="mt-2 w-full p-3 rounded-lg bg-slate-900/50 border border-slate-700 font-mono text-xs text-left">
+    <div className="flex justify-between text-slate-400">
+      <span>VELOCITY (TL/s)</span>
+      <span className={`font-bold ${velocity.stopSet ? 'text-red-400' : 'text-emerald-400'}`}>-{Math.round(velocity.loss)}%</span>
+    </div>
+    <div className="text-slate-300">MEAN {velocity.meanVelocity.toFixed(2)} • PEAK {velocity.peakVelocity.toFixed(2)}</div>
+  </div>
+);
+
+// Current movement of a range-of-motion assessment and the peaks measured so far
+const AssessmentProgress: React.FC<{ assessment: AssessmentStatus }> = ({ assessment }) => (
+  <div className="w-full flex flex-col items-center">
+    <p className="text-slate-400 font-mono text-xs mb-1">
+      MOVEMENT {assessment.step + 1}/{assessment.stepCount}
+    </p>
+    <div className="text-2xl font-black text-white mb-2">{assessment.complete ? 'Done' : assessment.movement}</div>
+    <p className="text-emerald-400 text-sm">{assessment.instruction}</p>
+    {assessment.measurements.length > 0 && (
+      <div className="mt-4 w-full p-3 rounded-lg bg-slate-900/50 border border-slate-700 font-mono text-xs text-left">
+        {assessment.measurements.map(m => (
+          <div key={m.motion} className="flex justify-between text-slate-300">
+            <span>{m.motion.replace(/_/g, ' ')}</span>
+            <span>L {m.left ?? '—'}° • R {m.right ?? '—'}°</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
 const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ 
   analyzing, 
   result, 
@@ -19,8 +107,26 @@ const FeedbackPanel: React.FC<FeedbackPanelProps> = ({
   onStartSession,
   onEndSession,
   sessionStatus,
-  repCount 
+  repCount,
+  sideStats,
+  lastRep,
+  velocity,
+  onViewSummary,
+  holdDurationMs = 0,
+  holdBreaks = 0,
+  assessment,
+  exercise,
+  exercises,
+  onSelectExercise,
+  autoDetect,
+  onToggleAutoDetect
 }) => {
+  // Exercise can only be changed between sets
+  const canSelectExercise = sessionStatus === 'IDLE' || sessionStatus === 'SUMMARY';
+  const isHold = exercise.mode === 'HOLD';
+  const isAssessment = exercise.mode === 'ASSESSMENT';
+
+
   return (
     <div className="flex flex-col gap-4 p-6 bg-slate-800/50 backdrop-blur-md border border-slate-700 rounded-2xl h-full shadow-xl">
       <div className="flex justify-between items-center mb-2">
@@ -33,6 +139,37 @@ const FeedbackPanel: React.FC<FeedbackPanelProps> = ({
         </div>
       </div>
 
+      {/* Exercise Selector */}
+      <div className="flex flex-wrap gap-2">
+        {exercises.map(option => (
+          <button
+            key={option.type}
+            onClick={() => onSelectExercise(option.type)}
+            disabled={!canSelectExercise}
+            title={option.description}
+            className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${
+              option.type === exercise.type
+                ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-400'
+                : 'border-slate-600 text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400'
+            }`}
+          >
+            {option.name}
+          </button>
+        ))}
+        <button
+          onClick={onToggleAutoDetect}
+          disabled={!canSelectExercise}
+          title="Recognize the exercise automatically and switch engines during the set"
+          className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${
+            autoDetect
+              ? 'bg-blue-500/20 border-blue-500/50 text-blue-400'
+              : 'border-slate-600 text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400'
+          }`}
+        >
+          Auto
+        </button>
+      </div>
+
       {/* Main Feedback Display */}
       <div className="flex-grow flex flex-col items-center justify-center text-center space-y-4">
         
@@ -42,18 +179,37 @@ const FeedbackPanel: React.FC<FeedbackPanelProps> = ({
             <div className="w-16 h-16 bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
                <Play className="w-8 h-8 text-white ml-1" />
             </div>
-            <p className="mb-2 font-medium text-white">Ready to Squat?</p>
+            <p className="mb-2 font-medium text-white">Ready for {exercise.name}?</p>
             <p className="text-sm opacity-70">Press Start Set to begin the session.</p>
           </div>
         )}
 
-        {/* ACTIVE STATE */}
-        {sessionStatus === 'ACTIVE' && (
+        {/* ACTIVE STATE (HOLD) */}
+        {sessionStatus === 'ACTIVE' && isHold && (
+          <div className="w-full flex flex-col items-center">
+            <div className="text-6xl font-black text-white mb-2 font-mono tracking-tighter">
+              {formatHoldTime(holdDurationMs)}
+            </div>
+            <p className="text-emerald-400 font-medium uppercase tracking-widest text-sm">{exercise.name} Hold Time</p>
+            <p className="text-slate-400 font-mono text-xs mt-2">FORM BREAKS: {holdBreaks}</p>
+          </div>
+        )}
+
+        {/* ACTIVE STATE (ASSESSMENT) */}
+        {sessionStatus === 'ACTIVE' && isAssessment && assessment && (
+          <AssessmentProgress assessment={assessment} />
+        )}
+
+        {/* ACTIVE STATE (REPS) */}
+        {sessionStatus === 'ACTIVE' && exercise.mode === 'REPS' && (
           <div className="w-full flex flex-col items-center">
             <div className="text-6xl font-black text-white mb-2 font-mono tracking-tighter">
               {repCount}
             </div>
-            <p className="text-emerald-400 font-medium uppercase tracking-widest text-sm">Reps Completed</p>
+            <p className="text-emerald-400 font-medium uppercase tracking-widest text-sm">{exercise.name} Reps Completed</p>
+            {sideStats && <SideBreakdown sideStats={sideStats} />}
+            {lastRep && <ScoreBreakdown score={lastRep.score} breakdown={lastRep.breakdown} />}
+            {velocity && <VelocityReadout velocity={velocity} />}
           </div>
         )}
 
@@ -92,8 +248,28 @@ const FeedbackPanel: React.FC<FeedbackPanelProps> = ({
         {/* SUMMARY STATE */}
         {sessionStatus === 'SUMMARY' && !result && !analyzing && (
           <div className="text-center">
-             <div className="text-4xl font-bold text-white mb-1">{repCount}</div>
-             <p className="text-slate-400 text-sm mb-6">Total Reps</p>
+             {isAssessment ? (
+               <>
+                 <div className="text-4xl font-bold text-white mb-1">{assessment?.measurements.length ?? 0}</div>
+                 <p className="text-slate-400 text-sm mb-6">Motions Measured</p>
+               </>
+             ) : (
+               <>
+                 <div className="text-4xl font-bold text-white mb-1">{isHold ? formatHoldTime(holdDurationMs) : repCount}</div>
+                 <p className="text-slate-400 text-sm mb-6">
+                   {isHold ? `${exercise.name} Hold Time • ${holdBreaks} Breaks` : `Total ${exercise.name} Reps`}
+                 </p>
+               </>
+             )}
+             {sideStats && <div className="mb-6"><SideBreakdown sideStats={sideStats} /></div>}
+             {onViewSummary && (
+               <button
+                 onClick={onViewSummary}
+                 className="mb-4 px-4 py-2 rounded-lg border border-slate-600 text-slate-300 hover:text-white text-sm flex items-center justify-center gap-2 mx-auto"
+               >
+                 <BarChart3 className="w-4 h-4" /> {isAssessment ? 'View ROM Report' : 'View Set Summary'}
+               </button>
+             )}
              <button 
                onClick={onStartSession}
                className="text-emerald-400 text-sm hover:underline flex items-center justify-center gap-1 mx-auto"
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { History, X, Trash2, ChevronDown, ChevronRight, CheckCircle, AlertCircle } from "lucide-react";
+import { SessionRecord, ExerciseMetadata, ExerciseType } from "../types";
+import { listSessions, deleteSession } from "../services/historyService";
+
+interface HistoryViewProps {
+  exercises: ExerciseMetadata[];
+  onClose: () => void;
+}
+
+type DateRange = '7D' | '30D' | 'ALL';
+
+const DATE_RANGES: { value: DateRange; label: string; days: number | null }[] = [
+  { value: '7D', label: 'Last 7 days', days: 7 },
+  { value: '30D', label: 'Last 30 days', days: 30 },
+  { value: 'ALL', label: 'All time', days: null },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const averageScore = (session: SessionRecord): number | null =>
+  session.reps.length > 0
+    ? Math.round(session.reps.reduce((acc, rep) => acc + rep.score, 0) / session.reps.length)
+    : null;
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Rep-by-rep scores, assessment peaks and any Gemini checks for one session
+const SessionDetails: React.FC<{ session: SessionRecord }> = ({ session }) => (
+  <div className="mt-3 space-y-3 text-xs">
+    {session.rom && session.rom.length > 0 && (
+      <table className="w-full font-mono">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="text-left font-normal pb-1">MOTION</th>
+            <th className="text-left font-normal pb-1">LEFT</th>
+            <th className="text-left font-normal pb-1">RIGHT</th>
+          </tr>
+        </thead>
+        <tbody>
+          {session.rom.map(m => (
+            <tr key={m.motion} className="border-t border-slate-700/50">
+              <td className="py-1 text-slate-400">{m.motion.replace(/_/g, ' ')}</td>
+              <td className="py-1 text-slate-300">{m.left === null ? "—" : `${m.left}°`}</td>
+              <td className="py-1 text-slate-300">{m.right === null ? "—" : `${m.right}°`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+
+    {session.reps.length > 0 && (
+      <table className="w-full font-mono">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="text-left font-normal pb-1">REP</th>
+            <th className="text-left font-normal pb-1">SCORE</th>
+            <th className="text-left font-normal pb-1">FAULTS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {session.reps.map(rep => (
+            <tr key={rep.repNumber} className="border-t border-slate-700/50">
+              <td className="py-1 text-slate-400">{rep.repNumber}</td>
+              <td className={`py-1 font-bold ${rep.score >= 70 ? 'text-emerald-400' : 'text-red-400'}`}>{rep.score}</td>
+              <td className="py-1 text-slate-300">{rep.faults.length > 0 ? rep.faults.join(", ") : "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+
+    {session.analyses.map(({ timestamp, result }) => (
+      <div key={timestamp} className="p-2 rounded-lg bg-black/20 flex gap-2">
+        {result.isGoodForm
+          ? <CheckCircle className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+          : <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />}
+        <div>
+          <p className="text-slate-200">{result.feedback}</p>
+          {result.correction && <p className="mt-1 text-yellow-200 font-mono">TIP: {result.correction}</p>}
+        </div>
+      </div>
+    ))}
+
+    {session.reps.length === 0 && !session.rom?.length && session.analyses.length === 0 && (
+      <p className="text-slate-500">No rep details recorded.</p>
+    )}
+  </div>
+);
+
+const HistoryView: React.FC<HistoryViewProps> = ({ exercises, onClose }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exerciseFilter, setExerciseFilter] = useState<ExerciseType | 'ALL'>('ALL');
+  const [dateRange, setDateRange] = useState<DateRange>('30D');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions().then(result => {
+      if (cancelled) return;
+      setSessions(result);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const filtered = useMemo(() => {
+    const days = DATE_RANGES.find(r => r.value === dateRange)?.days ?? null;
+    const since = days === null ? 0 : Date.now() - days * DAY_MS;
+    return sessions.filter(s =>
+      s.startedAt >= since && (exerciseFilter === 'ALL' || s.exercise === exerciseFilter)
+    );
+  }, [sessions, exerciseFilter, dateRange]);
+
+  const totals = useMemo(() => {
+    const scores = filtered.flatMap(s => s.reps.map(r => r.score));
+    return {
+      sessions: filtered.length,
+      reps: filtered.reduce((acc, s) => acc + s.repCount, 0),
+      averageScore: scores.length > 0 ? Math.round(scores.reduce((acc, v) => acc + v, 0) / scores.length) : null,
+    };
+  }, [filtered]);
+
+  const handleDelete = async (session: SessionRecord) => {
+    if (!window.confirm(`Delete the ${session.exerciseName} session from ${formatDate(session.startedAt)}?`)) return;
+    await deleteSession(session.id);
+    setSessions(prev => prev.filter(s => s.id !== session.id));
+  };
+
+  return (
+    <div className="fixed inset-0 top-16 z-40 bg-slate-900 overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <History className="w-6 h-6 text-emerald-400" />
+            Session History
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={exerciseFilter}
+            onChange={e => setExerciseFilter(e.target.value as ExerciseType | 'ALL')}
+            className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            <option value="ALL">All exercises</option>
+            {exercises.map(exercise => (
+              <option key={exercise.type} value={exercise.type}>{exercise.name}</option>
+            ))}
+          </select>
+          <select
+            value={dateRange}
+            onChange={e => setDateRange(e.target.value as DateRange)}
+            className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {DATE_RANGES.map(range => (
+              <option key={range.value} value={range.value}>{range.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-3 gap-3 font-mono">
+          {[
+            { label: 'SESSIONS', value: totals.sessions },
+            { label: 'REPS', value: totals.reps },
+            { label: 'AVG SCORE', value: totals.averageScore ?? '—' },
+          ].map(({ label, value }) => (
+            <div key={label} className="p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+              <div className="text-xs text-slate-400">{label}</div>
+              <div className="text-3xl font-bold text-white">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Session List */}
+        {loading ? (
+          <p className="text-slate-400">Loading sessions...</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-slate-400">No sessions recorded for this filter yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map(session => {
+              const expanded = expandedId === session.id;
+              const avg = averageScore(session);
+              return (
+                <div key={session.id} className="p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : session.id)}
+                      className="flex-1 flex items-center gap-3 text-left"
+                    >
+                      {expanded
+                        ? <ChevronDown className="w-4 h-4 text-slate-400" />
+                        : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                      <div className="flex-1">
+                        <div className="font-bold text-white">{session.exerciseName}</div>
+                        <div className="text-xs text-slate-400">
+                          {formatDate(session.startedAt)} • {formatDuration(session.endedAt - session.startedAt)} • {session.profileName}
+                        </div>
+                      </div>
+                      <div className="text-right font-mono">
+                        <div className="text-white font-bold">
+                          {session.mode === 'HOLD'
+                            ? formatDuration(session.holdDurationMs ?? 0)
+                            : session.mode === 'ASSESSMENT' ? `${session.rom?.length ?? 0} motions` : `${session.repCount} reps`}
+                        </div>
+                        <div className="text-xs text-slate-400">
+                          {session.mode === 'HOLD' ? `${session.holdBreaks ?? 0} breaks` : avg !== null ? `avg ${avg}` : ''}
+                        </div>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      title="Delete session"
+                      className="p-2 text-slate-500 hover:text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {expanded && <SessionDetails session={session} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
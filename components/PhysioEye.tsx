@@ -1,19 +1,46 @@
 import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState } from "react";
-import { PoseResults, PhysioEyeRef, HUDState } from "../types";
+import { Play, Pause, SkipBack, SkipForward } from "lucide-react";
+import { PoseResults, PhysioEyeRef, HUDState, CameraSettings } from "../types";
 import { 
   drawBiomechanicalSkeleton, 
   drawDepthFloor, 
   drawTorsoLeanCone, 
-  drawValgusArrows 
+  drawValgusArrows,
+  drawBodyLineGuide,
+  drawSpineGuide,
+  drawSagittalGuide,
+  drawFootGuide
 } from "../lib/PoseDrawing";
+import { ViewTransform, getRotatedSize, drawRotatedFrame, drawViewFrame } from "../lib/ViewTransform";
+import { LandmarkRecording } from "../utils/landmarkRecording";
+import { PerformanceMonitor } from "../utils/performanceMonitor";
+import { DEFAULT_CAMERA_SETTINGS, buildVideoConstraints } from "../services/cameraService";
 
 interface PhysioEyeProps {
   onLandmarksDetected: (results: PoseResults) => void;
   isActive: boolean;
   hudState?: HUDState;
+  replay?: LandmarkRecording | null; // When set, plays the recording instead of the camera
+  onReplayEnd?: () => void;
+  videoFile?: File | null; // When set, analyses the uploaded video instead of the camera
+  onRewind?: () => void;   // The video file was moved back to frames already analysed
+  cameraSettings?: CameraSettings;
+  performanceMonitor?: PerformanceMonitor; // Receives camera, inference and analysed-frame timings
 }
 
-const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetected, isActive, hudState }, ref) => {
+// Recordings without a frame size were captured at the default camera resolution
+const DEFAULT_REPLAY_SIZE = { width: 640, height: 480 };
+
+// Phone recordings are usually 30fps; browsers expose no exact frame duration
+const FRAME_STEP_SECONDS = 1 / 30;
+
+const formatVideoTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({
+  onLandmarksDetected, isActive, hudState, replay, onReplayEnd, videoFile, onRewind,
+  cameraSettings = DEFAULT_CAMERA_SETTINGS, performanceMonitor,
+}, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
@@ -35,9 +62,39 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
     analysisContextRef.current = hudState;
   }, [hudState]);
 
+  const onReplayEndRef = useRef(onReplayEnd);
+  useEffect(() => {
+    onReplayEndRef.current = onReplayEnd;
+  }, [onReplayEnd]);
+
+  const performanceMonitorRef = useRef(performanceMonitor);
+  performanceMonitorRef.current = performanceMonitor;
+
+  const onRewindRef = useRef(onRewind);
+  useEffect(() => {
+    onRewindRef.current = onRewind;
+  }, [onRewind]);
+
+  // Camera frames are not sent to MediaPipe while a recording is playing
+  const isReplayingRef = useRef(false);
+
+  // The one transform used for the frame, the overlays and screenshots.
+  // Video files are shown as filmed; only the live camera can be mirrored.
+  const view: ViewTransform = { mirrored: !videoFile && cameraSettings.mirrored, rotation: cameraSettings.rotation };
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  // Capture time of the frame currently in MediaPipe (video files: file time)
+  const frameTimestampRef = useRef(0);
+
   // Internal state to track if camera is ready
   const [cameraReady, setCameraReady] = useState(false);
 
+  // Video file transport state
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [videoTime, setVideoTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+
   // Helper to draw the HUD overlay (Text Box)
   const drawHUD = (ctx: CanvasRenderingContext2D, state: HUDState) => {
     if (!state.visible) return;
@@ -100,43 +157,108 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
       // Label
       ctx.font = "bold 12px monospace";
       ctx.fillStyle = "#FFFFFF";
-      ctx.fillText(state.trackingMode, indX + 16, indY + 4);
+      const sourceLabel = state.trackingSource ? ` · ${state.trackingSource === 'WORLD_3D' ? '3D' : '2D'}` : '';
+      const viewLabel = state.cameraView ? ` · ${state.cameraView}` : '';
+      ctx.fillText(`${state.trackingMode}${sourceLabel}${viewLabel}`, indX + 16, indY + 4);
+    }
+
+    // 3. Auto-Detect Readout (Below Tracking Indicator)
+    if (state.recognition) {
+      const confidence = Math.round(state.recognition.confidence * 100);
+      ctx.font = "bold 12px monospace";
+      ctx.fillStyle = confidence >= 60 ? "#60A5FA" : "#94A3B8";
+      ctx.fillText(`AUTO: ${state.recognition.label.replace('_', ' ')} ${confidence}%`, 22, 75);
     }
     
     ctx.restore();
   };
 
+  // Draws one frame (video frame, skeleton, guides, HUD) and hands the results to the parent.
+  // Shared by the live camera, video files and recording replay (which has no image).
+  const renderFrame = (results: PoseResults, width: number, height: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    // Sync canvas size to the source frame size
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+
+    ctx.save();
+    ctx.clearRect(0, 0, canvas.width, canvas.height); // Clear previous frame
+
+    // 1. Analysed frame. Drawn here rather than showing the <video>, so the
+    // picture, the overlays and screenshots always share frame and transform.
+    const view = viewRef.current;
+    if (results.image) {
+      drawViewFrame(ctx, results.image, view);
+    }
+
+    if (results.poseLandmarks) {
+      // 2. NEW: Draw Biomechanical Skeleton with Z-Depth
+      drawBiomechanicalSkeleton(ctx, results.poseLandmarks, view, analysisContextRef.current?.visualContext?.estimatedJoints);
+      
+      // 3. NEW: Draw Visual Guides based on Mechanics State
+      if (analysisContextRef.current?.visualContext) {
+         const mechanics = analysisContextRef.current.visualContext;
+         
+         if (mechanics.bodyLine) {
+            // Plank-position exercises: body-line guide replaces the standing guides
+            drawBodyLineGuide(ctx, results.poseLandmarks, mechanics, view);
+         } else if (mechanics.spine) {
+            // Hinge exercises: forward lean is expected, so show the spine chain instead
+            drawSpineGuide(ctx, results.poseLandmarks, mechanics, view);
+         } else if (mechanics.sagittal) {
+            // Side-on squats: knee-height depth line and shin angle replace the frontal guides
+            drawSagittalGuide(ctx, results.poseLandmarks, mechanics, view);
+            drawTorsoLeanCone(ctx, results.poseLandmarks, mechanics, view);
+            drawFootGuide(ctx, results.poseLandmarks, mechanics, view);
+         } else {
+            drawDepthFloor(ctx, results.poseLandmarks, mechanics, view);
+            drawTorsoLeanCone(ctx, results.poseLandmarks, mechanics, view);
+            drawValgusArrows(ctx, results.poseLandmarks, mechanics, view);
+            drawFootGuide(ctx, results.poseLandmarks, mechanics, view);
+         }
+      }
+    }
+
+    // 4. Conditional HUD (Text Box)
+    // Drawn last so it's on top. Text is readable because only the frame and landmarks are mirrored.
+    if (analysisContextRef.current) {
+      drawHUD(ctx, analysisContextRef.current);
+    }
+
+    ctx.restore();
+
+    // 5. Notify Parent via Ref
+    performanceMonitorRef.current?.recordAnalysedFrame(performance.now());
+    if (onLandmarksDetectedRef.current) {
+      onLandmarksDetectedRef.current(results);
+    }
+  };
+
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
     getScreenshot: () => {
-      const video = videoRef.current;
       const canvas = canvasRef.current;
-      if (!canvas || !video) return null;
+      if (!canvas || canvas.width === 0) return null;
       
       // Optimization: Scale down to max 512px for Gemini token/bandwidth savings
       const maxDimension = 512;
-      const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+      const scale = Math.min(1, maxDimension / Math.max(canvas.width, canvas.height));
       
       const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = video.videoWidth * scale;
-      tempCanvas.height = video.videoHeight * scale;
+      tempCanvas.width = canvas.width * scale;
+      tempCanvas.height = canvas.height * scale;
       const ctx = tempCanvas.getContext('2d');
       
       if (ctx) {
-        // COMPOSITE IMAGE CREATION
-        
-        // 1. Draw Video Frame (Background)
-        // CRITICAL: Mirror the video frame to match the manually-mirrored skeleton on the canvas.
-        ctx.save();
-        ctx.translate(tempCanvas.width, 0);
-        ctx.scale(-1, 1);
-        ctx.drawImage(video, 0, 0, tempCanvas.width, tempCanvas.height);
-        ctx.restore();
-        
-        // 2. Draw Skeleton/HUD Overlay (Foreground)
-        // The canvas already contains the mirrored skeleton and normal text.
+        // The canvas already holds the composite: transformed frame, skeleton and HUD
         ctx.drawImage(canvas, 0, 0, tempCanvas.width, tempCanvas.height);
-        
         return tempCanvas.toDataURL('image/jpeg', 0.8);
       }
       return null;
@@ -146,6 +268,10 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
   useEffect(() => {
     let pose: any = null;
     let isActiveSession = true;
+    let objectUrl: string | null = null;
+    let fileEpoch = 0;          // Wall-clock time mapped to 0:00 of the video file
+    let lastSentVideoTime = -1; // Video files: only new frames go to MediaPipe
+    const rotatedInput = document.createElement('canvas'); // MediaPipe input for rotated views
 
     const initMediaPipe = async () => {
       // Wait for window.Pose to load if not ready
@@ -173,68 +299,49 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
           });
 
           pose.onResults((results: PoseResults) => {
-            const canvas = canvasRef.current;
             const video = videoRef.current;
-            if (!canvas || !video) return;
-
-            const ctx = canvas.getContext("2d");
-            if (!ctx) return;
-
-            // Sync canvas size to video size
-            if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-                canvas.width = video.videoWidth;
-                canvas.height = video.videoHeight;
-            }
-
-            ctx.save();
-            ctx.clearRect(0, 0, canvas.width, canvas.height); // Clear previous frame
-
-            if (results.poseLandmarks) {
-              // 2. NEW: Draw Biomechanical Skeleton with Z-Depth
-              // Note: Logic inside PoseDrawing now handles the horizontal flip manually
-              drawBiomechanicalSkeleton(ctx, results.poseLandmarks);
-              
-              // 3. NEW: Draw Visual Guides based on Mechanics State
-              if (analysisContextRef.current?.visualContext) {
-                 const mechanics = analysisContextRef.current.visualContext;
-                 
-                 drawDepthFloor(ctx, results.poseLandmarks, mechanics);
-                 drawTorsoLeanCone(ctx, results.poseLandmarks, mechanics);
-                 drawValgusArrows(ctx, results.poseLandmarks, mechanics);
-              }
-            }
-
-            // 4. Conditional HUD (Text Box)
-            // Drawn last so it's on top. Text is readable because canvas is not CSS-flipped.
-            if (analysisContextRef.current) {
-              drawHUD(ctx, analysisContextRef.current);
-            }
-
-            ctx.restore();
-
-            // 5. Notify Parent via Ref
-            if (onLandmarksDetectedRef.current) {
-              onLandmarksDetectedRef.current(results);
-            }
+            if (!video || isReplayingRef.current) return;
+            const { width, height } = getRotatedSize(video.videoWidth, video.videoHeight, viewRef.current.rotation);
+            renderFrame({ ...results, timestamp: frameTimestampRef.current }, width, height);
           });
       } catch (e) {
           console.error("Failed to initialize Pose:", e);
           return;
       }
 
-      // 2. Setup Camera (Manual Method)
+      // 2a. Setup Video File (paused on the first frame; the user drives playback)
+      if (videoFile) {
+        const video = videoRef.current;
+        if (!video) return;
+        objectUrl = URL.createObjectURL(videoFile);
+        fileEpoch = Date.now();
+        video.srcObject = null;
+        video.src = objectUrl;
+        video.onloadedmetadata = () => {
+          setVideoDuration(video.duration);
+          setCameraReady(true);
+          startProcessingLoop();
+        };
+        return;
+      }
+
+      // 2b. Setup Camera (Manual Method)
       // We rely on getUserMedia directly instead of CameraUtils to avoid timeouts
       try {
         if (!videoRef.current) return;
 
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-              width: { ideal: 640 }, 
-              height: { ideal: 480 },
-              facingMode: 'user'
-          },
-          audio: false
-        });
+        let stream: MediaStream;
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(cameraSettings), audio: false });
+        } catch (err) {
+          // The saved camera may have been unplugged: fall back to the default one
+          if (!cameraSettings.deviceId) throw err;
+          console.warn("Selected camera unavailable, using the default:", err);
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: buildVideoConstraints({ ...cameraSettings, deviceId: null }),
+            audio: false
+          });
+        }
         
         streamRef.current = stream;
         
@@ -258,20 +365,52 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
       }
     };
 
+    // Counts frames presented by the source, so frames MediaPipe never saw show up as dropped
+    const watchSourceFrames = (video: HTMLVideoElement) => {
+        if (!('requestVideoFrameCallback' in video)) return;
+        const onFrame = () => {
+            if (!isActiveSession) return;
+            if (!isReplayingRef.current) performanceMonitorRef.current?.recordCameraFrame(performance.now());
+            video.requestVideoFrameCallback(onFrame);
+        };
+        video.requestVideoFrameCallback(onFrame);
+    };
+
     const startProcessingLoop = () => {
+        if (videoRef.current) watchSourceFrames(videoRef.current);
         const loop = async () => {
             if (!isActiveSession) return;
             
             // Only process if video is playing and pose is ready
+            const video = videoRef.current;
             if (
-                videoRef.current && 
-                videoRef.current.readyState >= 2 && 
+                video && 
+                video.readyState >= 2 && 
+                !isReplayingRef.current &&
                 pose && 
-                !isProcessingRef.current
+                !isProcessingRef.current &&
+                (!videoFile || video.currentTime !== lastSentVideoTime)
             ) {
                 isProcessingRef.current = true;
+                lastSentVideoTime = video.currentTime;
+                // Video files run on their own clock so overlays and timings follow the file
+                frameTimestampRef.current = videoFile ? fileEpoch + video.currentTime * 1000 : Date.now();
                 try {
-                    await pose.send({ image: videoRef.current });
+                    const { rotation } = viewRef.current;
+                    let image: HTMLVideoElement | HTMLCanvasElement = video;
+                    if (rotation !== 0) {
+                        const size = getRotatedSize(video.videoWidth, video.videoHeight, rotation);
+                        if (rotatedInput.width !== size.width || rotatedInput.height !== size.height) {
+                            rotatedInput.width = size.width;
+                            rotatedInput.height = size.height;
+                        }
+                        const inputCtx = rotatedInput.getContext('2d');
+                        if (inputCtx) drawRotatedFrame(inputCtx, video, video.videoWidth, video.videoHeight, rotation);
+                        image = rotatedInput;
+                    }
+                    const sentAt = performance.now();
+                    await pose.send({ image });
+                    performanceMonitorRef.current?.recordInference(performance.now() - sentAt, performance.now());
                 } catch (e) {
                     // Ignore transient errors during frame processing
                 } finally {
@@ -296,34 +435,138 @@ const PhysioEye = forwardRef<PhysioEyeRef, PhysioEyeProps>(({ onLandmarksDetecte
           streamRef.current.getTracks().forEach(track => track.stop());
           streamRef.current = null;
       }
+
+      // Cleanup Video File
+      if (objectUrl) {
+          const video = videoRef.current;
+          if (video) {
+              video.pause();
+              video.removeAttribute('src');
+              video.load();
+          }
+          URL.revokeObjectURL(objectUrl);
+      }
+      setCameraReady(false);
+      setIsPlaying(false);
+      setVideoTime(0);
       
       if (pose) pose.close();
     };
-  }, [isActive]); 
+  }, [isActive, videoFile, cameraSettings.deviceId, cameraSettings.width, cameraSettings.height, cameraSettings.frameRate]); 
+
+  // --- Video File Transport ---
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(e => console.error("Video play error:", e));
+    else video.pause();
+  };
+
+  const seekTo = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const target = Math.max(0, Math.min(video.duration || 0, seconds));
+    if (target < video.currentTime) onRewindRef.current?.();
+    video.currentTime = target;
+    setVideoTime(target);
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seekTo(video.currentTime + direction * FRAME_STEP_SECONDS);
+  };
+
+  // Recording replay: feeds recorded frames through the same draw/notify path in real time
+  useEffect(() => {
+    if (!replay) return;
+    isReplayingRef.current = true;
+
+    const { width, height } = replay.header.frameSize ?? DEFAULT_REPLAY_SIZE;
+    const startedAt = performance.now();
+    let index = 0;
+    let frameRequest = 0;
+
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      // Every due frame goes to the engine, even if several arrive in one tick
+      while (index < replay.frames.length && replay.frames[index].t <= elapsed) {
+        const frame = replay.frames[index];
+        renderFrame(
+          { poseLandmarks: frame.landmarks ?? [], poseWorldLandmarks: frame.world ?? [], image: null, timestamp: replay.header.createdAt + frame.t },
+          width,
+          height
+        );
+        index++;
+      }
+
+      if (index >= replay.frames.length) {
+        onReplayEndRef.current?.();
+        return;
+      }
+      frameRequest = requestAnimationFrame(tick);
+    };
+    frameRequest = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameRequest);
+      isReplayingRef.current = false;
+    };
+  }, [replay]);
 
   return (
     <div className="relative w-full h-full rounded-2xl overflow-hidden bg-black shadow-2xl ring-1 ring-white/10">
-      {/* Layer 1: Webcam Video (Bottom) - Flipped via CSS for Mirror Effect */}
+      {/* Layer 1: Source Video - never shown directly; frames are drawn on the canvas through the view transform */}
       <video
         ref={videoRef}
-        className="absolute inset-0 w-full h-full object-cover transform -scale-x-100 z-0"
+        className="absolute inset-0 w-full h-full object-cover z-0 opacity-0"
         playsInline
         muted
         // AutoPlay is handled manually in logic now, but keep attribute for safety
-        autoPlay
+        autoPlay={!videoFile}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={e => setVideoTime(e.currentTarget.currentTime)}
       ></video>
 
-      {/* Layer 2: Canvas Drawings (Top) - NOT FLIPPED via CSS. Drawing logic handles mirroring manually. */}
+      {/* Layer 2: Canvas (Top) - frame + overlays. NOT FLIPPED via CSS; the view transform handles mirroring. */}
       <canvas
         ref={canvasRef}
         className="absolute inset-0 w-full h-full object-cover z-10" 
       ></canvas>
 
-      {!cameraReady && (
+      {!cameraReady && !replay && (
         <div className="absolute inset-0 flex items-center justify-center bg-slate-900 text-white animate-pulse z-20">
           <p>Initializing Physio Eye...</p>
         </div>
       )}
+
+      {/* Layer 3: Video File Transport */}
+      {videoFile && cameraReady && !replay && (
+        <div className="absolute top-16 left-4 right-4 z-20 flex items-center gap-2 bg-black/60 backdrop-blur-sm px-3 py-2 rounded-lg border border-white/10 text-xs font-mono text-slate-300">
+          <button onClick={() => stepFrame(-1)} title="Previous frame" className="hover:text-white">
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={togglePlay} title={isPlaying ? "Pause" : "Play"} className="hover:text-white">
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={() => stepFrame(1)} title="Next frame" className="hover:text-white">
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={videoDuration || 0}
+            step={FRAME_STEP_SECONDS}
+            value={videoTime}
+            onChange={e => seekTo(Number(e.target.value))}
+            className="flex-1 accent-emerald-500"
+          />
+          <span className="w-24 text-right">{formatVideoTime(videoTime)} / {formatVideoTime(videoDuration)}</span>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,113 @@
+import React from "react";
+import { Ruler, X } from "lucide-react";
+import { RomMeasurement, SessionRecord } from "../types";
+import { RomReportRow, RomStatus, buildRomReport } from "../utils/romAssessment";
+
+interface RomReportProps {
+  measurements: RomMeasurement[];
+  complete: boolean; // Incomplete assessments are shown but not saved
+  baseline: SessionRecord | null; // Client's first assessment, if this is a re-assessment
+  profileName: string;
+  onClose: () => void;
+}
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const statusColor = (status: RomStatus | null) =>
+  status === 'LIMITED' ? "text-amber-400" : status === 'NORMAL' ? "text-emerald-400" : "text-slate-500";
+
+// One side's peak angle with its change since the baseline
+const SideValue: React.FC<{ value: number | null; status: RomStatus | null; change: number | null }> = ({ value, status, change }) => (
+  <td className="py-1.5">
+    <span className={`font-bold ${statusColor(status)}`}>{value === null ? "—" : `${value}°`}</span>
+    {change !== null && change !== 0 && (
+      <span className={`ml-1 ${change > 0 ? 'text-emerald-400/70' : 'text-red-400/70'}`}>
+        {change > 0 ? '+' : ''}{change}°
+      </span>
+    )}
+  </td>
+);
+
+const ReportRow: React.FC<{ row: RomReportRow }> = ({ row }) => (
+  <tr className="border-t border-slate-700/50">
+    <td className="py-1.5 text-slate-200">{row.label}</td>
+    <td className="py-1.5 text-slate-400">{row.movement}</td>
+    <SideValue value={row.left} status={row.leftStatus} change={row.leftChange} />
+    <SideValue value={row.right} status={row.rightStatus} change={row.rightChange} />
+    <td className={`py-1.5 ${row.asymmetric ? 'text-red-400 font-bold' : 'text-slate-300'}`}>
+      {row.difference === null ? "—" : `${row.difference}°`}
+    </td>
+    <td className="py-1.5 text-slate-500">{row.normal.min}–{row.normal.max}°</td>
+  </tr>
+);
+
+const RomReport: React.FC<RomReportProps> = ({ measurements, complete, baseline, profileName, onClose }) => {
+  const rows = buildRomReport(measurements, baseline?.rom ?? null);
+  const limited = rows.filter(row => row.leftStatus === 'LIMITED' || row.rightStatus === 'LIMITED').length;
+  const asymmetric = rows.filter(row => row.asymmetric).length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Ruler className="w-5 h-5 text-emerald-400" />
+            Range of Motion Report
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3 font-mono">
+            {[
+              { label: 'MEASURED', value: `${measurements.length}/${rows.length}` },
+              { label: 'BELOW NORMAL', value: limited },
+              { label: 'ASYMMETRIC', value: asymmetric },
+            ].map(({ label, value }) => (
+              <div key={label} className="p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+                <div className="text-xs text-slate-400">{label}</div>
+                <div className="text-2xl font-bold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-400 font-mono">
+            {profileName.toUpperCase()} • {!complete
+              ? 'INCOMPLETE ASSESSMENT: NOT SAVED'
+              : baseline
+                ? `CHANGES VS BASELINE OF ${formatDate(baseline.startedAt).toUpperCase()}`
+                : 'FIRST ASSESSMENT: SAVED AS THE BASELINE'}
+          </p>
+
+          <table className="w-full text-xs font-mono">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="text-left font-normal pb-1">MOTION</th>
+                <th className="text-left font-normal pb-1">MOVEMENT</th>
+                <th className="text-left font-normal pb-1">LEFT</th>
+                <th className="text-left font-normal pb-1">RIGHT</th>
+                <th className="text-left font-normal pb-1">L/R DIFF</th>
+                <th className="text-left font-normal pb-1">NORMAL</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => <ReportRow key={row.motion} row={row} />)}
+            </tbody>
+          </table>
+
+          <p className="text-xs text-slate-500">
+            Peak angles in degrees from each joint's neutral position. Amber values are below the normal range;
+            red differences exceed the left/right tolerance. Camera goniometry is a screening aid, not a clinical measurement.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RomReport;
@@ -0,0 +1,230 @@
+import React from "react";
+import { BarChart3, X } from "lucide-react";
+import { ExerciseMetadata } from "../types";
+import { BodySide, RepRecord } from "../utils/exerciseLogic";
+import { SetSummary as SetSummaryData } from "../utils/setSummary";
+
+interface SetSummaryProps {
+  summary: SetSummaryData;
+  exercise: ExerciseMetadata;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const scoreColor = (score: number) => (score >= 70 ? "text-emerald-400" : "text-red-400");
+
+// Measured phases in tempo notation order, in seconds
+const formatRepTempo = ({ tempo }: RepRecord) => {
+  if (!tempo) return "—";
+  const phases = [tempo.eccentricMs, tempo.bottomMs, tempo.concentricMs, tempo.topMs];
+  return phases.map(ms => (ms === undefined ? "–" : (ms / 1000).toFixed(1))).join("-");
+};
+
+// Primary joint angle over the whole set, with a marker at the end of each rep
+const AngleChart: React.FC<{ summary: SetSummaryData; joint: string }> = ({ summary, joint }) => {
+  const { angleSeries, repEnds, durationMs } = summary;
+  if (angleSeries.length < 2 || durationMs <= 0) {
+    return <p className="text-xs text-slate-500">Not enough tracking data to chart.</p>;
+  }
+
+  const angles = angleSeries.map(p => p.angle);
+  const minAngle = Math.max(0, Math.floor(Math.min(...angles) / 10) * 10);
+  const maxAngle = Math.min(180, Math.ceil(Math.max(...angles) / 10) * 10);
+  const span = Math.max(10, maxAngle - minAngle);
+
+  const x = (t: number) => (t / durationMs) * CHART_WIDTH;
+  const y = (angle: number) => CHART_HEIGHT - ((angle - minAngle) / span) * CHART_HEIGHT;
+  const points = angleSeries.map(p => `${x(p.t).toFixed(1)},${y(p.angle).toFixed(1)}`).join(" ");
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-500 font-mono mb-1">
+        <span>{joint.toUpperCase()} ANGLE</span>
+        <span>{minAngle}°–{maxAngle}°</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40 bg-slate-900/50 rounded-lg" preserveAspectRatio="none">
+        {repEnds.map((t, i) => (
+          <line key={i} x1={x(t)} x2={x(t)} y1={0} y2={CHART_HEIGHT} stroke="#334155" strokeDasharray="4 4" />
+        ))}
+        <polyline points={points} fill="none" stroke="#10B981" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+};
+
+// How often each fault appeared across the set's reps
+const FaultHistogram: React.FC<{ summary: SetSummaryData }> = ({ summary }) => {
+  if (summary.faultCounts.length === 0) {
+    return <p className="text-xs text-emerald-400">No faults recorded.</p>;
+  }
+  const max = summary.faultCounts[0].count;
+  return (
+    <div className="space-y-1.5">
+      {summary.faultCounts.map(({ label, count }) => (
+        <div key={label} className="flex items-center gap-2 text-xs font-mono">
+          <span className="w-32 flex-shrink-0 text-slate-300 truncate">{label}</span>
+          <div className="flex-1 h-3 bg-slate-900/50 rounded">
+            <div className="h-3 bg-red-500/70 rounded" style={{ width: `${(count / max) * 100}%` }} />
+          </div>
+          <span className="w-12 text-right text-slate-400">{count}/{summary.reps.length}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Per-rep left/right knee angle difference (bilateral engines)
+const AsymmetryTrend: React.FC<{ summary: SetSummaryData }> = ({ summary }) => {
+  const max = Math.max(10, ...summary.asymmetryTrend.map(p => p.diff));
+  return (
+    <div className="flex items-end gap-1 h-24">
+      {summary.asymmetryTrend.map(point => (
+        <div key={point.repNumber} className="flex-1 flex flex-col items-center justify-end h-full" title={`Rep ${point.repNumber}: ${Math.round(point.diff)}°`}>
+          <div
+            className={`w-full rounded-t ${point.side === 'LEFT' ? 'bg-blue-500/70' : point.side === 'RIGHT' ? 'bg-amber-500/70' : 'bg-slate-600'}`}
+            style={{ height: `${(point.diff / max) * 100}%` }}
+          />
+          <span className="text-[10px] text-slate-500 font-mono mt-1">
+            {point.side === 'NONE' ? point.repNumber : `${point.repNumber}${point.side[0]}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Left vs right averages (unilateral engines)
+const SideComparison: React.FC<{ sides: NonNullable<SetSummaryData['sideComparison']> }> = ({ sides }) => (
+  <div className="grid grid-cols-2 gap-3 font-mono text-xs">
+    {(['LEFT', 'RIGHT'] as BodySide[]).map(side => (
+      <div key={side} className="p-3 rounded-lg bg-slate-900/50 border border-slate-700">
+        <div className="text-slate-400">{side}</div>
+        <div className="text-white">{sides[side].reps} reps</div>
+        <div className={scoreColor(sides[side].averageScore)}>AVG {Math.round(sides[side].averageScore)}</div>
+        <div className="text-slate-500">DEPTH {Math.round(sides[side].averageMinAngle)}°</div>
+      </div>
+    ))}
+  </div>
+);
+
+const SetSummary: React.FC<SetSummaryProps> = ({ summary, exercise, onClose }) => {
+  const hasSides = summary.sideComparison !== null;
+  const hasTempo = summary.reps.some(rep => rep.tempo);
+  const hasVelocity = summary.reps.some(rep => rep.meanVelocity !== undefined);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-emerald-400" />
+            {exercise.name} Set Summary
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3 font-mono">
+            {[
+              { label: 'REPS', value: summary.reps.length },
+              { label: 'AVG SCORE', value: summary.averageScore ?? '—' },
+              { label: 'DURATION', value: formatSeconds(summary.durationMs) },
+            ].map(({ label, value }) => (
+              <div key={label} className="p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+                <div className="text-xs text-slate-400">{label}</div>
+                <div className="text-2xl font-bold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {summary.bestRep && summary.worstRep && summary.reps.length > 1 && (
+            <p className="text-xs text-slate-400 font-mono">
+              BEST REP #{summary.bestRep.repNumber} ({summary.bestRep.score}) • WORST REP #{summary.worstRep.repNumber} ({summary.worstRep.score})
+              {summary.averageTempoScore !== null && ` • TEMPO ${summary.averageTempoScore}%`}
+              {summary.velocityLoss !== null && ` • VELOCITY LOSS ${summary.velocityLoss}%`}
+            </p>
+          )}
+
+          <AngleChart summary={summary} joint={exercise.primaryJoint} />
+
+          {/* Rep Table */}
+          {summary.reps.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-white mb-2">Reps</h3>
+              <table className="w-full text-xs font-mono">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="text-left font-normal pb-1">REP</th>
+                    {hasSides && <th className="text-left font-normal pb-1">SIDE</th>}
+                    <th className="text-left font-normal pb-1">SCORE</th>
+                    <th className="text-left font-normal pb-1">DEPTH</th>
+                    <th className="text-left font-normal pb-1">DOWN / UP</th>
+                    {hasTempo && <th className="text-left font-normal pb-1">TEMPO</th>}
+                    {hasVelocity && <th className="text-left font-normal pb-1">TL/s</th>}
+                    <th className="text-left font-normal pb-1">FAULTS</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.reps.map(rep => (
+                    <tr key={rep.repNumber} className="border-t border-slate-700/50">
+                      <td className="py-1 text-slate-400">{rep.repNumber}</td>
+                      {hasSides && <td className="py-1 text-slate-400">{rep.side ? rep.side[0] : '—'}</td>}
+                      <td className={`py-1 font-bold ${scoreColor(rep.score)}`}>{rep.score}</td>
+                      <td className="py-1 text-slate-300">{Math.round(rep.minAngle)}°</td>
+                      <td className="py-1 text-slate-300">{formatSeconds(rep.descentMs)} / {formatSeconds(rep.ascentMs)}</td>
+                      {hasTempo && (
+                        <td className="py-1 text-slate-300">
+                          {formatRepTempo(rep)}
+                          {rep.tempoScore !== undefined && <span className={`ml-1 ${scoreColor(rep.tempoScore)}`}>{rep.tempoScore}%</span>}
+                        </td>
+                      )}
+                      {hasVelocity && (
+                        <td className="py-1 text-slate-300">
+                          {rep.meanVelocity !== undefined ? rep.meanVelocity.toFixed(2) : "—"}
+                          {rep.velocityLoss !== undefined && rep.velocityLoss >= 1 && <span className="ml-1 text-slate-500">-{Math.round(rep.velocityLoss)}%</span>}
+                        </td>
+                      )}
+                      <td className="py-1 text-slate-300">{rep.faults.length > 0 ? rep.faults.join(", ") : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {summary.reps.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-white mb-2">Fault Frequency</h3>
+              <FaultHistogram summary={summary} />
+            </div>
+          )}
+
+          {summary.asymmetryTrend.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-white mb-1">Left/Right Asymmetry</h3>
+              <p className="text-xs text-slate-500 mb-2">Max knee angle difference per rep. Letter = straighter (unloaded) side.</p>
+              <AsymmetryTrend summary={summary} />
+            </div>
+          )}
+
+          {summary.sideComparison && (
+            <div>
+              <h3 className="text-sm font-bold text-white mb-2">Left vs Right</h3>
+              <SideComparison sides={summary.sideComparison} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetSummary;
@@ -0,0 +1,323 @@
+import React, { useState } from "react";
+import { Settings, X, Plus, Trash2, RotateCcw, Save } from "lucide-react";
+import {
+  ClientProfile,
+  DEFAULT_PROFILE,
+  DEFAULT_SQUAT_CONFIG,
+  PROFILE_PRESETS,
+  SQUAT_CONFIG_FIELDS,
+  SQUAT_RUBRIC,
+  SquatConfig,
+  SquatFault,
+  validateSquatConfig,
+  validateSquatRubric,
+} from "../utils/exerciseConfig";
+import { RubricRule } from "../utils/scoring";
+import { validateTempo } from "../utils/tempo";
+import { createProfileId } from "../services/profileService";
+
+interface SettingsPanelProps {
+  profiles: ClientProfile[];
+  activeProfileId: string;
+  onSave: (profiles: ClientProfile[], activeProfileId: string) => void;
+  onClose: () => void;
+}
+
+// Field groups in display order
+const GROUPS = Array.from(new Set(SQUAT_CONFIG_FIELDS.map(f => f.group)));
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ profiles, activeProfileId, onSave, onClose }) => {
+  // Edits are made on a draft copy and only applied on Save
+  const [draft, setDraft] = useState<ClientProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState(activeProfileId);
+
+  const selected = draft.find(p => p.id === selectedId) ?? DEFAULT_PROFILE;
+  const isBuiltIn = selected.id === DEFAULT_PROFILE.id;
+  const overrides = selected.thresholds.SQUAT ?? {};
+  const { config, errors: thresholdErrors } = validateSquatConfig(overrides);
+  const scoringOverrides = selected.scoring?.SQUAT ?? {};
+  const { config: rubric, errors: scoringErrors } = validateSquatRubric(scoringOverrides);
+  const tempoText = selected.tempo?.SQUAT ?? "";
+  const errors = [...thresholdErrors, ...scoringErrors, ...validateTempo(tempoText)];
+
+  // Any invalid profile blocks saving, not just the one on screen
+  const invalidProfiles = draft.filter(p =>
+    validateSquatConfig(p.thresholds.SQUAT).errors.length > 0 ||
+    validateSquatRubric(p.scoring?.SQUAT).errors.length > 0 ||
+    validateTempo(p.tempo?.SQUAT).length > 0
+  );
+
+  const updateSelected = (changes: Partial<ClientProfile>) => {
+    setDraft(prev => prev.map(p => (p.id === selected.id ? { ...p, ...changes } : p)));
+  };
+
+  const setThreshold = (key: keyof SquatConfig, raw: string) => {
+    const next: Partial<SquatConfig> = { ...overrides };
+    const value = parseFloat(raw);
+    // Values equal to the default are not stored as overrides
+    if (raw === "" || value === DEFAULT_SQUAT_CONFIG[key]) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    updateSelected({ thresholds: { ...selected.thresholds, SQUAT: next } });
+  };
+
+  const setTempo = (raw: string) => {
+    // Blank clears the prescribed tempo
+    const next = { ...selected.tempo };
+    if (raw.trim() === "") delete next.SQUAT;
+    else next.SQUAT = raw.trim().toUpperCase();
+    updateSelected({ tempo: next });
+  };
+
+  const setPenalty = (fault: SquatFault, key: "penalty" | "maxPenalty", raw: string) => {
+    const base = SQUAT_RUBRIC[fault];
+    const value = parseFloat(raw);
+    const current: Partial<RubricRule> = { ...scoringOverrides[fault] };
+
+    if (key === "penalty") {
+      if (raw === "" || value === base.penalty) delete current.penalty;
+      else current.penalty = value;
+    } else if (base.grade) {
+      if (raw === "" || value === base.grade.maxPenalty) delete current.grade;
+      else current.grade = { ...base.grade, maxPenalty: value };
+    }
+
+    const next = { ...scoringOverrides };
+    if (Object.keys(current).length === 0) delete next[fault];
+    else next[fault] = current;
+    updateSelected({ scoring: { ...selected.scoring, SQUAT: next } });
+  };
+
+  const handleCreate = (preset: ClientProfile) => {
+    const profile: ClientProfile = {
+      id: createProfileId(),
+      name: preset.id === DEFAULT_PROFILE.id ? "New Client" : `${preset.name} (copy)`,
+      notes: preset.notes,
+      thresholds: { SQUAT: { ...(preset.thresholds.SQUAT ?? {}) } },
+      scoring: { SQUAT: { ...(preset.scoring?.SQUAT ?? {}) } },
+      tempo: { ...preset.tempo },
+      velocityAutoStop: preset.velocityAutoStop,
+    };
+    setDraft(prev => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (isBuiltIn) return;
+    setDraft(prev => prev.filter(p => p.id !== selected.id));
+    setSelectedId(DEFAULT_PROFILE.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-emerald-400" />
+            Client Profiles & Thresholds
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile List */}
+          <div className="w-56 flex-shrink-0 border-r border-slate-700 p-4 flex flex-col gap-2 overflow-y-auto">
+            {draft.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => setSelectedId(profile.id)}
+                className={`text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  profile.id === selected.id ? "bg-emerald-500/20 text-emerald-400" : "text-slate-300 hover:bg-slate-800"
+                }`}
+              >
+                {profile.name}
+                {invalidProfiles.includes(profile) && <span className="ml-1 text-red-400">!</span>}
+              </button>
+            ))}
+
+            <p className="mt-4 text-xs text-slate-500 uppercase tracking-wider">New from preset</p>
+            {PROFILE_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => handleCreate(preset)}
+                className="text-left px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> {preset.name}
+              </button>
+            ))}
+          </div>
+
+          {/* Profile Editor */}
+          <div className="flex-1 p-6 overflow-y-auto space-y-6">
+            <div className="flex gap-3 items-end">
+              <label className="flex-1 text-xs text-slate-400">
+                Name
+                <input
+                  value={selected.name}
+                  disabled={isBuiltIn}
+                  onChange={e => updateSelected({ name: e.target.value })}
+                  className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50"
+                />
+              </label>
+              {!isBuiltIn && (
+                <>
+                  <button
+                    onClick={() => updateSelected({ thresholds: {}, scoring: {}, tempo: {}, velocityAutoStop: undefined })}
+                    className="px-3 py-2 rounded-lg text-xs border border-slate-600 text-slate-300 hover:text-white flex items-center gap-1"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Defaults
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="px-3 py-2 rounded-lg text-xs border border-red-500/40 text-red-400 hover:bg-red-500/10 flex items-center gap-1"
+                  >
+                    <Trash2 className="w-3 h-3" /> Delete
+                  </button>
+                </>
+              )}
+            </div>
+
+            <label className="block text-xs text-slate-400">
+              Clinical notes
+              <textarea
+                value={selected.notes ?? ""}
+                disabled={isBuiltIn}
+                onChange={e => updateSelected({ notes: e.target.value })}
+                rows={2}
+                className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50"
+              />
+            </label>
+
+            {isBuiltIn && (
+              <p className="text-xs text-slate-500">The Default profile is read-only. Create a profile from a preset to customize thresholds.</p>
+            )}
+
+            <div>
+              <h3 className="text-sm font-bold text-white">Squat Thresholds</h3>
+              <p className="text-xs text-slate-500 mt-1">Profiles only tune the squat. Push-up, lunge, hinge and hold engines use their built-in thresholds.</p>
+            </div>
+            {GROUPS.map(group => (
+              <div key={group}>
+                <p className="text-xs text-slate-500 uppercase tracking-wider mb-2">{group}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {SQUAT_CONFIG_FIELDS.filter(f => f.group === group).map(field => {
+                    const isOverridden = overrides[field.key] !== undefined;
+                    return (
+                      <label key={field.key} className="text-xs text-slate-400 flex items-center justify-between gap-2">
+                        <span className={isOverridden ? "text-emerald-400" : ""}>
+                          {field.label}{field.unit && ` (${field.unit})`}
+                        </span>
+                        <input
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={config[field.key]}
+                          disabled={isBuiltIn}
+                          onChange={e => setThreshold(field.key, e.target.value)}
+                          className="w-24 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-right font-mono text-white disabled:opacity-50"
+                        />
+                      </label>
+                    );
+                  })}
+                  {group === "Tempo" && (
+                    <label className="text-xs text-slate-400 flex items-center justify-between gap-2">
+                      <span className={tempoText ? "text-emerald-400" : ""}>Target tempo (e.g. 3-1-1-0)</span>
+                      <input
+                        value={tempoText}
+                        placeholder="None"
+                        disabled={isBuiltIn}
+                        onChange={e => setTempo(e.target.value)}
+                        className="w-24 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-right font-mono text-white disabled:opacity-50"
+                      />
+                    </label>
+                  )}
+                  {group === "Velocity" && (
+                    <label className="text-xs text-slate-400 flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.velocityAutoStop ?? false}
+                        disabled={isBuiltIn}
+                        onChange={e => updateSelected({ velocityAutoStop: e.target.checked || undefined })}
+                        className="accent-emerald-500"
+                      />
+                      <span className={selected.velocityAutoStop ? "text-emerald-400" : ""}>End squat sets automatically</span>
+                    </label>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <h3 className="text-sm font-bold text-white">Squat Scoring</h3>
+              <p className="text-xs text-slate-500 mt-1">Points deducted from 100 per fault. Graded faults scale up to the max with severity.</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(SQUAT_RUBRIC) as SquatFault[]).map(fault => {
+                const rule = rubric[fault];
+                const isOverridden = scoringOverrides[fault] !== undefined;
+                return (
+                  <div key={fault} className="text-xs text-slate-400 flex items-center justify-between gap-2">
+                    <span className={isOverridden ? "text-emerald-400" : ""}>{rule.label}</span>
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={rule.penalty}
+                        disabled={isBuiltIn}
+                        onChange={e => setPenalty(fault, "penalty", e.target.value)}
+                        className="w-14 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-right font-mono text-white disabled:opacity-50"
+                      />
+                      {rule.grade && (
+                        <>
+                          <span>to</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={1}
+                            value={rule.grade.maxPenalty}
+                            disabled={isBuiltIn}
+                            onChange={e => setPenalty(fault, "maxPenalty", e.target.value)}
+                            className="w-14 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-right font-mono text-white disabled:opacity-50"
+                          />
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="p-3 rounded-lg bg-red-900/20 border border-red-500/50 text-xs text-red-300 space-y-1">
+                {errors.map(error => <p key={error}>{error}</p>)}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-700">
+          <p className="text-xs text-slate-500">Changes apply from the next set.</p>
+          <button
+            onClick={() => onSave(draft, selected.id)}
+            disabled={invalidProfiles.length > 0}
+            className="px-4 py-2 rounded-xl font-bold text-sm bg-emerald-500 hover:bg-emerald-600 text-white disabled:opacity-40 flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save & Use "{selected.name}"
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,6 +1,9 @@
 
 import { Landmark, VisualContext } from '../types';
 import { POSE_LANDMARKS } from '../utils/geometry';
+import { ViewTransform, SELFIE_VIEW, toCanvasPoint } from './ViewTransform';
+
+const midpoint = (a: Landmark, b: Landmark): Landmark => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
 
 // Access MediaPipe global connections
 const getConnections = () => {
@@ -10,11 +13,15 @@ const getConnections = () => {
 /**
  * Draws the skeleton with line thickness based on Z-depth.
  * Closer limbs appear thicker.
- * NOTE: Applies Manual Mirroring (1-x) to align with flipped video.
+ * NOTE: Landmarks are projected through the shared view transform (mirroring) to match the frame.
+ * Joints flagged in `estimated` were guessed by the stabilizer: they are drawn
+ * hollow with dashed bones, even when MediaPipe reports them as not visible.
  */
 export const drawBiomechanicalSkeleton = (
   ctx: CanvasRenderingContext2D, 
-  landmarks: Landmark[]
+  landmarks: Landmark[],
+  view: ViewTransform = SELFIE_VIEW,
+  estimated: boolean[] = []
 ) => {
   const width = ctx.canvas.width;
   const height = ctx.canvas.height;
@@ -28,7 +35,9 @@ export const drawBiomechanicalSkeleton = (
     const start = landmarks[startIdx];
     const end = landmarks[endIdx];
     
-    if (!start || !end || (start.visibility || 0) < 0.5 || (end.visibility || 0) < 0.5) return;
+    if (!start || !end) return;
+    const isGuessed = estimated[startIdx] || estimated[endIdx];
+    if (!isGuessed && ((start.visibility || 0) < 0.5 || (end.visibility || 0) < 0.5)) return;
 
     // Calculate Average Depth (Z) for the bone
     const avgZ = (start.z + end.z) / 2;
@@ -36,12 +45,16 @@ export const drawBiomechanicalSkeleton = (
     const lineWidth = 3 * depthScale;
 
     ctx.beginPath();
-    // Manual Mirroring: (1 - x)
-    ctx.moveTo((1 - start.x) * width, start.y * height);
-    ctx.lineTo((1 - end.x) * width, end.y * height);
+    const from = toCanvasPoint(start, width, height, view);
+    const to = toCanvasPoint(end, width, height, view);
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
     ctx.lineWidth = lineWidth;
+    ctx.setLineDash(isGuessed ? [6, 6] : []);
     
-    if (startIdx >= 11 && startIdx <= 24 && endIdx >= 11 && endIdx <= 24) {
+    if (isGuessed) {
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.6)'; // Estimated (Amber)
+    } else if (startIdx >= 11 && startIdx <= 24 && endIdx >= 11 && endIdx <= 24) {
         ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)'; // Torso/Core
     } else if (startIdx >= 23) {
         ctx.strokeStyle = 'rgba(16, 185, 129, 0.8)'; // Legs (Emerald)
@@ -51,19 +64,26 @@ export const drawBiomechanicalSkeleton = (
     
     ctx.stroke();
   });
+  ctx.setLineDash([]);
 
   // 2. Draw Landmarks (Joints)
-  landmarks.forEach((lm) => {
-    if ((lm.visibility || 0) < 0.5) return;
+  landmarks.forEach((lm, i) => {
+    const isGuessed = estimated[i];
+    if (!isGuessed && (lm.visibility || 0) < 0.5) return;
     
-    // Manual Mirroring
-    const x = (1 - lm.x) * width;
-    const y = lm.y * height;
+    const { x, y } = toCanvasPoint(lm, width, height, view);
     
     const radius = Math.max(2, 5 * (1 - lm.z * 3));
     
     ctx.beginPath();
     ctx.arc(x, y, radius, 0, 2 * Math.PI);
+    if (isGuessed) {
+        // Hollow: position is a guess
+        ctx.strokeStyle = '#fbbf24';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        return;
+    }
     ctx.fillStyle = '#ef4444'; // Red Joints
     ctx.fill();
     ctx.strokeStyle = '#fff';
@@ -78,7 +98,8 @@ export const drawBiomechanicalSkeleton = (
 export const drawDepthFloor = (
     ctx: CanvasRenderingContext2D,
     landmarks: Landmark[],
-    mechanics: VisualContext
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
 ) => {
     if (!mechanics.baselineKneeY || mechanics.baselineKneeY === 0) return;
 
@@ -107,10 +128,7 @@ export const drawDepthFloor = (
     const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
     
     if (leftHip && rightHip) {
-        // Manual Mirroring for Center Point
-        const avgX = (leftHip.x + rightHip.x) / 2;
-        const hipX = (1 - avgX) * width;
-        const hipY = ((leftHip.y + rightHip.y) / 2) * height;
+        const { x: hipX, y: hipY } = toCanvasPoint(midpoint(leftHip, rightHip), width, height, view);
 
         const isBelowFloor = hipY > floorY;
         
@@ -133,7 +151,8 @@ export const drawDepthFloor = (
 export const drawTorsoLeanCone = (
     ctx: CanvasRenderingContext2D,
     landmarks: Landmark[],
-    mechanics?: VisualContext
+    mechanics?: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
 ) => {
     const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
     const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
@@ -145,14 +164,8 @@ export const drawTorsoLeanCone = (
     const width = ctx.canvas.width;
     const height = ctx.canvas.height;
 
-    // Manual Mirroring for coordinates
-    const hipXRaw = (leftHip.x + rightHip.x) / 2;
-    const hipX = (1 - hipXRaw) * width;
-    const hipY = ((leftHip.y + rightHip.y) / 2) * height;
-    
-    const shoulderXRaw = (leftShoulder.x + rightShoulder.x) / 2;
-    const shoulderX = (1 - shoulderXRaw) * width;
-    const shoulderY = ((leftShoulder.y + rightShoulder.y) / 2) * height;
+    const { x: hipX, y: hipY } = toCanvasPoint(midpoint(leftHip, rightHip), width, height, view);
+    const { x: shoulderX, y: shoulderY } = toCanvasPoint(midpoint(leftShoulder, rightShoulder), width, height, view);
 
     // Draw Safe Cone 
     ctx.save();
@@ -197,7 +210,8 @@ export const drawTorsoLeanCone = (
 export const drawValgusArrows = (
     ctx: CanvasRenderingContext2D,
     landmarks: Landmark[],
-    mechanics: VisualContext
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
 ) => {
     if (!mechanics.valgus) return;
 
@@ -209,10 +223,9 @@ export const drawValgusArrows = (
     [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.RIGHT_KNEE].forEach((idx, i) => {
         const knee = landmarks[idx];
         if (!knee) return;
+        if (mechanics.valgusSide && mechanics.valgusSide !== (i === 0 ? 'LEFT' : 'RIGHT')) return;
         
-        // Manual Mirroring
-        const kx = (1 - knee.x) * width;
-        const ky = knee.y * height;
+        const { x: kx, y: ky } = toCanvasPoint(knee, width, height, view);
         
         // Direction logic:
         // i=0 is LEFT_KNEE. In mirror view, this appears on the Left side of screen.
@@ -221,8 +234,9 @@ export const drawValgusArrows = (
         // We want to push it "Out" (Right, +X).
         // Original logic: i=0 -> -1. i=1 -> 1. 
         // This holds true for the mirrored screen positions too.
+        // Unmirrored views (video files, mirroring off) swap the screen sides, so "Out" flips.
         
-        const direction = i === 0 ? -1 : 1;
+        const direction = (i === 0 ? -1 : 1) * (view.mirrored ? 1 : -1);
         
         ctx.save();
         ctx.fillStyle = '#EF4444';
@@ -244,10 +258,266 @@ export const drawValgusArrows = (
 
         // Text Label (Readable because canvas not flipped)
         ctx.font = "bold 12px sans-serif";
-        ctx.textAlign = i === 0 ? "right" : "left";
+        ctx.textAlign = direction < 0 ? "right" : "left";
         ctx.fillStyle = "#EF4444";
         ctx.fillText("PUSH OUT", endX + (direction * 5), ky + 4);
 
         ctx.restore();
     });
 };
+
+/**
+ * Draws the ideal straight body line (shoulder -> ankle) and the actual
+ * shoulder-hip-ankle chain for plank-position exercises (push-ups).
+ */
+export const drawBodyLineGuide = (
+    ctx: CanvasRenderingContext2D,
+    landmarks: Landmark[],
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
+) => {
+    // Use the more visible side (push-ups are usually filmed side-on)
+    const sides = [
+        [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_ANKLE],
+        [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_ANKLE],
+    ];
+    const sideVisibility = sides.map(idx => idx.reduce((acc, i) => acc + (landmarks[i]?.visibility || 0), 0));
+    const [shoulder, hip, ankle] = sides[sideVisibility[0] >= sideVisibility[1] ? 0 : 1].map(i => landmarks[i]);
+
+    if (!shoulder || !hip || !ankle) return;
+
+    const width = ctx.canvas.width;
+    const height = ctx.canvas.height;
+
+    const toScreen = (lm: Landmark) => toCanvasPoint(lm, width, height, view);
+    const s = toScreen(shoulder);
+    const h = toScreen(hip);
+    const a = toScreen(ankle);
+
+    const isFault = mechanics.bodyLine === 'SAG' || mechanics.bodyLine === 'PIKE';
+
+    ctx.save();
+
+    // 1. Ideal Line (Dashed)
+    ctx.beginPath();
+    ctx.setLineDash([10, 10]);
+    ctx.moveTo(s.x, s.y);
+    ctx.lineTo(a.x, a.y);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'rgba(59, 130, 246, 0.6)';
+    ctx.stroke();
+
+    // 2. Actual Body Chain
+    ctx.beginPath();
+    ctx.setLineDash([]);
+    ctx.moveTo(s.x, s.y);
+    ctx.lineTo(h.x, h.y);
+    ctx.lineTo(a.x, a.y);
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = isFault ? '#EF4444' : '#10B981';
+    ctx.stroke();
+
+    // 3. Label at the hip (Text is drawn normally, so it's readable)
+    if (isFault) {
+        ctx.font = "bold 12px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillStyle = "#EF4444";
+        const label = mechanics.bodyLine === 'SAG' ? "HIPS UP" : "HIPS DOWN";
+        const labelOffset = mechanics.bodyLine === 'SAG' ? 20 : -12;
+        ctx.fillText(label, h.x, h.y + labelOffset);
+    }
+
+    ctx.restore();
+};
+
+/**
+ * Draws the ear-shoulder-hip chain for hinge exercises.
+ * Green when the spine stays neutral, red with a label when rounding is confirmed.
+ */
+export const drawSpineGuide = (
+    ctx: CanvasRenderingContext2D,
+    landmarks: Landmark[],
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
+) => {
+    // Use the more visible side (hinges are usually filmed side-on)
+    const sides = [
+        [POSE_LANDMARKS.LEFT_EAR, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP],
+        [POSE_LANDMARKS.RIGHT_EAR, POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP],
+    ];
+    const sideVisibility = sides.map(idx => idx.reduce((acc, i) => acc + (landmarks[i]?.visibility || 0), 0));
+    const [ear, shoulder, hip] = sides[sideVisibility[0] >= sideVisibility[1] ? 0 : 1].map(i => landmarks[i]);
+
+    if (!ear || !shoulder || !hip) return;
+
+    const width = ctx.canvas.width;
+    const height = ctx.canvas.height;
+
+    const toScreen = (lm: Landmark) => toCanvasPoint(lm, width, height, view);
+    const e = toScreen(ear);
+    const s = toScreen(shoulder);
+    const h = toScreen(hip);
+
+    const isRounded = mechanics.spine === 'ROUNDED';
+
+    ctx.save();
+
+    // 1. Neutral Reference (Hip -> Shoulder extended past the head)
+    ctx.beginPath();
+    ctx.setLineDash([10, 10]);
+    ctx.moveTo(h.x, h.y);
+    ctx.lineTo(s.x + (s.x - h.x) * 0.4, s.y + (s.y - h.y) * 0.4);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'rgba(59, 130, 246, 0.6)';
+    ctx.stroke();
+
+    // 2. Actual Spine Chain
+    ctx.beginPath();
+    ctx.setLineDash([]);
+    ctx.moveTo(h.x, h.y);
+    ctx.lineTo(s.x, s.y);
+    ctx.lineTo(e.x, e.y);
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = isRounded ? '#EF4444' : '#10B981';
+    ctx.stroke();
+
+    // 3. Label (Text is drawn normally, so it's readable)
+    if (isRounded) {
+        ctx.font = "bold 12px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillStyle = "#EF4444";
+        ctx.fillText("FLAT BACK", s.x, s.y - 12);
+    }
+
+    ctx.restore();
+};
+
+/**
+ * Side-view squat guide on the leg nearest the camera: a knee-height line the
+ * hip has to reach (green once it is below) and the shin with its forward angle.
+ */
+export const drawSagittalGuide = (
+    ctx: CanvasRenderingContext2D,
+    landmarks: Landmark[],
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
+) => {
+    const sagittal = mechanics.sagittal;
+    if (!sagittal) return;
+
+    const side = sagittal.side === 'LEFT'
+        ? [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE]
+        : [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE];
+    const [hip, knee, ankle] = side.map(i => landmarks[i]);
+
+    if (!hip || !knee || !ankle) return;
+
+    const width = ctx.canvas.width;
+    const height = ctx.canvas.height;
+
+    const toScreen = (lm: Landmark) => toCanvasPoint(lm, width, height, view);
+    const h = toScreen(hip);
+    const k = toScreen(knee);
+    const a = toScreen(ankle);
+
+    ctx.save();
+
+    // 1. Knee-height depth line, extended past the hip
+    const reach = Math.max(60, Math.abs(h.x - k.x) * 1.5);
+    const towardHip = h.x < k.x ? -1 : 1;
+    ctx.beginPath();
+    ctx.setLineDash([10, 10]);
+    ctx.moveTo(k.x - towardHip * 20, k.y);
+    ctx.lineTo(k.x + towardHip * reach, k.y);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = sagittal.hipBelowKnee ? 'rgba(16, 185, 129, 0.8)' : 'rgba(59, 130, 246, 0.6)';
+    ctx.stroke();
+
+    // 2. Hip marker against the line
+    ctx.beginPath();
+    ctx.setLineDash([]);
+    ctx.arc(h.x, h.y, 8, 0, 2 * Math.PI);
+    ctx.fillStyle = sagittal.hipBelowKnee ? '#10B981' : '#F59E0B';
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#fff';
+    ctx.stroke();
+
+    // 3. Shin line with its angle (Text is drawn normally, so it's readable)
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(k.x, k.y);
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = sagittal.shinFault ? '#EF4444' : '#10B981';
+    ctx.stroke();
+
+    ctx.font = "bold 12px sans-serif";
+    ctx.textAlign = "left";
+    ctx.fillStyle = sagittal.shinFault ? '#EF4444' : '#FFFFFF';
+    ctx.fillText(`SHIN ${Math.round(sagittal.shinAngle)}°`, (k.x + a.x) / 2 + 10, (k.y + a.y) / 2);
+
+    ctx.restore();
+};
+
+/**
+ * Draws each foot (heel -> toe) once the squat engine has a standing foot baseline.
+ * A lifted heel is marked red with a label; turning feet or a changed stance turn the feet amber.
+ */
+export const drawFootGuide = (
+    ctx: CanvasRenderingContext2D,
+    landmarks: Landmark[],
+    mechanics: VisualContext,
+    view: ViewTransform = SELFIE_VIEW
+) => {
+    const feet = mechanics.feet;
+    if (!feet) return;
+
+    const width = ctx.canvas.width;
+    const height = ctx.canvas.height;
+    const toScreen = (lm: Landmark) => toCanvasPoint(lm, width, height, view);
+
+    ctx.save();
+    [
+        [POSE_LANDMARKS.LEFT_HEEL, POSE_LANDMARKS.LEFT_FOOT_INDEX],
+        [POSE_LANDMARKS.RIGHT_HEEL, POSE_LANDMARKS.RIGHT_FOOT_INDEX],
+    ].forEach(([heelIdx, toeIdx]) => {
+        const heel = landmarks[heelIdx];
+        const toe = landmarks[toeIdx];
+        if (!heel || !toe || (heel.visibility || 0) < 0.5 || (toe.visibility || 0) < 0.5) return;
+
+        const h = toScreen(heel);
+        const t = toScreen(toe);
+
+        // 1. Foot line
+        ctx.beginPath();
+        ctx.moveTo(h.x, h.y);
+        ctx.lineTo(t.x, t.y);
+        ctx.lineWidth = 4;
+        ctx.strokeStyle = feet.rotation || feet.stanceShift ? '#F59E0B' : 'rgba(16, 185, 129, 0.8)';
+        ctx.stroke();
+
+        // 2. Heel marker
+        if (feet.heelLift) {
+            ctx.beginPath();
+            ctx.arc(h.x, h.y, 6, 0, 2 * Math.PI);
+            ctx.fillStyle = '#EF4444';
+            ctx.fill();
+            ctx.lineWidth = 2;
+            ctx.strokeStyle = '#fff';
+            ctx.stroke();
+        }
+    });
+
+    // 3. Label under the feet (Text is drawn normally, so it's readable)
+    const label = feet.heelLift ? "HEELS DOWN" : feet.rotation ? "FEET STILL" : feet.stanceShift ? "FEET PLANTED" : null;
+    const leftHeel = landmarks[POSE_LANDMARKS.LEFT_HEEL];
+    const rightHeel = landmarks[POSE_LANDMARKS.RIGHT_HEEL];
+    if (label && leftHeel && rightHeel) {
+        const { x, y } = toScreen(midpoint(leftHeel, rightHeel));
+        ctx.font = "bold 12px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillStyle = feet.heelLift ? '#EF4444' : '#F59E0B';
+        ctx.fillText(label, x, y + 22);
+    }
+    ctx.restore();
+};
@@ -0,0 +1,64 @@
+import { CameraRotation, Landmark } from '../types';
+
+/**
+ * How the analysed frame maps onto the screen. Shared by the overlay drawing,
+ * the frame drawing and screenshots so they can never disagree.
+ *
+ * Rotation is applied to the camera image BEFORE MediaPipe (the model needs an
+ * upright person), so landmarks already live in the rotated frame and only the
+ * mirroring is applied when projecting them onto the canvas.
+ */
+export interface ViewTransform {
+  mirrored: boolean;
+  rotation: CameraRotation;
+}
+
+// Front camera shown as a mirror (the app's historical default)
+export const SELFIE_VIEW: ViewTransform = { mirrored: true, rotation: 0 };
+
+/**
+ * Size of the source frame after rotation.
+ */
+export const getRotatedSize = (width: number, height: number, rotation: CameraRotation) =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+/**
+ * Projects a normalized landmark onto canvas pixels.
+ */
+export const toCanvasPoint = (landmark: Landmark, width: number, height: number, view: ViewTransform) => ({
+  x: (view.mirrored ? 1 - landmark.x : landmark.x) * width,
+  y: landmark.y * height,
+});
+
+/**
+ * Draws a source frame (width x height) rotated into `ctx`, whose canvas must
+ * already have the rotated size. Used to build the MediaPipe input.
+ */
+export const drawRotatedFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  rotation: CameraRotation
+) => {
+  const target = getRotatedSize(width, height, rotation);
+  ctx.save();
+  ctx.translate(target.width / 2, target.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+/**
+ * Draws an analysed (already rotated) frame to fill `ctx`, mirrored if the view is.
+ */
+export const drawViewFrame = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, view: ViewTransform) => {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  if (view.mirrored) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(image, 0, 0, width, height);
+  ctx.restore();
+};
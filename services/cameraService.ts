@@ -0,0 +1,92 @@
+import { CameraSettings, CameraRotation, CameraViewSetting } from "../types";
+
+const CAMERA_SETTINGS_KEY = "physioai.camera.v1";
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+  mirrored: true,
+  rotation: 0,
+  cameraView: 'AUTO',
+};
+
+export const RESOLUTION_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: "640 × 480", width: 640, height: 480 },
+  { label: "1280 × 720 (HD)", width: 1280, height: 720 },
+  { label: "1920 × 1080 (Full HD)", width: 1920, height: 1080 },
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+export const ROTATION_OPTIONS: CameraRotation[] = [0, 90, 180, 270];
+
+export const CAMERA_VIEW_OPTIONS: { value: CameraViewSetting; label: string }[] = [
+  { value: 'AUTO', label: "Detect automatically" },
+  { value: 'FRONT', label: "In front of the client" },
+  { value: 'SIDE', label: "Side-on to the client" },
+];
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+const isValidSettings = (value: unknown): value is CameraSettings => {
+  if (typeof value !== "object" || value === null) return false;
+  const settings = value as Record<string, unknown>;
+  return (settings.deviceId === null || typeof settings.deviceId === "string") &&
+    RESOLUTION_PRESETS.some(p => p.width === settings.width && p.height === settings.height) &&
+    FRAME_RATE_OPTIONS.some(rate => rate === settings.frameRate) &&
+    typeof settings.mirrored === "boolean" &&
+    ROTATION_OPTIONS.some(rotation => rotation === settings.rotation) &&
+    CAMERA_VIEW_OPTIONS.some(option => option.value === settings.cameraView);
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const raw = localStorage.getItem(CAMERA_SETTINGS_KEY);
+    // Defaults first, so settings saved before a field existed still load
+    const stored: unknown = raw ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) } : null;
+    return isValidSettings(stored) ? stored : DEFAULT_CAMERA_SETTINGS;
+  } catch (error) {
+    console.error("Failed to load camera settings:", error);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings): void => {
+  try {
+    localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save camera settings:", error);
+  }
+};
+
+/**
+ * Lists video inputs. Labels are only filled in once camera permission has been
+ * granted, so unnamed devices get a numbered fallback.
+ */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === "videoinput")
+      .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+  } catch (error) {
+    console.error("Failed to list cameras:", error);
+    return [];
+  }
+};
+
+/**
+ * getUserMedia constraints for the settings. A missing device falls back to
+ * the front camera; sizes and frame rate are "ideal" so unsupported values degrade.
+ */
+export const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+  ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+  width: { ideal: settings.width },
+  height: { ideal: settings.height },
+  frameRate: { ideal: settings.frameRate },
+});
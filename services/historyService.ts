@@ -0,0 +1,92 @@
+import { SessionRecord } from "../types";
+
+const DB_NAME = "physioai";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wraps a single IndexedDB request in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" });
+          store.createIndex("startedAt", "startedAt");
+          store.createIndex("exercise", "exercise");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a retry on the next call (e.g. after the user unblocks storage)
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE);
+};
+
+/**
+ * Inserts or replaces a session (sessions are updated when a late Gemini result arrives).
+ */
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  try {
+    const store = await getStore("readwrite");
+    await promisify(store.put(session));
+  } catch (error) {
+    console.error("Failed to save session:", error);
+  }
+};
+
+/**
+ * Returns all stored sessions, newest first.
+ */
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  try {
+    const store = await getStore("readonly");
+    const sessions = await promisify(store.index("startedAt").getAll() as IDBRequest<SessionRecord[]>);
+    return sessions.reverse();
+  } catch (error) {
+    console.error("Failed to load sessions:", error);
+    return [];
+  }
+};
+
+/**
+ * Returns the client's first stored range-of-motion assessment, the baseline
+ * that re-assessments are compared against. Only finished assessments store
+ * `rom`, so an aborted attempt is never picked. `excludeId` skips the
+ * assessment being reported on.
+ */
+export const loadBaselineAssessment = async (profileName: string, excludeId?: string): Promise<SessionRecord | null> => {
+  const assessments = (await listSessions()).filter(s =>
+    s.mode === "ASSESSMENT" && s.profileName === profileName && s.id !== excludeId && (s.rom?.length ?? 0) > 0
+  );
+  return assessments[assessments.length - 1] ?? null;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  try {
+    const store = await getStore("readwrite");
+    await promisify(store.delete(id));
+  } catch (error) {
+    console.error("Failed to delete session:", error);
+  }
+};
+
+export const createSessionId = (): string => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
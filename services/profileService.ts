@@ -0,0 +1,89 @@
+import { ClientProfile, DEFAULT_PROFILE, SquatConfig, SquatFault, validateSquatConfig, validateSquatRubric } from "../utils/exerciseConfig";
+import { RubricOverrides } from "../utils/scoring";
+import { validateTempo } from "../utils/tempo";
+
+const PROFILES_KEY = "physioai.profiles.v1";
+const ACTIVE_PROFILE_KEY = "physioai.activeProfileId";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Converts settings saved by older versions. The angle smoothing window used
+ * to be a frame count (at ~30fps) and is now in milliseconds.
+ */
+const migrateProfile = (value: unknown): unknown => {
+  if (!isRecord(value) || !isRecord(value.thresholds)) return value;
+  const squat = value.thresholds.SQUAT;
+  if (!isRecord(squat) || typeof squat.SMOOTHING_FRAMES !== "number") return value;
+  const { SMOOTHING_FRAMES, ...rest } = squat;
+  const smoothingMs = Math.min(1000, Math.round(SMOOTHING_FRAMES * 1000 / 30 / 10) * 10);
+  return { ...value, thresholds: { ...value.thresholds, SQUAT: { ...rest, SMOOTHING_MS: smoothingMs } } };
+};
+
+/**
+ * Drops profiles that are malformed or carry invalid thresholds, scoring or tempo
+ * (e.g. edited by hand or written by an older version).
+ */
+const isValidProfile = (value: unknown): value is ClientProfile => {
+  if (!isRecord(value) || typeof value.id !== "string" || typeof value.name !== "string" || !isRecord(value.thresholds)) {
+    return false;
+  }
+  const thresholds = value.thresholds.SQUAT;
+  const scoring = isRecord(value.scoring) ? value.scoring.SQUAT : undefined;
+  const tempo = isRecord(value.tempo) ? value.tempo.SQUAT : undefined;
+  if ((thresholds !== undefined && !isRecord(thresholds)) || (scoring !== undefined && !isRecord(scoring))
+    || (tempo !== undefined && typeof tempo !== "string")) {
+    return false;
+  }
+  // The validators check every value, so the overrides only need to be objects here
+  return validateSquatConfig(thresholds as Partial<SquatConfig> | undefined).errors.length === 0
+    && validateSquatRubric(scoring as RubricOverrides<SquatFault> | undefined).errors.length === 0
+    && (value.velocityAutoStop === undefined || typeof value.velocityAutoStop === "boolean")
+    && validateTempo(tempo as string | undefined).length === 0;
+};
+
+/**
+ * Loads all saved client profiles. The built-in Default profile is always first.
+ */
+export const loadProfiles = (): ClientProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    const profiles = Array.isArray(stored) ? stored.map(migrateProfile).filter(isValidProfile) : [];
+    return [DEFAULT_PROFILE, ...profiles.filter(p => p.id !== DEFAULT_PROFILE.id)];
+  } catch (error) {
+    console.error("Failed to load profiles:", error);
+    return [DEFAULT_PROFILE];
+  }
+};
+
+/**
+ * Persists client profiles. The Default profile is never stored (it is built in).
+ */
+export const saveProfiles = (profiles: ClientProfile[]): void => {
+  try {
+    const custom = profiles.filter(p => p.id !== DEFAULT_PROFILE.id);
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(custom));
+  } catch (error) {
+    console.error("Failed to save profiles:", error);
+  }
+};
+
+export const loadActiveProfileId = (): string => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE.id;
+  } catch {
+    return DEFAULT_PROFILE.id;
+  }
+};
+
+export const saveActiveProfileId = (id: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } catch (error) {
+    console.error("Failed to save active profile:", error);
+  }
+};
+
+export const createProfileId = (): string => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { Landmark } from '../types';
+import { ClassificationResult, ExerciseClassifier } from '../utils/exerciseClassifier';
+import { SYNTHETIC_START_TIME, generatePushUpSet, generateSquatSet } from './syntheticPose';
+
+const classify = (frames: { t: number; landmarks: Landmark[] | null }[]) => {
+  const classifier = new ExerciseClassifier();
+  return frames.map(({ t, landmarks }) => ({ t, result: classifier.update(landmarks!, SYNTHETIC_START_TIME + t) }));
+};
+
+const squatSet = (fps: number) => generateSquatSet({ reps: 3, leadInMs: 0, fps, view: 'SIDE' }).frames;
+
+// Side-on with the far side hidden behind the body
+const pushUpSet = (reps: number) => generatePushUpSet({ reps, leadInMs: 0, depth: 90 }).frames;
+
+const last = (results: { result: ClassificationResult }[]) => results[results.length - 1].result;
+
+describe('ExerciseClassifier', () => {
+  it('recognizes a squat set and settles on it', () => {
+    const result = last(classify(squatSet(30)));
+    expect(result.exercise).toBe('SQUAT');
+    expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+    expect(result.settled).toBe(true);
+  });
+
+  it('only settles after the guess has held for a while', () => {
+    const results = classify(squatSet(30));
+    const firstConfident = results.find(({ result }) => result.exercise === 'SQUAT' && result.confidence >= 0.6)!;
+    const firstSettled = results.find(({ result }) => result.settled)!;
+    expect(firstConfident.result.settled).toBe(false);
+    expect(firstSettled.t - firstConfident.t).toBeGreaterThanOrEqual(1500);
+  });
+
+  it('judges the window by time rather than frame count', () => {
+    const at = (fps: number, t: number) => classify(squatSet(fps)).filter(r => r.t <= t).pop()!.result;
+    // Half a second in, the window is too short at any frame rate
+    expect(at(60, 500).exercise).toBe('IDLE');
+    expect(at(15, 500).exercise).toBe('IDLE');
+    // A full window gives the same answer at 15 and 60 fps
+    expect(at(15, 4000).confidence).toBeCloseTo(at(60, 4000).confidence, 1);
+  });
+
+  it('recognizes a side-on push-up with the far side hidden', () => {
+    const result = last(classify(pushUpSet(3)));
+    expect(result.exercise).toBe('PUSH_UP');
+    expect(result.settled).toBe(true);
+  });
+
+  it('stays idle while the client stands still', () => {
+    const standing = squatSet(30).slice(0, 1).flatMap(frame =>
+      Array.from({ length: 150 }, (_, i) => ({ ...frame, t: i * (1000 / 30) }))
+    );
+    const result = last(classify(standing));
+    expect(result.exercise).toBe('IDLE');
+    expect(result.settled).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { PROFILE_PRESETS, SQUAT_RUBRIC, resolveSquatConfig, resolveSquatRubric, validateSquatConfig } from '../utils/exerciseConfig';
+import { scoreRep } from '../utils/scoring';
+
+const preset = (id: string) => PROFILE_PRESETS.find(p => p.id === id)!;
+
+describe('validateSquatConfig', () => {
+  it('accepts every preset', () => {
+    PROFILE_PRESETS.forEach(profile => {
+      expect(validateSquatConfig(profile.thresholds.SQUAT).errors).toEqual([]);
+    });
+  });
+
+  it('requires each release threshold below its trigger', () => {
+    const { errors } = validateSquatConfig({ HEEL_LIFT_THRESHOLD: 0.04, HEEL_LIFT_THRESHOLD_OFF: 0.04 });
+    expect(errors).toEqual(['Heel lift trigger must be greater than Heel lift release']);
+    expect(validateSquatConfig({ LEAN_THRESHOLD_WARN: 12, LEAN_THRESHOLD_OFF: 9 }).errors).toEqual([]);
+  });
+});
+
+describe('resolveSquatRubric', () => {
+  it('keeps the default grading for the default profile', () => {
+    const rubric = resolveSquatRubric(preset('default'));
+    expect(rubric.LEAN.grade).toEqual(SQUAT_RUBRIC.LEAN.grade);
+    expect(rubric.ASYMMETRY.grade).toEqual(SQUAT_RUBRIC.ASYMMETRY.grade);
+  });
+
+  it('grades lean and asymmetry between the profile\'s own thresholds', () => {
+    const profile = preset('preset-elderly');
+    const config = resolveSquatConfig(profile);
+    const rubric = resolveSquatRubric(profile, config);
+
+    expect(rubric.LEAN.grade).toMatchObject({ from: config.LEAN_THRESHOLD_WARN, to: config.LEAN_THRESHOLD_CRIT });
+    expect(rubric.ASYMMETRY.grade).toMatchObject({ from: config.ASYMMETRY_THRESHOLD_WARN, to: config.ASYMMETRY_THRESHOLD_CRIT });
+
+    // A rep right at the client's warn level only takes the base penalty...
+    const atWarn = scoreRep(rubric, [{ fault: 'LEAN', severity: config.LEAN_THRESHOLD_WARN }]);
+    expect(atWarn.breakdown[0].penalty).toBe(rubric.LEAN.penalty);
+    // ...and the maximum is reached at their critical level
+    const atCrit = scoreRep(rubric, [{ fault: 'ASYMMETRY', severity: config.ASYMMETRY_THRESHOLD_CRIT }]);
+    expect(atCrit.breakdown[0].penalty).toBe(rubric.ASYMMETRY.grade!.maxPenalty);
+  });
+
+  it('keeps a profile\'s penalty overrides', () => {
+    const profile = { ...preset('preset-elderly'), scoring: { SQUAT: { LEAN: { penalty: 5 } } } };
+    const rubric = resolveSquatRubric(profile);
+    expect(rubric.LEAN.penalty).toBe(5);
+    expect(rubric.LEAN.grade!.from).toBe(resolveSquatConfig(profile).LEAN_THRESHOLD_WARN);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { FaultDetector } from '../utils/exerciseLogic';
+
+const FRAME_MS = 1000 / 30;
+
+// Feeds values one frame apart, continuing from the detector's own clock
+const createFeeder = (detector: FaultDetector, frameMs: number = FRAME_MS) => {
+  let t = 0;
+  return (values: number[]) => values.map(value => {
+    const result = detector.update(value, t);
+    t += frameMs;
+    return result;
+  });
+};
+
+describe('FaultDetector', () => {
+  it('confirms only after the signal stays above the on-threshold', () => {
+    const detector = new FaultDetector(1, 0.5, 150, 100);
+    const feed = createFeeder(detector);
+    expect(feed([2, 2, 2, 2, 2])).toEqual([false, false, false, false, false]);
+    expect(detector.state).toBe('SUSPECTED');
+    expect(feed([2])).toEqual([true]);
+    expect(detector.state).toBe('CONFIRMED');
+  });
+
+  it('confirms after the same time at any frame rate', () => {
+    [15, 30, 60].forEach(fps => {
+      const detector = new FaultDetector(1, 0.5, 150, 100);
+      const feed = createFeeder(detector, 1000 / fps);
+      const results = feed(new Array(fps).fill(2));
+      const confirmedAtMs = results.indexOf(true) * (1000 / fps);
+      expect(confirmedAtMs).toBeGreaterThanOrEqual(150);
+      expect(confirmedAtMs).toBeLessThan(150 + 1000 / fps);
+    });
+  });
+
+  it('ignores short spikes', () => {
+    const detector = new FaultDetector(1, 0.5, 150, 100);
+    const feed = createFeeder(detector);
+    feed([2, 2, 0, 0]);
+    expect(detector.state).toBe('CLEAR');
+    expect(feed([2, 2, 2, 2])).not.toContain(true);
+  });
+
+  it('tolerates a single dip while suspected', () => {
+    const detector = new FaultDetector(1, 0.5, 150, 100);
+    const feed = createFeeder(detector);
+    const results = feed([2, 2, 0, 2, 2, 2, 2]);
+    expect(results[results.length - 1]).toBe(true);
+  });
+
+  it('clears with hysteresis', () => {
+    const detector = new FaultDetector(1, 0.5, 30, 100);
+    const feed = createFeeder(detector);
+    feed([2, 2]);
+    expect(detector.state).toBe('CONFIRMED');
+
+    // Between the thresholds: stays confirmed
+    expect(feed([0.8, 0.8])).toEqual([true, true]);
+
+    // Below the off-threshold: still reported while clearing
+    expect(feed([0.1, 0.1, 0.1])).toEqual([true, true, true]);
+    expect(detector.state).toBe('CLEARING');
+    expect(feed([0.1])).toEqual([false]);
+    expect(detector.state).toBe('CLEAR');
+  });
+
+  it('returns to confirmed if the signal rises while clearing', () => {
+    const detector = new FaultDetector(1, 0.5, 30, 100);
+    const feed = createFeeder(detector);
+    feed([2, 2, 0.1]);
+    expect(detector.state).toBe('CLEARING');
+    feed([0.8]);
+    expect(detector.state).toBe('CONFIRMED');
+  });
+
+  it('resets to clear', () => {
+    const detector = new FaultDetector(1, 0.5, 30, 100);
+    const feed = createFeeder(detector);
+    feed([2, 2]);
+    detector.reset();
+    expect(detector.state).toBe('CLEAR');
+    expect(feed([2])).toEqual([false]);
+  });
+});
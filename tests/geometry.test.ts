@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  POSE_LANDMARKS, angleFromVertical, calculateAngle, calculateBodyLine, calculateFrontalWidthRatio, calculateTorsoLean, calculateTorsoLean3D,
+  getNormalizedDistance, getTorsoScale, hasWorldLandmarks, kneePastToeCm
+} from '../utils/geometry';
+import { createSquatPose, toWorldLandmarks } from './syntheticPose';
+
+const point = (x: number, y: number, z: number = 0) => ({ x, y, z, visibility: 1 });
+
+describe('calculateAngle', () => {
+  it('measures a right angle', () => {
+    expect(calculateAngle(point(0, 0), point(0, 1), point(1, 1))).toBeCloseTo(90);
+  });
+
+  it('returns 180 for collinear and degenerate points', () => {
+    expect(calculateAngle(point(0, 0), point(0, 1), point(0, 2))).toBeCloseTo(180);
+    expect(calculateAngle(point(0, 1), point(0, 1), point(0, 2))).toBe(180);
+  });
+
+  it('uses depth, so a flexion towards the camera is not read as straight', () => {
+    expect(calculateAngle(point(0, 0, 0), point(0, 1, 0), point(0, 1, -1))).toBeCloseTo(90);
+  });
+
+  it('recovers the synthetic knee angle', () => {
+    [175, 120, 90, 60].forEach(kneeAngle => {
+      const pose = createSquatPose({ kneeAngle });
+      const angle = calculateAngle(pose[POSE_LANDMARKS.LEFT_HIP], pose[POSE_LANDMARKS.LEFT_KNEE], pose[POSE_LANDMARKS.LEFT_ANKLE]);
+      expect(angle).toBeCloseTo(kneeAngle, 5);
+    });
+  });
+});
+
+describe('torso scale and normalized distance', () => {
+  it('averages both sides of the torso', () => {
+    expect(getTorsoScale(createSquatPose({ kneeAngle: 175 }))).toBeCloseTo(0.25);
+  });
+
+  it('returns 0 without torso landmarks', () => {
+    expect(getTorsoScale([])).toBe(0);
+  });
+
+  it('is independent of the distance to the camera', () => {
+    const near = createSquatPose({ kneeAngle: 175 });
+    const far = near.map(l => ({ ...l, x: 0.5 + (l.x - 0.5) / 2, y: 0.5 + (l.y - 0.5) / 2 }));
+    const width = (pose: typeof near) =>
+      getNormalizedDistance(pose, pose[POSE_LANDMARKS.LEFT_ANKLE], pose[POSE_LANDMARKS.RIGHT_ANKLE]);
+    expect(width(far)).toBeCloseTo(width(near));
+  });
+});
+
+describe('calculateTorsoLean', () => {
+  it('is 0 when upright and matches the image-plane lean', () => {
+    expect(calculateTorsoLean(createSquatPose({ kneeAngle: 175 }))).toBeCloseTo(0);
+    expect(calculateTorsoLean(createSquatPose({ kneeAngle: 175, lean: 30 }))).toBeCloseTo(30);
+    expect(calculateTorsoLean(createSquatPose({ kneeAngle: 175, lean: -30 }))).toBeCloseTo(30);
+  });
+});
+
+describe('calculateFrontalWidthRatio', () => {
+  it('separates a frontal from a side-on camera', () => {
+    expect(calculateFrontalWidthRatio(createSquatPose({ kneeAngle: 175 }))).toBeGreaterThan(0.4);
+    expect(calculateFrontalWidthRatio(createSquatPose({ kneeAngle: 175, view: 'SIDE' }))).toBeLessThan(0.1);
+  });
+});
+
+describe('calculateBodyLine', () => {
+  it('flags a sagging hip and a piked hip', () => {
+    const sag = calculateBodyLine(point(0.2, 0.5), point(0.5, 0.55), point(0.8, 0.5));
+    expect(sag.isSagging).toBe(true);
+    expect(sag.deviation).toBeGreaterThan(0);
+    expect(sag.incline).toBeCloseTo(0);
+
+    const pike = calculateBodyLine(point(0.2, 0.5), point(0.5, 0.4), point(0.8, 0.5));
+    expect(pike.isSagging).toBe(false);
+  });
+});
+
+describe('world landmark geometry', () => {
+  it('requires a full set of world landmarks', () => {
+    expect(hasWorldLandmarks(toWorldLandmarks(createSquatPose({ kneeAngle: 175 })))).toBe(true);
+    expect(hasWorldLandmarks([])).toBe(false);
+    expect(hasWorldLandmarks(null)).toBe(false);
+  });
+
+  it('measures inclination from vertical in any direction', () => {
+    expect(angleFromVertical(point(0, 0), point(0, -1))).toBeCloseTo(0);
+    expect(angleFromVertical(point(0, 0), point(1, -1))).toBeCloseTo(45);
+    expect(angleFromVertical(point(0, 0, 0), point(0, -1, -1))).toBeCloseTo(45);
+  });
+
+  it('counts torso lean towards the camera that the image-plane lean misses', () => {
+    const pose = toWorldLandmarks(createSquatPose({ kneeAngle: 175 }));
+    const leaned = pose.map((l, index) => index === POSE_LANDMARKS.LEFT_SHOULDER || index === POSE_LANDMARKS.RIGHT_SHOULDER
+      ? { ...l, z: l.z + l.y } // Shoulders sit above the hips (y < 0): tilt them forward by 45 degrees
+      : l);
+    expect(calculateTorsoLean3D(pose)).toBeCloseTo(0);
+    expect(calculateTorsoLean3D(leaned)).toBeCloseTo(45);
+    expect(calculateTorsoLean(leaned)).toBeCloseTo(0);
+  });
+
+  it('measures knee travel past the toe in centimeters along the foot', () => {
+    const heel = point(0, 0, 0);
+    const toe = point(0, 0, -0.25);
+    expect(kneePastToeCm(point(0, -0.4, -0.3), heel, toe)).toBeCloseTo(5);
+    expect(kneePastToeCm(point(0.1, -0.4, -0.2), heel, toe)).toBeCloseTo(-5);
+  });
+});
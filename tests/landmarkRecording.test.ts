@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { RECORDING_FORMAT, RECORDING_VERSION, parseRecording } from '../utils/landmarkRecording';
+
+const header = (extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: 1000, ...extra });
+
+const POINT = [0.5, 0.5, 0, 1];
+
+describe('parseRecording', () => {
+  it('reads frames with and without a pose', () => {
+    const recording = parseRecording([header({ exercise: 'SQUAT' }), JSON.stringify([0, POINT]), JSON.stringify([33, null])].join('\n'));
+    expect(recording.header.exercise).toBe('SQUAT');
+    expect(recording.frames).toHaveLength(2);
+    expect(recording.frames[0].landmarks).toEqual([{ x: 0.5, y: 0.5, z: 0, visibility: 1 }]);
+    expect(recording.frames[1].landmarks).toBeNull();
+  });
+
+  it('rejects an exercise this build has no engine for', () => {
+    expect(() => parseRecording([header({ exercise: 'BURPEE' }), JSON.stringify([0, POINT])].join('\n')))
+      .toThrow('unknown exercise');
+  });
+
+  it('rejects frames with the wrong shape', () => {
+    const corrupt = [
+      [0],                      // No landmark values
+      ['0', POINT],             // Timestamp is not a number
+      [0, [0.5, 0.5, 0]],       // Incomplete landmark
+      [0, POINT, 'world'],      // World values are not a list
+      { t: 0, values: POINT },  // Not a tuple
+    ];
+    corrupt.forEach(frame => {
+      expect(() => parseRecording([header(), JSON.stringify(frame)].join('\n'))).toThrow('frame 1 is corrupt');
+    });
+  });
+});
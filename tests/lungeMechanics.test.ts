@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { LungeMechanics } from '../utils/lungeLogic';
+import { replayThroughEngine } from '../utils/landmarkRecording';
+import { generateLungeSet, LungeSetOptions } from './syntheticPose';
+
+const runSet = (options: LungeSetOptions, engine = new LungeMechanics()) => {
+  const states = replayThroughEngine(generateLungeSet(options), engine);
+  return { states, final: states[states.length - 1] };
+};
+
+describe('LungeMechanics rep counting', () => {
+  it('counts clean reps and scores them 100', () => {
+    const { states, final } = runSet({ reps: 3 });
+    expect(final.repCount).toBe(3);
+    expect(states.filter(s => s.didFinishRep)).toHaveLength(3);
+    expect(final.phase).toBe('NEUTRAL');
+    final.repLog.forEach((rep, i) => {
+      expect(rep.repNumber).toBe(i + 1);
+      expect(rep.side).toBe('LEFT');
+      expect(rep.score).toBe(100);
+      expect(rep.faults).toEqual([]);
+      expect(rep.minAngle).toBeCloseTo(90, 0);
+    });
+  });
+
+  it('credits each rep to the forward leg', () => {
+    const { final } = runSet({ reps: 4, forwardLegs: ['LEFT', 'RIGHT'] });
+    expect(final.repLog.map(rep => rep.side)).toEqual(['LEFT', 'RIGHT', 'LEFT', 'RIGHT']);
+    expect(final.sideStats!.LEFT.reps).toBe(2);
+    expect(final.sideStats!.RIGHT.reps).toBe(2);
+  });
+
+  it('keeps per-side scores apart', () => {
+    const { final } = runSet({ reps: 4, forwardLegs: ['LEFT', 'RIGHT'], valgus: 0.04, faultReps: [2, 4] });
+    expect(final.sideStats!.LEFT.averageScore).toBe(100);
+    expect(final.sideStats!.RIGHT.averageScore).toBe(80);
+  });
+
+  it('counts side-on with the far leg partly hidden', () => {
+    const { states, final } = runSet({ reps: 3, view: 'SIDE' });
+    expect(final.repCount).toBe(3);
+    expect(states.every(s => s.trackingMode === 'OPTIMAL')).toBe(true);
+    final.repLog.forEach(rep => expect(rep.faults).toEqual([]));
+  });
+
+  it('does not count a set that never leaves the top', () => {
+    expect(runSet({ reps: 3, depth: 150 }).final.repCount).toBe(0);
+  });
+});
+
+describe('LungeMechanics faults', () => {
+  it('flags shallow reps', () => {
+    const { final } = runSet({ reps: 2, depth: 115 });
+    expect(final.repCount).toBe(2);
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['GO DEEPER']);
+      expect(rep.score).toBe(60);
+    });
+  });
+
+  it('flags the front knee caving in on either leg', () => {
+    const { states, final } = runSet({ reps: 2, forwardLegs: ['LEFT', 'RIGHT'], valgus: 0.04 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['KNEE IN']));
+    expect(states.some(s => s.visualContext.valgus && s.visualContext.valgusSide === 'LEFT')).toBe(true);
+    expect(states.some(s => s.visualContext.valgus && s.visualContext.valgusSide === 'RIGHT')).toBe(true);
+  });
+
+  it('flags the knee past the toe side-on', () => {
+    // Side-on the hips overlap, so the knee travelling forward is not read as caving in
+    const { final } = runSet({ reps: 2, view: 'SIDE', hipForward: 0.08 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['KNEE PAST TOE']));
+  });
+
+  it('skips the image knee-over-toe check from the front', () => {
+    const { final } = runSet({ reps: 2, hipForward: 0.08 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual([]));
+  });
+
+  it('measures the knee past the toe in centimeters from world landmarks', () => {
+    const { states, final } = runSet({ reps: 2, hipForward: 0.08, world: true });
+    expect(states.every(s => s.trackingSource === 'WORLD_3D')).toBe(true);
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['KNEE PAST TOE']);
+      expect(rep.maxKneePastToeCm).toBeGreaterThan(5);
+    });
+    runSet({ reps: 2, world: true }).final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual([]);
+      expect(rep.maxKneePastToeCm).toBeLessThan(0);
+    });
+  });
+
+  it('flags a forward torso lean side-on', () => {
+    const { states, final } = runSet({ reps: 2, view: 'SIDE', pitch: 35 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['TORSO LEAN']));
+    expect(states.some(s => s.visualContext.lean)).toBe(true);
+  });
+
+  it('sees a forward lean from the front with world landmarks', () => {
+    expect(runSet({ reps: 1, pitch: 35 }).final.repLog[0].faults).toEqual([]);
+    expect(runSet({ reps: 1, pitch: 35, world: true }).final.repLog[0].faults).toEqual(['TORSO LEAN']);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { PerformanceMonitor } from '../utils/performanceMonitor';
+
+// Feeds `seconds` of frames at the given rates; returns the end time
+const simulate = (monitor: PerformanceMonitor, seconds: number, cameraFps: number, analysisFps: number) => {
+  const end = seconds * 1000;
+  for (let t = 0; t <= end; t += 1000 / cameraFps) monitor.recordCameraFrame(t);
+  for (let t = 0; t <= end; t += 1000 / analysisFps) {
+    monitor.recordAnalysedFrame(t);
+    monitor.recordInference(20, t);
+    monitor.recordEngineUpdate(0.5, t);
+  }
+  return end;
+};
+
+describe('PerformanceMonitor', () => {
+  it('reports rates, averages and dropped frames over the window', () => {
+    const monitor = new PerformanceMonitor();
+    const now = simulate(monitor, 3, 30, 30);
+    const stats = monitor.snapshot(now);
+    expect(stats.cameraFps).toBeCloseTo(30, 0);
+    expect(stats.analysisFps).toBeCloseTo(30, 0);
+    expect(stats.inferenceMs).toBe(20);
+    expect(stats.engineMs).toBe(0.5);
+    expect(stats.droppedFrames).toBe(0);
+    expect(stats.level).toBe('GOOD');
+  });
+
+  it('counts camera frames that were never analysed', () => {
+    const monitor = new PerformanceMonitor();
+    const stats = monitor.snapshot(simulate(monitor, 3, 30, 15));
+    expect(stats.droppedFrames).toBeCloseTo(30, -1);
+    expect(stats.level).toBe('LOW');
+  });
+
+  it('flags frame rates too low for the engines\' timing windows', () => {
+    const monitor = new PerformanceMonitor();
+    expect(monitor.snapshot(simulate(monitor, 3, 30, 8)).level).toBe('CRITICAL');
+  });
+
+  it('does not judge less than a second of data', () => {
+    const monitor = new PerformanceMonitor();
+    expect(monitor.snapshot(simulate(monitor, 0.5, 30, 5)).level).toBe('GOOD');
+  });
+
+  it('leaves camera numbers empty when the source reports no frames', () => {
+    const monitor = new PerformanceMonitor();
+    for (let t = 0; t <= 2000; t += 33) monitor.recordAnalysedFrame(t);
+    const stats = monitor.snapshot(2000);
+    expect(stats.cameraFps).toBeNull();
+    expect(stats.droppedFrames).toBe(0);
+  });
+
+  it('forgets samples older than the window', () => {
+    const monitor = new PerformanceMonitor();
+    simulate(monitor, 3, 30, 30);
+    expect(monitor.snapshot(10000).analysisFps).toBe(0);
+  });
+});
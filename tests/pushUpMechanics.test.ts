@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { PushUpMechanics } from '../utils/pushUpLogic';
+import { replayThroughEngine } from '../utils/landmarkRecording';
+import { createPushUpPose, createSquatPose, generatePushUpSet, PushUpSetOptions, SYNTHETIC_START_TIME } from './syntheticPose';
+
+const runSet = (options: PushUpSetOptions, engine = new PushUpMechanics()) => {
+  const states = replayThroughEngine(generatePushUpSet(options), engine);
+  return { states, final: states[states.length - 1] };
+};
+
+const FRAME_MS = 1000 / 30;
+
+describe('PushUpMechanics rep counting', () => {
+  it('counts clean reps and scores them 100', () => {
+    const { states, final } = runSet({ reps: 4 });
+    expect(final.repCount).toBe(4);
+    expect(states.filter(s => s.didFinishRep)).toHaveLength(4);
+    expect(final.phase).toBe('NEUTRAL');
+    final.repLog.forEach((rep, i) => {
+      expect(rep.repNumber).toBe(i + 1);
+      expect(rep.score).toBe(100);
+      expect(rep.faults).toEqual([]);
+      expect(rep.minAngle).toBeLessThan(90);
+    });
+  });
+
+  it('counts the same reps with the far arm in view', () => {
+    const { states, final } = runSet({ reps: 3, farVisibility: 0.9 });
+    expect(final.repCount).toBe(3);
+    expect(states.every(s => s.trackingMode === 'OPTIMAL')).toBe(true);
+  });
+
+  it('does not count a set that never bends past the descent angle', () => {
+    expect(runSet({ reps: 3, depth: 145 }).final.repCount).toBe(0);
+  });
+
+  it('waits for a plank before counting', () => {
+    // Elbow bends while standing are not push-ups
+    const engine = new PushUpMechanics();
+    const state = engine.update(createSquatPose({ kneeAngle: 175 }), SYNTHETIC_START_TIME);
+    expect(state.phase).toBe('INITIALIZING');
+    expect(state.feedback).toBe('GET IN PLANK');
+  });
+});
+
+describe('PushUpMechanics faults', () => {
+  it('flags reps that stop short of depth', () => {
+    const { final } = runSet({ reps: 2, depth: 100 });
+    expect(final.repCount).toBe(2);
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['CHEST LOWER']);
+      expect(rep.score).toBe(60);
+    });
+  });
+
+  it('confirms hip sag only on the rep that has it', () => {
+    const { states, final } = runSet({ reps: 3, hipBend: 30, faultReps: [2] });
+    expect(final.repLog.map(rep => rep.faults)).toEqual([[], ['HIP SAG'], []]);
+    expect(final.repLog[1].score).toBe(75);
+    expect(states.some(s => s.visualContext.bodyLine === 'SAG')).toBe(true);
+  });
+
+  it('flags piked hips', () => {
+    const { states, final } = runSet({ reps: 2, hipBend: -30 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['HIP PIKE']));
+    expect(states.some(s => s.visualContext.bodyLine === 'PIKE')).toBe(true);
+    expect(states.some(s => s.visualContext.bodyLine === 'SAG')).toBe(false);
+  });
+
+  it('ignores a body-line bend below the threshold', () => {
+    const { final } = runSet({ reps: 2, hipBend: 8 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual([]));
+  });
+
+  it('flags a rushed descent', () => {
+    // Both arms in view: a hidden arm's estimate lags too far behind a movement this fast
+    const { final } = runSet({ reps: 2, descentMs: 200, bottomMs: 0, ascentMs: 600, farVisibility: 0.9 });
+    expect(final.repCount).toBe(2);
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['TOO FAST']));
+  });
+});
+
+describe('PushUpMechanics body line', () => {
+  // Sagging plank at the top of a rep, then standing up, then back into the sag
+  const plankBreak = (standMs: number) => {
+    const engine = new PushUpMechanics();
+    const sag = createPushUpPose({ elbowAngle: 170, hipBend: 30 });
+    const standing = createSquatPose({ kneeAngle: 175 });
+    const frames = (pose: typeof sag, fromMs: number, toMs: number) =>
+      Array.from({ length: Math.round((toMs - fromMs) / FRAME_MS) }, (_, i) => ({ pose, t: fromMs + i * FRAME_MS }));
+    return [...frames(sag, 0, 1000), ...frames(standing, 1000, 1000 + standMs), ...frames(sag, 1000 + standMs, 2000 + standMs)]
+      .map(({ pose, t }) => ({ t, state: engine.update(pose, SYNTHETIC_START_TIME + t) }));
+  };
+
+  it('drops a confirmed sag as soon as the client leaves the plank', () => {
+    const states = plankBreak(500);
+    expect(states.find(s => s.t > 500 && s.t < 1000)!.state.visualContext.bodyLine).toBe('SAG');
+    states.filter(s => s.t >= 1000 && s.t < 1500).forEach(s => expect(s.state.visualContext.bodyLine).toBe('ALIGNED'));
+  });
+
+  it('confirms a sag again from scratch after the break', () => {
+    const back = plankBreak(500).filter(s => s.t >= 1500);
+    expect(back[0].state.visualContext.bodyLine).toBe('ALIGNED');
+    expect(back[back.length - 1].state.visualContext.bodyLine).toBe('SAG');
+  });
+});
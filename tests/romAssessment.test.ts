@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { Landmark } from '../types';
+import { POSE_LANDMARKS } from '../utils/geometry';
+import { RomAssessmentMechanics, buildRomReport } from '../utils/romAssessment';
+import { ExerciseState } from '../utils/exerciseLogic';
+import { SYNTHETIC_START_TIME } from './syntheticPose';
+
+const FRAME_MS = 1000 / 30;
+const SEGMENT = 0.2; // Limb segment length, normalized units
+
+// Degrees of motion from neutral, per joint and side
+interface RomPose {
+  leftArm: number;
+  rightArm: number;
+  leftHip: number;
+  rightHip: number;
+  leftKnee: number;
+  rightKnee: number;
+}
+
+const NEUTRAL: RomPose = { leftArm: 10, rightArm: 10, leftHip: 0, rightHip: 0, leftKnee: 0, rightKnee: 0 };
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+// Point `SEGMENT` away from `from`, `degrees` from straight down and swinging forward, towards the camera
+const limb = (from: Landmark, degrees: number): Landmark => ({
+  x: from.x,
+  y: from.y + SEGMENT * Math.cos(toRadians(degrees)),
+  z: from.z - SEGMENT * Math.sin(toRadians(degrees)),
+  visibility: 1,
+});
+
+/**
+ * Skeleton facing the camera with an upright trunk. Every joint bends in the
+ * sagittal plane, so the world landmarks hold the requested motion while the
+ * image landmarks (depth flattened) only see its foreshortened projection.
+ */
+const createRomPose = (pose: RomPose, hidden: number[] = []) => {
+  const world: Landmark[] = Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.2, z: 0, visibility: 1 }));
+  const sides = [
+    { x: 0.45, arm: pose.leftArm, hip: pose.leftHip, knee: pose.leftKnee, ids: [11, 13, 23, 25, 27] },
+    { x: 0.55, arm: pose.rightArm, hip: pose.rightHip, knee: pose.rightKnee, ids: [12, 14, 24, 26, 28] },
+  ];
+  sides.forEach(({ x, arm, hip, knee, ids: [shoulderId, elbowId, hipId, kneeId, ankleId] }) => {
+    const shoulder = { x, y: 0.3, z: 0, visibility: 1 };
+    const hipPoint = { x, y: 0.55, z: 0, visibility: 1 };
+    const kneePoint = limb(hipPoint, hip);
+    world[shoulderId] = shoulder;
+    world[elbowId] = limb(shoulder, arm);
+    world[hipId] = hipPoint;
+    world[kneeId] = kneePoint;
+    world[ankleId] = limb(kneePoint, hip - knee);
+  });
+  hidden.forEach(i => { world[i] = { ...world[i], visibility: 0 }; });
+  const landmarks = world.map(l => ({ ...l, z: 0 }));
+  return { landmarks, world };
+};
+
+const lerpPose = (from: RomPose, to: RomPose, u: number): RomPose =>
+  (Object.keys(from) as (keyof RomPose)[]).reduce<RomPose>(
+    (pose, key) => ({ ...pose, [key]: from[key] + (to[key] - from[key]) * u }),
+    { ...from },
+  );
+
+/**
+ * Feeds the engine a movement made of linear [duration ms, target pose] segments
+ * and returns the last state.
+ */
+const perform = (engine: RomAssessmentMechanics, segments: [number, Partial<RomPose>][], hidden: number[] = [], withWorld = true) => {
+  const feed = (pose: RomPose, t: number) => {
+    const { landmarks, world } = createRomPose(pose, hidden);
+    return engine.update(landmarks, t, withWorld ? world : null);
+  };
+  let pose = { ...NEUTRAL };
+  let t = SYNTHETIC_START_TIME;
+  let state: ExerciseState = feed(pose, t);
+  segments.forEach(([durationMs, change]) => {
+    const target = { ...pose, ...change };
+    for (let elapsed = FRAME_MS; elapsed <= durationMs; elapsed += FRAME_MS) {
+      state = feed(lerpPose(pose, target, elapsed / durationMs), t + elapsed);
+    }
+    t += durationMs;
+    pose = target;
+  });
+  return state;
+};
+
+// Move out, hold at the peak and come back, then wait for the next movement's cue
+const movement = (peak: Partial<RomPose>): [number, Partial<RomPose>][] => [
+  [1000, peak], [500, peak], [1000, NEUTRAL], [2500, NEUTRAL],
+];
+
+describe('RomAssessmentMechanics', () => {
+  it('guides every movement and records the peak angle per side', () => {
+    const engine = new RomAssessmentMechanics();
+    const state = perform(engine, [
+      ...movement({ leftArm: 170, rightArm: 150 }),
+      ...movement({ leftHip: 110, rightHip: 110, leftKnee: 130, rightKnee: 125 }),
+      ...movement({ leftHip: 100, leftKnee: 90 }),
+      ...movement({ rightHip: 80, rightKnee: 90 }),
+    ]);
+
+    expect(state.phase).toBe('COMPLETE');
+    expect(state.assessment!.complete).toBe(true);
+    const byMotion = Object.fromEntries(state.assessment!.measurements.map(m => [m.motion, m]));
+    expect(byMotion.SHOULDER_FLEXION.left).toBeCloseTo(170, -1);
+    expect(byMotion.SHOULDER_FLEXION.right).toBeCloseTo(150, -1);
+    expect(byMotion.SQUAT_HIP_FLEXION.left).toBeCloseTo(110, -1);
+    expect(byMotion.SQUAT_KNEE_FLEXION.right).toBeCloseTo(125, -1);
+    // Each single-leg stance only measures the lifted leg
+    expect(byMotion.STANDING_HIP_FLEXION.left).toBeCloseTo(100, -1);
+    expect(byMotion.STANDING_HIP_FLEXION.right).toBeCloseTo(80, -1);
+  });
+
+  it('waits on the current movement until the client returns to the start', () => {
+    const engine = new RomAssessmentMechanics();
+    const reaching = perform(engine, [[1000, { leftArm: 170, rightArm: 170 }], [2000, {}]]);
+    expect(reaching.assessment!.step).toBe(0);
+    expect(reaching.assessment!.measurements).toEqual([]);
+  });
+
+  it('does not measure a side whose joints are hidden', () => {
+    const engine = new RomAssessmentMechanics();
+    const state = perform(engine, movement({ leftArm: 170, rightArm: 170 }), [POSE_LANDMARKS.RIGHT_ELBOW]);
+    expect(state.assessment!.step).toBe(1);
+    expect(state.assessment!.measurements[0].left).toBeCloseTo(170, -1);
+    expect(state.assessment!.measurements[0].right).toBeNull();
+  });
+
+  it('keeps measuring when a joint the movement does not use is hidden', () => {
+    // Feet out of frame during the overhead reach
+    const engine = new RomAssessmentMechanics();
+    const state = perform(engine, movement({ leftArm: 170, rightArm: 160 }), [POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.RIGHT_ANKLE]);
+    expect(state.assessment!.step).toBe(1);
+    expect(state.assessment!.measurements[0].left).toBeCloseTo(170, -1);
+    expect(state.assessment!.measurements[0].right).toBeCloseTo(160, -1);
+  });
+
+  it('measures nothing from image landmarks alone', () => {
+    const engine = new RomAssessmentMechanics();
+    const state = perform(engine, movement({ leftArm: 170, rightArm: 170 }), [], false);
+    expect(state.feedback).toBe('NEEDS 3D TRACKING');
+    expect(state.assessment!.step).toBe(0);
+    expect(state.assessment!.measurements).toEqual([]);
+  });
+});
+
+describe('buildRomReport', () => {
+  it('compares sides, normal ranges and the baseline', () => {
+    const report = buildRomReport(
+      [{ motion: 'SQUAT_KNEE_FLEXION', left: 135, right: 110 }],
+      [{ motion: 'SQUAT_KNEE_FLEXION', left: 120, right: 112 }],
+    );
+    const knee = report.find(row => row.motion === 'SQUAT_KNEE_FLEXION')!;
+    expect(knee.leftStatus).toBe('NORMAL');
+    expect(knee.rightStatus).toBe('LIMITED');
+    expect(knee.difference).toBe(25);
+    expect(knee.asymmetric).toBe(true);
+    expect(knee.leftChange).toBe(15);
+    expect(knee.rightChange).toBe(-2);
+
+    // Motions that were not measured keep their row
+    const shoulder = report.find(row => row.motion === 'SHOULDER_FLEXION')!;
+    expect(shoulder.left).toBeNull();
+    expect(shoulder.leftStatus).toBeNull();
+    expect(shoulder.asymmetric).toBe(false);
+  });
+});
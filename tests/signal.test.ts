@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { KalmanFilter, LandmarkStabilizer, MovingAverage, OneEuroFilter, SignalFilter, areLandmarksVisible, createFilter } from '../utils/signal';
+import { POSE_LANDMARKS } from '../utils/geometry';
+import { createSquatPose, LEG_LANDMARKS } from './syntheticPose';
+
+const FRAME_MS = 1000 / 30;
+
+const standing = () => createSquatPose({ kneeAngle: 175 });
+const leftKneeY = (landmarks: { y: number }[]) => landmarks[POSE_LANDMARKS.LEFT_KNEE].y;
+
+describe('MovingAverage', () => {
+  it('averages the values inside the time window', () => {
+    const average = new MovingAverage(100);
+    expect([1, 2, 3, 4].map((v, i) => average.update(v, i * 40))).toEqual([1, 1.5, 2, 3]);
+    average.reset();
+    expect(average.average()).toBe(0);
+  });
+
+  it('covers the same time span at any frame rate', () => {
+    [15, 30, 60].forEach(fps => {
+      const average = new MovingAverage(150);
+      // A step from 0 to 10 half a second in: the old value must leave the window ~150ms later
+      let settledAt = -1;
+      for (let i = 0; i <= fps; i++) {
+        const t = i * 1000 / fps;
+        if (average.update(t < 500 ? 0 : 10, t) === 10 && settledAt < 0) settledAt = t;
+      }
+      expect(settledAt - 500).toBeGreaterThanOrEqual(100);
+      expect(settledAt - 500).toBeLessThanOrEqual(150 + 1000 / fps);
+    });
+  });
+
+  it('starts over when time goes backwards', () => {
+    const average = new MovingAverage(1000);
+    average.update(10, 500);
+    expect(average.update(2, 0)).toBe(2);
+  });
+});
+
+// Feeds a signal sampled at 30fps and returns the filtered values
+const run = (filter: SignalFilter, signal: (t: number) => number, durationMs: number = 2000) => {
+  const out: { t: number; raw: number; value: number }[] = [];
+  for (let t = 0; t <= durationMs; t += FRAME_MS) {
+    const raw = signal(t);
+    out.push({ t, raw, value: filter.update(raw, t) });
+  }
+  return out;
+};
+
+// Deterministic ±1 jitter around a level
+const jitter = (level: number) => (t: number) => level + (Math.round(t / FRAME_MS) % 2 === 0 ? 1 : -1);
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+const lastSecond = (out: ReturnType<typeof run>) => out.filter(s => s.t > 1000).map(s => s.value);
+
+// A fast squat-like ramp: 170° to 90° in 400ms
+const ramp = (t: number) => (t < 400 ? 170 - 80 * (t / 400) : 90);
+const lagAtBottom = (out: ReturnType<typeof run>) => out.find(s => s.t >= 400)!.value - 90;
+
+describe('OneEuroFilter', () => {
+  it('smooths jitter at rest but follows fast movement with less lag than an average', () => {
+    expect(spread(lastSecond(run(new OneEuroFilter(1, 0.05), jitter(100))))).toBeLessThan(1);
+    expect(lagAtBottom(run(new OneEuroFilter(1, 0.05), ramp))).toBeLessThan(lagAtBottom(run(new MovingAverage(150), ramp)));
+  });
+
+  it('restarts from the first value after a reset', () => {
+    const filter = new OneEuroFilter();
+    run(filter, () => 50);
+    filter.reset();
+    expect(filter.update(10, 0)).toBe(10);
+  });
+});
+
+describe('KalmanFilter', () => {
+  it('tracks a constant velocity without steady-state lag', () => {
+    const out = run(new KalmanFilter(100, 1), t => t / 10);
+    const last = out[out.length - 1];
+    expect(last.value).toBeCloseTo(last.raw, 0);
+  });
+
+  it('smooths measurement noise', () => {
+    expect(spread(lastSecond(run(new KalmanFilter(1, 4), jitter(100))))).toBeLessThan(1);
+  });
+});
+
+describe('createFilter', () => {
+  it('builds the configured filter', () => {
+    expect(createFilter({ kind: 'MOVING_AVERAGE', windowMs: 100 })).toBeInstanceOf(MovingAverage);
+    expect(createFilter({ kind: 'ONE_EURO', minCutoff: 1, beta: 0 })).toBeInstanceOf(OneEuroFilter);
+    expect(createFilter({ kind: 'KALMAN', processNoise: 1, measurementNoise: 1 })).toBeInstanceOf(KalmanFilter);
+  });
+});
+
+describe('areLandmarksVisible', () => {
+  it('requires every landmark above the threshold', () => {
+    expect(areLandmarksVisible(standing(), LEG_LANDMARKS)).toBe(true);
+    expect(areLandmarksVisible(createSquatPose({ kneeAngle: 175, hidden: [POSE_LANDMARKS.LEFT_KNEE] }), LEG_LANDMARKS)).toBe(false);
+    expect(areLandmarksVisible([], LEG_LANDMARKS)).toBe(false);
+  });
+});
+
+describe('LandmarkStabilizer', () => {
+  it('passes the first valid frame through and waits for one otherwise', () => {
+    const stabilizer = new LandmarkStabilizer();
+    expect(stabilizer.process(standing(), false, 0)).toEqual({ landmarks: null, isEstimated: false, estimated: [] });
+
+    const frame = standing();
+    expect(stabilizer.process(frame, true, FRAME_MS)).toEqual({ landmarks: frame, isEstimated: false, estimated: frame.map(() => false) });
+  });
+
+  it('trusts high-confidence frames fully', () => {
+    const stabilizer = new LandmarkStabilizer();
+    stabilizer.process(standing(), true, 0);
+    const squat = createSquatPose({ kneeAngle: 90 });
+    const { landmarks, isEstimated } = stabilizer.process(squat, true, FRAME_MS);
+    expect(isEstimated).toBe(false);
+    expect(leftKneeY(landmarks!)).toBeCloseTo(leftKneeY(squat));
+  });
+
+  it('leans on the last frame when the legs are low confidence', () => {
+    const stabilizer = new LandmarkStabilizer();
+    const first = standing();
+    stabilizer.process(first, true, 0);
+
+    // Visibility 0.6 sits halfway between the thresholds
+    const squat = createSquatPose({ kneeAngle: 90, visibility: 0.6 });
+    const { landmarks, isEstimated } = stabilizer.process(squat, true, FRAME_MS);
+    expect(isEstimated).toBe(true);
+    expect(leftKneeY(landmarks!)).toBeCloseTo((leftKneeY(first) + leftKneeY(squat)) / 2);
+  });
+
+  it('blends by the same amount per unit of time at any frame rate', () => {
+    const first = standing();
+    const squat = createSquatPose({ kneeAngle: 90, visibility: 0.6 });
+
+    const at30 = new LandmarkStabilizer();
+    at30.process(first, true, 0);
+    const one30fpsFrame = at30.process(squat, true, FRAME_MS).landmarks!;
+
+    const at60 = new LandmarkStabilizer();
+    at60.process(first, true, 0);
+    at60.process(squat, true, FRAME_MS / 2);
+    const two60fpsFrames = at60.process(squat, true, FRAME_MS).landmarks!;
+
+    expect(leftKneeY(two60fpsFrames)).toBeCloseTo(leftKneeY(one30fpsFrame));
+  });
+
+  it('holds the last pose for about a third of a second of invalid frames, then drops it', () => {
+    const stabilizer = new LandmarkStabilizer();
+    const first = standing();
+    stabilizer.process(first, true, 0);
+
+    for (let i = 1; i <= 10; i++) {
+      expect(stabilizer.process(createSquatPose({ kneeAngle: 90 }), false, i * FRAME_MS)).toEqual({ landmarks: first, isEstimated: true, estimated: first.map(() => true) });
+    }
+    expect(stabilizer.process(standing(), false, 11 * FRAME_MS)).toEqual({ landmarks: null, isEstimated: false, estimated: [] });
+
+    // A valid frame resumes tracking
+    expect(stabilizer.process(standing(), true, 12 * FRAME_MS).landmarks).not.toBeNull();
+  });
+
+  it('weighs each landmark by its own visibility', () => {
+    const stabilizer = new LandmarkStabilizer();
+    stabilizer.process(standing(), true, 0);
+
+    // Left ankle occluded: the shoulder must still follow the measurement exactly
+    const moved = createSquatPose({ kneeAngle: 175, hidden: [POSE_LANDMARKS.LEFT_ANKLE] })
+      .map(lm => ({ ...lm, y: lm.y + 0.05 }));
+    const { landmarks, isEstimated, estimated } = stabilizer.process(moved, true, FRAME_MS);
+
+    expect(landmarks![POSE_LANDMARKS.LEFT_SHOULDER].y).toBeCloseTo(moved[POSE_LANDMARKS.LEFT_SHOULDER].y);
+    expect(estimated[POSE_LANDMARKS.LEFT_SHOULDER]).toBe(false);
+    expect(estimated[POSE_LANDMARKS.LEFT_ANKLE]).toBe(true);
+    // One occluded joint does not mark the whole frame as estimated
+    expect(isEstimated).toBe(false);
+  });
+
+  it('keeps an occluded joint moving with its last velocity for a short time', () => {
+    const stabilizer = new LandmarkStabilizer();
+    const ankleY = (i: number) => 0.8 + 0.01 * i; // Moving down 0.01 per frame
+    const frameAt = (i: number, hidden: number[] = []) =>
+      standing().map((lm, index) => (index === POSE_LANDMARKS.LEFT_ANKLE ? { ...lm, y: ankleY(i), visibility: hidden.length ? 0 : lm.visibility } : lm));
+
+    for (let i = 0; i < 5; i++) stabilizer.process(frameAt(i), true, i * FRAME_MS);
+
+    // Occluded, and MediaPipe's guess jumps back to the start: the prediction keeps going
+    const hiddenFrame = frameAt(0, [POSE_LANDMARKS.LEFT_ANKLE]);
+    const predicted = stabilizer.process(hiddenFrame, true, 5 * FRAME_MS).landmarks![POSE_LANDMARKS.LEFT_ANKLE].y;
+    expect(predicted).toBeGreaterThan(ankleY(4));
+
+    // Past the prediction horizon the joint stops instead of drifting away
+    let last = predicted;
+    for (let i = 6; i < 30; i++) {
+      last = stabilizer.process(hiddenFrame, true, i * FRAME_MS).landmarks![POSE_LANDMARKS.LEFT_ANKLE].y;
+    }
+    expect(last).toBeLessThan(ankleY(4) + 0.1);
+  });
+
+  it('filters landmark coordinates when configured', () => {
+    const stabilizer = new LandmarkStabilizer({ kind: 'ONE_EURO', minCutoff: 1, beta: 0 });
+    const xs: number[] = [];
+    for (let i = 0; i < 30; i++) {
+      const frame = standing().map(lm => ({ ...lm, x: lm.x + (i % 2 === 0 ? 0.01 : -0.01) }));
+      xs.push(stabilizer.process(frame, true, i * FRAME_MS).landmarks![POSE_LANDMARKS.LEFT_KNEE].x);
+    }
+    expect(spread(xs.slice(15))).toBeLessThan(0.01);
+  });
+
+  it('forgets the last pose on reset', () => {
+    const stabilizer = new LandmarkStabilizer();
+    stabilizer.process(standing(), true, 0);
+    stabilizer.reset();
+    expect(stabilizer.process(standing(), false, FRAME_MS).landmarks).toBeNull();
+  });
+});
@@ -0,0 +1,382 @@
+import { describe, it, expect } from 'vitest';
+import { SquatMechanics } from '../utils/exerciseLogic';
+import { POSE_LANDMARKS } from '../utils/geometry';
+import { DEFAULT_SQUAT_CONFIG, DEFAULT_SQUAT_SMOOTHING, SQUAT_RUBRIC, SQUAT_SMOOTHING_PRESETS } from '../utils/exerciseConfig';
+import { replayThroughEngine } from '../utils/landmarkRecording';
+import { parseTempo } from '../utils/tempo';
+import { generateSquatSet, SquatSetOptions } from './syntheticPose';
+
+const runSet = (options: SquatSetOptions, engine = new SquatMechanics()) => {
+  const states = replayThroughEngine(generateSquatSet(options), engine);
+  return { states, final: states[states.length - 1] };
+};
+
+describe('SquatMechanics rep counting', () => {
+  it('counts clean reps and scores them 100', () => {
+    const { states, final } = runSet({ reps: 5 });
+    expect(final.repCount).toBe(5);
+    expect(states.filter(s => s.didFinishRep)).toHaveLength(5);
+    expect(final.phase).toBe('NEUTRAL');
+    final.repLog.forEach((rep, i) => {
+      expect(rep.repNumber).toBe(i + 1);
+      expect(rep.score).toBe(100);
+      expect(rep.faults).toEqual([]);
+      expect(rep.minAngle).toBeCloseTo(90, 0);
+    });
+  });
+
+  it('counts the same reps at a different frame rate', () => {
+    expect(runSet({ reps: 3, fps: 60 }).final.repCount).toBe(3);
+    expect(runSet({ reps: 3, fps: 24 }).final.repCount).toBe(3);
+  });
+
+  it('does not count a set that never leaves the top', () => {
+    expect(runSet({ reps: 3, depth: 170 }).final.repCount).toBe(0);
+  });
+
+  it('times descent and ascent from the recorded timestamps', () => {
+    const slow = runSet({ reps: 2, descentMs: 3000, ascentMs: 2000 }).final.repLog[0];
+    const normal = runSet({ reps: 2 }).final.repLog[0];
+    expect(slow.descentMs).toBeGreaterThan(normal.descentMs);
+    expect(slow.ascentMs).toBeGreaterThan(normal.ascentMs);
+    expect(slow.endedAt).toBeGreaterThan(slow.startedAt);
+  });
+
+  it('is deterministic across replays and resets', () => {
+    const recording = generateSquatSet({ reps: 3, valgus: 0.04, faultReps: [2] });
+    const engine = new SquatMechanics();
+    const first = replayThroughEngine(recording, engine);
+    const second = replayThroughEngine(recording, engine);
+    expect(second.map(s => s.feedback)).toEqual(first.map(s => s.feedback));
+    expect(second[second.length - 1].repLog).toEqual(first[first.length - 1].repLog);
+  });
+});
+
+describe('SquatMechanics faults', () => {
+  it('flags shallow reps', () => {
+    const { final } = runSet({ reps: 2, depth: 113 });
+    expect(final.repCount).toBe(2);
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['GO DEEPER']);
+      expect(rep.score).toBe(50);
+    });
+  });
+
+  it('confirms knee valgus only on the rep that has it', () => {
+    const { states, final } = runSet({ reps: 3, valgus: 0.04, faultReps: [2] });
+    expect(final.repLog.map(rep => rep.faults)).toEqual([[], ['KNEES IN'], []]);
+    expect(final.repLog[1].score).toBe(80);
+    expect(states.some(s => s.visualContext.valgus)).toBe(true);
+  });
+
+  it('ignores knee travel below the valgus threshold', () => {
+    const { final } = runSet({ reps: 2, valgus: 0.01 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual([]));
+  });
+
+  it('flags excessive forward lean', () => {
+    const { final } = runSet({ reps: 2, lean: 60 });
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['EXCESSIVE LEAN']);
+      expect(rep.maxLeanExcess).toBeGreaterThan(DEFAULT_SQUAT_CONFIG.LEAN_THRESHOLD_CRIT);
+    });
+  });
+
+  it('flags a torso that leans more than the shins', () => {
+    const { final } = runSet({ reps: 2, lean: 25 });
+    final.repLog.forEach(rep => expect(rep.faults).toEqual(['HIP DOMINANT']));
+  });
+
+  it('flags a hip shift and its side', () => {
+    const { final } = runSet({ reps: 2, hipShift: 0.03 });
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['HIP SHIFT']);
+      expect(rep.hipShiftSide).toBe('RIGHT');
+    });
+    expect(runSet({ reps: 1, hipShift: -0.03 }).final.repLog[0].hipShiftSide).toBe('LEFT');
+  });
+
+  it('flags left/right asymmetry on the straighter side', () => {
+    const { final } = runSet({ reps: 2, asymmetry: 30 });
+    final.repLog.forEach(rep => {
+      expect(rep.maxLegAngleDiff).toBeCloseTo(30, 0);
+      expect(rep.asymmetrySide).toBe('LEFT');
+      expect(rep.faults).toEqual(['IMBALANCE L']);
+      expect(rep.score).toBe(80);
+    });
+  });
+
+  it('flags a rushed descent', () => {
+    const { final } = runSet({ reps: 2, descentMs: 300, ascentMs: 300 });
+    final.repLog.forEach(rep => {
+      expect(rep.faults).toEqual(['TOO FAST']);
+      expect(rep.descentMs).toBeLessThan(DEFAULT_SQUAT_CONFIG.SPEED_MIN_MS);
+    });
+  });
+});
+
+describe('SquatMechanics tracking', () => {
+  it('bridges a short leg dropout with estimated landmarks', () => {
+    const { states, final } = runSet({ reps: 2, dropouts: [{ fromMs: 2000, toMs: 2200 }] });
+    expect(states.some(s => s.trackingMode === 'ESTIMATED')).toBe(true);
+    expect(states.some(s => s.trackingMode === 'LOST')).toBe(false);
+    expect(final.repCount).toBe(2);
+  });
+
+  it('reports lost tracking on a long dropout and recovers afterwards', () => {
+    const { states, final } = runSet({ reps: 3, dropouts: [{ fromMs: 2000, toMs: 3800 }] });
+    const lost = states.filter(s => s.trackingMode === 'LOST');
+    expect(lost.length).toBeGreaterThan(0);
+    expect(lost[0].feedback).toBe('SHOW FULL BODY');
+    expect(final.trackingMode).toBe('OPTIMAL');
+    // The rep under the dropout is missed; the following ones are counted
+    expect(final.repCount).toBe(2);
+  });
+
+  it('keeps counting with one leg hidden', () => {
+    const rightLeg = [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE];
+    const { states, final } = runSet({ reps: 2, dropouts: [{ fromMs: 0, toMs: Infinity, indices: rightLeg }] });
+    expect(states.some(s => s.trackingMode === 'LOST')).toBe(false);
+    expect(final.repCount).toBe(2);
+  });
+});
+
+describe('SquatMechanics frame-rate independence', () => {
+  const FRAME_RATES = [15, 30, 60];
+
+  it('detects the same faults and scores at any frame rate', () => {
+    const summaries = FRAME_RATES.map(fps => {
+      const { final } = runSet({ reps: 3, fps, valgus: 0.04, lean: 60, faultReps: [2] });
+      return final.repLog.map(rep => ({ faults: rep.faults, score: rep.score }));
+    });
+    expect(summaries[0]).toHaveLength(3);
+    expect(summaries[0][1].faults).toContain('KNEES IN');
+    summaries.forEach(summary => expect(summary).toEqual(summaries[0]));
+  });
+
+  it('calibrates after the same time at any frame rate', () => {
+    FRAME_RATES.forEach(fps => {
+      // Standing just short of the standing angle never reads READY, only CALIBRATED after ~1s
+      const recording = generateSquatSet({ reps: 0, standingAngle: DEFAULT_SQUAT_CONFIG.STANDING_ANGLE - 5, leadInMs: 2000, fps });
+      const states = replayThroughEngine(recording, new SquatMechanics());
+      const calibratedAt = recording.frames[states.findIndex(s => s.phase === 'NEUTRAL')].t;
+      expect(calibratedAt).toBeGreaterThan(1000);
+      expect(calibratedAt).toBeLessThanOrEqual(1000 + 2000 / fps);
+    });
+  });
+
+  it('bridges the same dropout at any frame rate', () => {
+    FRAME_RATES.forEach(fps => {
+      const { states } = runSet({ reps: 1, fps, dropouts: [{ fromMs: 2000, toMs: 2250 }] });
+      expect(states.some(s => s.trackingMode === 'LOST')).toBe(false);
+    });
+  });
+});
+
+describe('SquatMechanics smoothing', () => {
+  const FAST = { reps: 2, descentMs: 400, ascentMs: 400, bottomMs: 0 };
+
+  it('counts and scores the same reps with every smoothing preset', () => {
+    Object.values(SQUAT_SMOOTHING_PRESETS).forEach(preset => {
+      const { final } = runSet({ reps: 3, valgus: 0.04, faultReps: [2] }, new SquatMechanics(DEFAULT_SQUAT_CONFIG, SQUAT_RUBRIC, preset));
+      expect(final.repCount).toBe(3);
+      expect(final.repLog.map(rep => rep.faults)).toEqual([[], ['KNEES IN'], []]);
+    });
+  });
+
+  it('reads a fast squat deeper with adaptive filters than with the moving average', () => {
+    const averaged = runSet(FAST).final.repLog[0].minAngle;
+    const responsive = runSet(FAST, new SquatMechanics(DEFAULT_SQUAT_CONFIG, SQUAT_RUBRIC, SQUAT_SMOOTHING_PRESETS.RESPONSIVE)).final.repLog[0].minAngle;
+    expect(Math.abs(responsive - 90)).toBeLessThan(Math.abs(averaged - 90));
+  });
+});
+
+describe('SquatMechanics world landmarks', () => {
+  // Image y stretched around the ankles, as with a wrong aspect ratio: the 2D knee angle reads straighter
+  const stretchImage = (recording: ReturnType<typeof generateSquatSet>) => ({
+    ...recording,
+    frames: recording.frames.map(frame => ({
+      ...frame,
+      landmarks: frame.landmarks?.map(l => ({ ...l, y: 0.9 - (0.9 - l.y) * 1.5 })) ?? null,
+    })),
+  });
+
+  it('measures joint angles on world landmarks when they are available', () => {
+    const states = replayThroughEngine(stretchImage(generateSquatSet({ reps: 2, world: true })), new SquatMechanics());
+    const final = states[states.length - 1];
+    expect(final.trackingSource).toBe('WORLD_3D');
+    expect(final.repCount).toBe(2);
+    final.repLog.forEach(rep => expect(rep.minAngle).toBeCloseTo(90, 0));
+  });
+
+  it('falls back to the image landmarks without world data', () => {
+    const states = replayThroughEngine(stretchImage(generateSquatSet({ reps: 2 })), new SquatMechanics());
+    const final = states[states.length - 1];
+    expect(final.trackingSource).toBe('IMAGE_2D');
+    expect(final.repLog[0].minAngle).toBeGreaterThan(95);
+  });
+});
+
+describe('SquatMechanics side view', () => {
+  // Shin tilts less than the thigh, so the hip drops below the knee near 50°
+  const SIDE = { view: 'SIDE', shinShare: 0.3 } as const;
+  const withView = (cameraView: 'FRONT' | 'SIDE') =>
+    new SquatMechanics(DEFAULT_SQUAT_CONFIG, SQUAT_RUBRIC, DEFAULT_SQUAT_SMOOTHING, cameraView);
+
+  it('detects a side-on camera and scores clean reps on the near leg', () => {
+    const { states, final } = runSet({ ...SIDE, reps: 3, depth: 50 });
+    expect(final.cameraView).toBe('SIDE');
+    expect(final.repCount).toBe(3);
+    final.repLog.forEach(rep => expect(rep.score).toBe(100));
+    expect(states.some(s => s.visualContext.sagittal?.hipBelowKnee)).toBe(true);
+    expect(states[states.length - 1].visualContext.sagittal?.side).toBe('LEFT');
+  });
+
+  it('stays on world landmarks and the near leg while the far leg is partly hidden', () => {
+    const { states, final } = runSet({ ...SIDE, reps: 2, depth: 50, world: true });
+    expect(final.repCount).toBe(2);
+    states.forEach(state => {
+      expect(state.trackingSource).toBe('WORLD_3D');
+      expect(state.trackingMode).toBe('OPTIMAL');
+    });
+    expect(final.visualContext.sagittal?.side).toBe('LEFT');
+    final.repLog.forEach(rep => expect(rep.maxShinAngle).toBeGreaterThan(0));
+  });
+
+  it('keeps the frontal analysis for a front-on camera', () => {
+    const { final } = runSet({ reps: 1 });
+    expect(final.cameraView).toBe('FRONT');
+    expect(final.visualContext.sagittal).toBeUndefined();
+  });
+
+  it('judges depth by the hip crease rather than the knee angle', () => {
+    const side = runSet({ ...SIDE, reps: 2, depth: 90 }).final;
+    side.repLog.forEach(rep => {
+      expect(rep.minAngle).toBeLessThan(DEFAULT_SQUAT_CONFIG.PARALLEL_ANGLE);
+      expect(rep.faults).toEqual(['HIP ABOVE KNEE']);
+    });
+    expect(runSet({ reps: 2, depth: 90, shinShare: 0.3 }).final.repLog[0].faults).toEqual([]);
+  });
+
+  it('flags a shin that travels too far forward', () => {
+    const { final } = runSet({ view: 'SIDE', reps: 1, depth: 50 });
+    expect(final.repLog[0].faults).toContain('KNEES FORWARD');
+    expect(final.repLog[0].maxShinAngle).toBeGreaterThan(DEFAULT_SQUAT_CONFIG.SHIN_ANGLE_MAX);
+  });
+
+  it('uses a declared view instead of detecting it', () => {
+    expect(runSet({ ...SIDE, reps: 1, depth: 50 }, withView('FRONT')).final.cameraView).toBe('FRONT');
+    expect(runSet({ reps: 1 }, withView('SIDE')).final.cameraView).toBe('SIDE');
+  });
+});
+
+describe('SquatMechanics foot stability', () => {
+  it('flags heels lifting only on the rep that has it', () => {
+    const { states, final } = runSet({ reps: 3, heelLift: 0.02, faultReps: [2] });
+    expect(final.repLog.map(rep => rep.faults)).toEqual([[], ['HEELS DOWN'], []]);
+    expect(final.repLog[1].maxHeelRise).toBeGreaterThan(DEFAULT_SQUAT_CONFIG.HEEL_LIFT_THRESHOLD);
+    expect(states.some(s => s.visualContext.feet?.heelLift)).toBe(true);
+  });
+
+  it('ignores a heel rise below the threshold', () => {
+    expect(runSet({ reps: 2, heelLift: 0.005 }).final.repLog.every(rep => rep.faults.length === 0)).toBe(true);
+  });
+
+  it('checks the near heel side-on', () => {
+    const { final } = runSet({ view: 'SIDE', shinShare: 0.3, reps: 1, depth: 50, heelLift: 0.02 });
+    expect(final.repLog[0].faults).toEqual(['HEELS DOWN']);
+  });
+
+  it('flags feet turning out during the rep', () => {
+    const { final } = runSet({ reps: 1, footTurn: 25 });
+    expect(final.repLog[0].faults).toEqual(['FEET TURNING']);
+    // The baseline learns close to standing, so it sees a little of the turn
+    expect(final.repLog[0].maxFootRotation).toBeGreaterThan(22);
+    expect(final.repLog[0].maxFootRotation).toBeLessThanOrEqual(25);
+  });
+
+  it('flags a stance that changes width during the rep', () => {
+    expect(runSet({ reps: 1, stanceChange: 0.03 }).final.repLog[0].faults).toEqual(['FEET MOVED']);
+  });
+});
+
+describe('SquatMechanics tempo', () => {
+  const withTempo = (tempo: string) =>
+    new SquatMechanics(DEFAULT_SQUAT_CONFIG, SQUAT_RUBRIC, DEFAULT_SQUAT_SMOOTHING, 'AUTO', parseTempo(tempo));
+  const PRESCRIBED: SquatSetOptions = { reps: 3, descentMs: 3000, bottomMs: 1000, ascentMs: 1000, topMs: 500 };
+
+  it('fills in the tempo without changing states already handed out', () => {
+    const { states, final } = runSet(PRESCRIBED);
+    const atFirstRep = states.find(s => s.didFinishRep)!;
+    expect(atFirstRep.repLog).toHaveLength(1);
+    expect(atFirstRep.repLog[0].tempo).toBeUndefined();
+    expect(final.repLog[0].tempo).toBeDefined();
+  });
+
+  it('measures every phase of each rep', () => {
+    const [first, second] = runSet(PRESCRIBED).final.repLog;
+    // Eased turnarounds count towards the pauses, so the movement phases read a little short
+    expect(second.tempo!.eccentricMs).toBeGreaterThan(2000);
+    expect(second.tempo!.eccentricMs).toBeLessThanOrEqual(3000);
+    expect(second.tempo!.bottomMs).toBeGreaterThanOrEqual(1000);
+    expect(second.tempo!.bottomMs).toBeLessThan(1700);
+    expect(second.tempo!.concentricMs).toBeGreaterThan(500);
+    expect(second.tempo!.concentricMs).toBeLessThanOrEqual(1000);
+    expect(second.tempo!.topMs).toBeGreaterThanOrEqual(500);
+    expect(first.tempo!.topMs).toBeUndefined();
+    expect(second.tempoScore).toBeUndefined();
+  });
+
+  it('scores compliance with the prescribed tempo apart from the rep score', () => {
+    const matching = runSet(PRESCRIBED, withTempo('3-1-1-0')).final.repLog;
+    const rushed = runSet({ reps: 3 }, withTempo('3-1-1-0')).final.repLog;
+    matching.forEach(rep => expect(rep.tempoScore).toBeGreaterThanOrEqual(80));
+    rushed.forEach((rep, i) => expect(rep.tempoScore).toBeLessThan(matching[i].tempoScore!));
+    expect(rushed.every(rep => rep.score === 100)).toBe(true);
+  });
+
+  it('cues a rushed descent and a short bottom pause', () => {
+    const cues = (states: { feedback: string }[]) => new Set(states.map(s => s.feedback));
+    const rushed = cues(runSet({ reps: 2 }, withTempo('3-1-1-0')).states);
+    expect(rushed.has('SLOWER DOWN')).toBe(true);
+    expect(rushed.has('HOLD')).toBe(true);
+    expect(cues(runSet(PRESCRIBED, withTempo('3-1-1-0')).states).has('SLOWER DOWN')).toBe(false);
+    const unprescribed = cues(runSet({ reps: 2 }).states);
+    expect(unprescribed.has('SLOWER DOWN') || unprescribed.has('HOLD')).toBe(false);
+  });
+});
+
+describe('SquatMechanics velocity', () => {
+  it('measures the same concentric velocity for identical reps', () => {
+    const { final } = runSet({ reps: 3 });
+    final.repLog.forEach(rep => {
+      expect(rep.meanVelocity).toBeGreaterThan(0);
+      expect(rep.peakVelocity).toBeGreaterThan(rep.meanVelocity!);
+      expect(rep.velocityLoss).toBeCloseTo(0, 0);
+    });
+    expect(final.velocity?.stopSet).toBe(false);
+  });
+
+  it('halves the velocity when the rise takes twice as long', () => {
+    const normal = runSet({ reps: 1 }).final.repLog[0].meanVelocity!;
+    const slow = runSet({ reps: 1, ascentMs: 2000 }).final.repLog[0].meanVelocity!;
+    expect(slow / normal).toBeCloseTo(0.5, 1);
+  });
+
+  it('cues the last rep, then stops the set once velocity loss passes the threshold', () => {
+    const { states, final } = runSet({ reps: 5, ascentGrowthMs: 150 });
+    const losses = final.repLog.map(rep => rep.velocityLoss!);
+    losses.slice(1).forEach((loss, i) => expect(loss).toBeGreaterThan(losses[i]));
+    const feedback = states.map(s => s.feedback);
+    expect(feedback.indexOf('LAST REP')).toBeGreaterThan(-1);
+    expect(feedback.indexOf('STOP SET')).toBeGreaterThan(feedback.indexOf('LAST REP'));
+    expect(final.velocity?.stopSet).toBe(true);
+  });
+
+  it('uses the configured loss threshold', () => {
+    const lenient = new SquatMechanics({ ...DEFAULT_SQUAT_CONFIG, VELOCITY_LOSS_THRESHOLD: 50 });
+    const { states, final } = runSet({ reps: 5, ascentGrowthMs: 150 }, lenient);
+    expect(final.velocity?.stopSet).toBe(false);
+    expect(states.some(s => s.feedback === 'STOP SET')).toBe(false);
+  });
+});
@@ -0,0 +1,566 @@
+import { CameraView, ExerciseType, Landmark } from '../types';
+import { POSE_LANDMARKS } from '../utils/geometry';
+import { BodySide } from '../utils/exerciseLogic';
+import { LandmarkRecording, RecordedFrame, RECORDING_FORMAT, RECORDING_VERSION } from '../utils/landmarkRecording';
+
+/**
+ * Parametric skeletons for headless engine tests.
+ * Coordinates follow MediaPipe: normalized x/y with y growing downward, and z as
+ * depth (negative = towards the camera). The subject faces the camera with their
+ * LEFT side at smaller x, matching the squat engine's valgus and hip-shift checks.
+ * Side-view poses turn the body a quarter turn: it faces smaller x, LEFT side nearest.
+ */
+
+// Skeleton Dimensions (normalized units)
+const C = {
+  CENTER_X: 0.5,
+  ANKLE_Y: 0.9,
+  HALF_STANCE: 0.06,   // Hips and ankles sit this far either side of center
+  HALF_STRIDE: 0.15,   // Lunge: each foot sits this far in front of or behind the pelvis
+  SHIN: 0.2,
+  THIGH: 0.2,
+  TORSO: 0.25,
+  HALF_SHOULDER: 0.08,
+  NECK: 0.08,
+  UPPER_ARM: 0.14,
+  FOREARM: 0.12,
+  VISIBILITY: 0.99,
+  FAR_LEG_VISIBILITY: 0.6, // Side view: the leg behind is partly occluded (below the stabilizer's full-trust level)
+  HIDDEN_VISIBILITY: 0.1,
+};
+
+// Default recording start, so timestamps look like real epoch ms
+export const SYNTHETIC_START_TIME = 1_700_000_000_000;
+
+export interface SquatPose {
+  kneeAngle: number;   // Degrees at both knees, 180 = standing
+  asymmetry?: number;  // Extra flexion of the RIGHT knee in degrees (negative = LEFT knee)
+  valgus?: number;     // Medial knee travel per knee, normalized x
+  lean?: number;       // Torso lean from vertical in the image plane, degrees
+  pitch?: number;      // Forward torso pitch from vertical (towards smaller z), degrees
+  headDrop?: number;   // Head tipped forward beyond the torso pitch, degrees (a rounding upper back)
+  hipShift?: number;   // Lateral pelvis offset, normalized x (positive = towards the RIGHT side)
+  heelLift?: number;   // Both heels raised, normalized y
+  footTurn?: number;   // Both toes turned outward about the heel, degrees
+  stanceChange?: number; // Extra distance of each foot from center, normalized x
+  visibility?: number; // Visibility of every landmark
+  hidden?: number[];   // Landmarks reported with near-zero visibility
+  shinShare?: number;  // Share of the knee flexion taken by the shin tilt (0.5 = shin and thigh tilt equally)
+  view?: CameraView;
+}
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+/**
+ * Builds one leg upwards from a planted ankle. Shin and thigh tilt in the
+ * sagittal (y/z) plane and split the flexion by `shinShare`, so the 3D knee
+ * angle equals `kneeAngle` when there is no lateral knee or hip offset.
+ */
+const buildLeg = (ankleX: number, kneeAngle: number, kneeOffsetX: number, hipOffsetX: number, shinShare: number) => {
+  const shinTilt = toRadians((180 - kneeAngle) * shinShare);
+  const thighTilt = toRadians((180 - kneeAngle) * (1 - shinShare));
+  const ankle = { x: ankleX, y: C.ANKLE_Y, z: 0 };
+  const knee = { x: ankleX + kneeOffsetX, y: ankle.y - C.SHIN * Math.cos(shinTilt), z: -C.SHIN * Math.sin(shinTilt) };
+  const hip = { x: ankleX + hipOffsetX, y: knee.y - C.THIGH * Math.cos(thighTilt), z: knee.z + C.THIGH * Math.sin(thighTilt) };
+  return { ankle, knee, hip };
+};
+
+// Leg landmarks on the far side of a side-view pose
+const FAR_LEG = [
+  POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE,
+  POSE_LANDMARKS.RIGHT_HEEL, POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+];
+
+type Point = { x: number; y: number; z: number };
+
+interface Leg {
+  hip: Point;
+  knee: Point;
+  ankle: Point;
+}
+
+// Everything above the hips and below the ankles, shared by the standing poses
+interface BodyPose {
+  lean?: number;       // Torso lean from vertical in the image plane, degrees
+  pitch?: number;      // Forward torso pitch from vertical (towards smaller z), degrees
+  headDrop?: number;   // Head tipped forward beyond the torso pitch, degrees
+  heelLift?: number;
+  footTurn?: number;
+  visibility?: number;
+  hidden?: number[];
+  view?: CameraView;
+}
+
+/**
+ * Puts a torso, head, arms and feet on two legs and returns all 33 landmarks.
+ * The head turns with the torso's forward pitch (plus `headDrop`).
+ */
+const assemblePose = (left: Leg, right: Leg, body: BodyPose): Landmark[] => {
+  const { lean = 0, pitch = 0, headDrop = 0, heelLift = 0, footTurn = 0, visibility = C.VISIBILITY, hidden = [], view = 'FRONT' } = body;
+
+  const midHipX = (left.hip.x + right.hip.x) / 2;
+  const midHipY = (left.hip.y + right.hip.y) / 2;
+  const torsoZ = (left.hip.z + right.hip.z) / 2;
+  const leanRad = toRadians(lean);
+  const pitchRad = toRadians(pitch);
+  const neck = {
+    x: midHipX + C.TORSO * Math.sin(leanRad),
+    y: midHipY - C.TORSO * Math.cos(leanRad) * Math.cos(pitchRad),
+    z: torsoZ - C.TORSO * Math.cos(leanRad) * Math.sin(pitchRad),
+  };
+  const leftShoulder = { x: neck.x - C.HALF_SHOULDER, y: neck.y, z: neck.z };
+  const rightShoulder = { x: neck.x + C.HALF_SHOULDER, y: neck.y, z: neck.z };
+
+  // Head points along the pitched torso ("up") and the face looks "forward"
+  const headRad = pitchRad + toRadians(headDrop);
+  const up = { y: -Math.cos(headRad), z: -Math.sin(headRad) };
+  const forward = { y: Math.sin(headRad), z: -Math.cos(headRad) };
+  const head = (lateral: number, along: number, ahead: number) => ({
+    x: neck.x + lateral,
+    y: neck.y + up.y * along + forward.y * ahead,
+    z: neck.z + up.z * along + forward.z * ahead,
+  });
+
+  // Arms reach forward for balance
+  const arm = (shoulder: Point) => {
+    const elbow = { x: shoulder.x, y: shoulder.y + C.UPPER_ARM * 0.5, z: shoulder.z - C.UPPER_ARM * 0.85 };
+    const wrist = { x: shoulder.x, y: elbow.y, z: elbow.z - C.FOREARM };
+    return { elbow, wrist };
+  };
+  const leftArm = arm(leftShoulder);
+  const rightArm = arm(rightShoulder);
+
+  // Heel behind the ankle, toe in front and slightly outward; `outward` is -1 for the LEFT foot
+  const foot = (ankle: Point, outward: number) => {
+    const heel = { x: ankle.x, y: C.ANKLE_Y + 0.02 - heelLift, z: ankle.z + 0.02 };
+    const turn = toRadians(footTurn) * outward;
+    const toeX = outward * 0.01;
+    const toeZ = -0.08;
+    const toe = {
+      x: heel.x + toeX * Math.cos(turn) - toeZ * Math.sin(turn),
+      y: C.ANKLE_Y + 0.03,
+      z: heel.z + toeX * Math.sin(turn) + toeZ * Math.cos(turn),
+    };
+    return { heel, toe };
+  };
+  const leftFoot = foot(left.ankle, -1);
+  const rightFoot = foot(right.ankle, 1);
+
+  const points: Record<number, Point> = {
+    [POSE_LANDMARKS.NOSE]: head(0, C.NECK, 0.05),
+    [POSE_LANDMARKS.LEFT_EYE_INNER]: head(-0.01, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.LEFT_EYE]: head(-0.015, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.LEFT_EYE_OUTER]: head(-0.02, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.RIGHT_EYE_INNER]: head(0.01, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.RIGHT_EYE]: head(0.015, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.RIGHT_EYE_OUTER]: head(0.02, C.NECK + 0.015, 0.05),
+    [POSE_LANDMARKS.LEFT_EAR]: head(-0.035, C.NECK + 0.01, 0),
+    [POSE_LANDMARKS.RIGHT_EAR]: head(0.035, C.NECK + 0.01, 0),
+    [POSE_LANDMARKS.MOUTH_LEFT]: head(-0.01, C.NECK - 0.02, 0.05),
+    [POSE_LANDMARKS.MOUTH_RIGHT]: head(0.01, C.NECK - 0.02, 0.05),
+    [POSE_LANDMARKS.LEFT_SHOULDER]: leftShoulder,
+    [POSE_LANDMARKS.RIGHT_SHOULDER]: rightShoulder,
+    [POSE_LANDMARKS.LEFT_ELBOW]: leftArm.elbow,
+    [POSE_LANDMARKS.RIGHT_ELBOW]: rightArm.elbow,
+    [POSE_LANDMARKS.LEFT_WRIST]: leftArm.wrist,
+    [POSE_LANDMARKS.RIGHT_WRIST]: rightArm.wrist,
+    [POSE_LANDMARKS.LEFT_PINKY]: { ...leftArm.wrist, z: leftArm.wrist.z - 0.02 },
+    [POSE_LANDMARKS.RIGHT_PINKY]: { ...rightArm.wrist, z: rightArm.wrist.z - 0.02 },
+    [POSE_LANDMARKS.LEFT_INDEX]: { ...leftArm.wrist, z: leftArm.wrist.z - 0.03 },
+    [POSE_LANDMARKS.RIGHT_INDEX]: { ...rightArm.wrist, z: rightArm.wrist.z - 0.03 },
+    [POSE_LANDMARKS.LEFT_THUMB]: { ...leftArm.wrist, z: leftArm.wrist.z - 0.02 },
+    [POSE_LANDMARKS.RIGHT_THUMB]: { ...rightArm.wrist, z: rightArm.wrist.z - 0.02 },
+    [POSE_LANDMARKS.LEFT_HIP]: left.hip,
+    [POSE_LANDMARKS.RIGHT_HIP]: right.hip,
+    [POSE_LANDMARKS.LEFT_KNEE]: left.knee,
+    [POSE_LANDMARKS.RIGHT_KNEE]: right.knee,
+    [POSE_LANDMARKS.LEFT_ANKLE]: left.ankle,
+    [POSE_LANDMARKS.RIGHT_ANKLE]: right.ankle,
+    [POSE_LANDMARKS.LEFT_HEEL]: leftFoot.heel,
+    [POSE_LANDMARKS.RIGHT_HEEL]: rightFoot.heel,
+    [POSE_LANDMARKS.LEFT_FOOT_INDEX]: leftFoot.toe,
+    [POSE_LANDMARKS.RIGHT_FOOT_INDEX]: rightFoot.toe,
+  };
+
+  // Side view: a quarter turn about the vertical axis through the stance center
+  const place = (point: Point) => view === 'SIDE'
+    ? { x: C.CENTER_X + point.z, y: point.y, z: point.x - C.CENTER_X }
+    : point;
+
+  return Object.values(POSE_LANDMARKS).map(index => ({
+    ...place(points[index]),
+    visibility: hidden.includes(index)
+      ? C.HIDDEN_VISIBILITY
+      : view === 'SIDE' && FAR_LEG.includes(index) ? Math.min(visibility, C.FAR_LEG_VISIBILITY) : visibility,
+  }));
+};
+
+/**
+ * Returns all 33 MediaPipe pose landmarks for a squat position (front view by default).
+ */
+export const createSquatPose = (pose: SquatPose): Landmark[] => {
+  const { kneeAngle, asymmetry = 0, valgus = 0, hipShift = 0, stanceChange = 0, shinShare = 0.5, ...body } = pose;
+  const left = buildLeg(C.CENTER_X - C.HALF_STANCE - stanceChange, kneeAngle - Math.min(0, asymmetry), valgus, hipShift, shinShare);
+  const right = buildLeg(C.CENTER_X + C.HALF_STANCE + stanceChange, kneeAngle - Math.max(0, asymmetry), -valgus, hipShift, shinShare);
+  return assemblePose(left, right, body);
+};
+
+export interface LungePose extends Omit<BodyPose, 'lean' | 'heelLift' | 'footTurn'> {
+  kneeAngle: number;     // Degrees at both knees with the pelvis midway between the feet, 180 = standing
+  forwardLeg?: BodySide;
+  hipForward?: number;   // Pelvis shift towards the front foot, normalized z (takes the front knee over the toe)
+  valgus?: number;       // Medial travel of the front knee, normalized x
+}
+
+/**
+ * Returns all 33 landmarks for a split stance (front view by default). The
+ * front foot is planted at smaller z; the rear knee drops below the front one.
+ */
+export const createLungePose = (pose: LungePose): Landmark[] => {
+  const { kneeAngle, forwardLeg = 'LEFT', hipForward = 0, valgus = 0, ...body } = pose;
+  // Thigh and shin are the same length, so the hip-ankle distance fixes the knee angle
+  const reach = 2 * C.THIGH * Math.sin(toRadians(kneeAngle) / 2);
+  const hipY = C.ANKLE_Y - Math.sqrt(Math.max(0, reach ** 2 - C.HALF_STRIDE ** 2));
+
+  const buildSplitLeg = (x: number, front: boolean): Leg => {
+    const hip = { x, y: hipY, z: -hipForward };
+    const ankle = { x, y: C.ANKLE_Y, z: front ? -C.HALF_STRIDE : C.HALF_STRIDE };
+    const dy = ankle.y - hip.y;
+    const dz = ankle.z - hip.z;
+    const length = Math.sqrt(dy ** 2 + dz ** 2);
+    // Knee off the middle of the hip-ankle line, bent forward (towards smaller z)
+    const bend = Math.sqrt(Math.max(0, C.THIGH ** 2 - (length / 2) ** 2));
+    const medial = x < C.CENTER_X ? 1 : -1;
+    const knee = {
+      x: x + (front ? valgus * medial : 0),
+      y: (hip.y + ankle.y) / 2 + (dz / length) * bend,
+      z: (hip.z + ankle.z) / 2 - (dy / length) * bend,
+    };
+    return { hip, knee, ankle };
+  };
+
+  const left = buildSplitLeg(C.CENTER_X - C.HALF_STANCE, forwardLeg === 'LEFT');
+  const right = buildSplitLeg(C.CENTER_X + C.HALF_STANCE, forwardLeg === 'RIGHT');
+  return assemblePose(left, right, body);
+};
+
+/**
+ * Converts synthetic image landmarks to MediaPipe-style world landmarks:
+ * meters, centered between the hips, same axis directions.
+ */
+export const toWorldLandmarks = (landmarks: Landmark[], metersPerUnit: number = 2): Landmark[] => {
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  const origin = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2, z: (leftHip.z + rightHip.z) / 2 };
+  return landmarks.map(l => ({
+    x: (l.x - origin.x) * metersPerUnit,
+    y: (l.y - origin.y) * metersPerUnit,
+    z: (l.z - origin.z) * metersPerUnit,
+    visibility: l.visibility,
+  }));
+};
+
+export const LEG_LANDMARKS = [
+  POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP,
+  POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.RIGHT_KNEE,
+  POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.RIGHT_ANKLE,
+];
+
+export interface Dropout {
+  fromMs: number;      // Relative to the start of the recording
+  toMs: number;
+  indices?: number[];  // Defaults to both legs
+}
+
+export interface RepSetOptions {
+  reps: number;
+  // Tempo (ms per phase)
+  descentMs?: number;
+  bottomMs?: number;
+  ascentMs?: number;
+  topMs?: number;
+  ascentGrowthMs?: number; // Fatigue: each rise takes this much longer than the one before
+  leadInMs?: number;      // Holding the start position before the first rep (engine calibration)
+  fps?: number;
+  faultReps?: number[];   // 1-based reps that carry the faults (default: every rep)
+  startTime?: number;
+}
+
+interface RepFrame {
+  t: number;        // Relative to the start of the recording
+  repNumber: number; // 1-based, 0 during the lead-in
+  progress: number; // Depth progress within the current rep (0 = start position, 1 = bottom)
+  fault: number;    // Share of the fault amounts to apply: grows with depth on faulty reps, else 0
+}
+
+// Smooth 0 -> 1 -> 0 easing, like a real rep slowing into the turnarounds
+const ease = (u: number) => (1 - Math.cos(Math.PI * u)) / 2;
+
+/**
+ * Steps through a set of reps at a fixed frame rate and builds every frame
+ * with `pose`. Every rep follows the same tempo, so the expected rep count,
+ * timing and faults are known exactly.
+ */
+const generateRepSet = (
+  exercise: ExerciseType,
+  options: RepSetOptions,
+  pose: (frame: RepFrame) => Omit<RecordedFrame, 't'>
+): LandmarkRecording => {
+  const {
+    reps, descentMs = 1500, bottomMs = 200, ascentMs = 1000, topMs = 800, ascentGrowthMs = 0,
+    leadInMs = 1500, fps = 30, faultReps, startTime = SYNTHETIC_START_TIME,
+  } = options;
+
+  const repAscentMs = (repNumber: number) => ascentMs + (repNumber - 1) * ascentGrowthMs;
+  const repDurations = Array.from({ length: reps }, (_, i) => descentMs + bottomMs + repAscentMs(i + 1) + topMs);
+  const totalMs = leadInMs + repDurations.reduce((acc, ms) => acc + ms, 0);
+  const frameMs = 1000 / fps;
+  const frames: LandmarkRecording['frames'] = [];
+
+  for (let i = 0; Math.round(i * frameMs) <= totalMs; i++) {
+    const t = Math.round(i * frameMs);
+
+    let progress = 0;
+    let repNumber = 0;
+    if (t >= leadInMs) {
+      let repStart = leadInMs;
+      repNumber = 1;
+      while (repNumber < reps && t >= repStart + repDurations[repNumber - 1]) {
+        repStart += repDurations[repNumber - 1];
+        repNumber++;
+      }
+      const repTime = t - repStart;
+      const riseMs = repAscentMs(repNumber);
+      if (repTime < descentMs) progress = ease(repTime / descentMs);
+      else if (repTime < descentMs + bottomMs) progress = 1;
+      else if (repTime < descentMs + bottomMs + riseMs) progress = 1 - ease((repTime - descentMs - bottomMs) / riseMs);
+    }
+
+    const faulty = repNumber > 0 && (!faultReps || faultReps.includes(repNumber));
+    frames.push({ t, ...pose({ t, repNumber, progress, fault: faulty ? progress : 0 }) });
+  }
+
+  return {
+    header: { format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: startTime, exercise },
+    frames,
+  };
+};
+
+export interface SquatSetOptions extends RepSetOptions {
+  depth?: number;         // Bottom knee angle, degrees
+  standingAngle?: number;
+  // Fault amounts at the bottom of a rep; they grow with squat depth
+  valgus?: number;
+  lean?: number;
+  hipShift?: number;
+  asymmetry?: number;
+  heelLift?: number;
+  footTurn?: number;
+  stanceChange?: number;
+  dropouts?: Dropout[];
+  world?: boolean;        // Also record world landmarks (see toWorldLandmarks)
+  shinShare?: number;
+  view?: CameraView;
+}
+
+/**
+ * Generates a full squat set as a landmark recording, ready for `replayThroughEngine`.
+ */
+export const generateSquatSet = (options: SquatSetOptions): LandmarkRecording => {
+  const {
+    depth = 90, standingAngle = 175,
+    valgus = 0, lean = 0, hipShift = 0, asymmetry = 0,
+    heelLift = 0, footTurn = 0, stanceChange = 0,
+    dropouts = [], world = false, shinShare, view,
+  } = options;
+
+  return generateRepSet('SQUAT', options, ({ t, progress, fault }) => {
+    const hidden = dropouts
+      .filter(d => t >= d.fromMs && t < d.toMs)
+      .flatMap(d => d.indices ?? LEG_LANDMARKS);
+
+    const landmarks = createSquatPose({
+      kneeAngle: standingAngle - (standingAngle - depth) * progress,
+      valgus: valgus * fault,
+      lean: lean * fault,
+      hipShift: hipShift * fault,
+      asymmetry: asymmetry * fault,
+      heelLift: heelLift * fault,
+      footTurn: footTurn * fault,
+      stanceChange: stanceChange * fault,
+      hidden,
+      shinShare,
+      view,
+    });
+    return { landmarks, world: world ? toWorldLandmarks(landmarks) : undefined };
+  });
+};
+
+export interface PushUpPose {
+  elbowAngle: number;     // Degrees at both elbows, 180 = arms straight
+  hipBend?: number;       // Bend at the hip off the shoulder-ankle line, degrees (positive = sag, negative = pike)
+  farVisibility?: number; // Visibility of the RIGHT side, behind the body
+}
+
+/**
+ * Side-on push-up facing smaller x with the RIGHT side behind the LEFT one.
+ * The hands stay planted under the shoulder; the body line pivots on the feet.
+ * Landmarks a push-up does not use (face, hands, feet) sit on the shoulder.
+ */
+export const createPushUpPose = (pose: PushUpPose): Landmark[] => {
+  const { elbowAngle, hipBend = 0, farVisibility = C.HIDDEN_VISIBILITY } = pose;
+  const wrist = { x: 0.3, y: 0.8 };
+  const ankle = { x: 0.8, y: 0.8 };
+  // Shoulder-wrist distance for this elbow angle, then the elbow off that line towards the feet
+  const reach = Math.sqrt(C.UPPER_ARM ** 2 + C.FOREARM ** 2 - 2 * C.UPPER_ARM * C.FOREARM * Math.cos(toRadians(elbowAngle)));
+  const shoulder = { x: wrist.x, y: wrist.y - reach };
+  const along = (C.UPPER_ARM ** 2 - C.FOREARM ** 2 + reach ** 2) / (2 * reach);
+  const elbow = { x: shoulder.x + Math.sqrt(Math.max(0, C.UPPER_ARM ** 2 - along ** 2)), y: shoulder.y + along };
+
+  // The hip leaves the middle of the shoulder-ankle line at right angles, downwards for a sag
+  const lineX = ankle.x - shoulder.x;
+  const lineY = ankle.y - shoulder.y;
+  const length = Math.sqrt(lineX ** 2 + lineY ** 2);
+  const drop = (length / 2) * Math.tan(toRadians(hipBend) / 2);
+  const hip = { x: shoulder.x + lineX / 2 - (lineY / length) * drop, y: shoulder.y + lineY / 2 + (lineX / length) * drop };
+  const knee = { x: (hip.x + ankle.x) / 2, y: (hip.y + ankle.y) / 2 };
+
+  const P = POSE_LANDMARKS;
+  const near: [number, number, { x: number; y: number }][] = [
+    [P.LEFT_SHOULDER, P.RIGHT_SHOULDER, shoulder], [P.LEFT_ELBOW, P.RIGHT_ELBOW, elbow], [P.LEFT_WRIST, P.RIGHT_WRIST, wrist],
+    [P.LEFT_HIP, P.RIGHT_HIP, hip], [P.LEFT_KNEE, P.RIGHT_KNEE, knee], [P.LEFT_ANKLE, P.RIGHT_ANKLE, ankle],
+  ];
+  const landmarks: Landmark[] = Array.from({ length: 33 }, () => ({ ...shoulder, z: 0, visibility: C.VISIBILITY }));
+  near.forEach(([left, right, point]) => {
+    landmarks[left] = { ...point, z: 0, visibility: C.VISIBILITY };
+    landmarks[right] = { ...point, z: 0.1, visibility: farVisibility };
+  });
+  return landmarks;
+};
+
+export interface PushUpSetOptions extends RepSetOptions {
+  depth?: number;       // Bottom elbow angle, degrees
+  topAngle?: number;
+  hipBend?: number;     // Fault amount at the bottom of a rep (see PushUpPose)
+  farVisibility?: number;
+}
+
+/**
+ * Generates a push-up set as a landmark recording, ready for `replayThroughEngine`.
+ */
+export const generatePushUpSet = (options: PushUpSetOptions): LandmarkRecording => {
+  const { depth = 80, topAngle = 170, hipBend = 0, farVisibility } = options;
+  return generateRepSet('PUSH_UP', options, ({ progress, fault }) => ({
+    landmarks: createPushUpPose({ elbowAngle: topAngle - (topAngle - depth) * progress, hipBend: hipBend * fault, farVisibility }),
+  }));
+};
+
+export interface LungeSetOptions extends RepSetOptions {
+  depth?: number;           // Bottom knee angle, degrees
+  standingAngle?: number;
+  forwardLegs?: BodySide[]; // Front leg of each rep, repeating (default: LEFT every rep)
+  // Fault amounts at the bottom of a rep; they grow with lunge depth
+  hipForward?: number;
+  valgus?: number;
+  pitch?: number;
+  world?: boolean;          // Also record world landmarks (see toWorldLandmarks)
+  view?: CameraView;
+}
+
+/**
+ * Generates a lunge set as a landmark recording, ready for `replayThroughEngine`.
+ */
+export const generateLungeSet = (options: LungeSetOptions): LandmarkRecording => {
+  const {
+    depth = 90, standingAngle = 175, forwardLegs = ['LEFT'],
+    hipForward = 0, valgus = 0, pitch = 0, world = false, view,
+  } = options;
+
+  return generateRepSet('LUNGE', options, ({ repNumber, progress, fault }) => {
+    const landmarks = createLungePose({
+      kneeAngle: standingAngle - (standingAngle - depth) * progress,
+      forwardLeg: forwardLegs[Math.max(0, repNumber - 1) % forwardLegs.length],
+      hipForward: hipForward * fault,
+      valgus: valgus * fault,
+      pitch: pitch * fault,
+      view,
+    });
+    return { landmarks, world: world ? toWorldLandmarks(landmarks) : undefined };
+  });
+};
+
+export interface HingeSetOptions extends RepSetOptions {
+  depth?: number;         // Bottom hip angle (shoulder-hip-knee), degrees
+  standingAngle?: number;
+  kneeAngle?: number;     // Soft knees held through the rep
+  asymmetry?: number;     // See SquatPose; held through the whole set
+  // Fault amounts at the bottom of a rep; they grow with hinge depth
+  kneeBend?: number;      // Extra knee flexion, degrees
+  headDrop?: number;
+  dropouts?: Dropout[];
+  view?: CameraView;      // Side-on by default
+}
+
+/**
+ * Generates a hip hinge set as a landmark recording, ready for `replayThroughEngine`.
+ * The torso pitches forward over soft knees; the LEFT chain's hip angle follows the set.
+ */
+export const generateHingeSet = (options: HingeSetOptions): LandmarkRecording => {
+  const {
+    depth = 95, standingAngle = 175, kneeAngle = 170, asymmetry = 0,
+    kneeBend = 0, headDrop = 0, dropouts = [], view = 'SIDE',
+  } = options;
+
+  return generateRepSet('HINGE', options, ({ t, progress, fault }) => {
+    const knee = kneeAngle - kneeBend * fault;
+    const hipAngle = standingAngle - (standingAngle - depth) * progress;
+    const hidden = dropouts
+      .filter(d => t >= d.fromMs && t < d.toMs)
+      .flatMap(d => d.indices ?? LEG_LANDMARKS);
+
+    // The thigh leans back by half the knee flexion (shinShare 0.5); the torso takes the rest
+    const landmarks = createSquatPose({
+      kneeAngle: knee,
+      pitch: 180 - hipAngle - (180 - knee) / 2,
+      headDrop: headDrop * fault,
+      asymmetry,
+      hidden,
+      view,
+    });
+    return { landmarks };
+  });
+};
+
+export interface HoldSegment {
+  ms: number;
+  pose: Landmark[] | null; // Held for the whole segment; null = no pose detected
+}
+
+/**
+ * Generates a hold as a landmark recording, one pose per segment, ready for `replayThroughEngine`.
+ */
+export const generateHold = (
+  exercise: ExerciseType,
+  segments: HoldSegment[],
+  fps: number = 30,
+  startTime: number = SYNTHETIC_START_TIME
+): LandmarkRecording => {
+  const totalMs = segments.reduce((acc, segment) => acc + segment.ms, 0);
+  const frameMs = 1000 / fps;
+  const frames: LandmarkRecording['frames'] = [];
+
+  for (let i = 0; i * frameMs < totalMs; i++) {
+    const t = i * frameMs;
+    let segmentEnd = 0;
+    const segment = segments.find(({ ms }) => {
+      segmentEnd += ms;
+      return t < segmentEnd;
+    })!;
+    frames.push({ t: Math.round(t), landmarks: segment.pose });
+  }
+
+  return {
+    header: { format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: startTime, exercise },
+    frames,
+  };
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { AngleSample, formatTempo, measureRepTempo, parseTempo, scoreTempo, validateTempo } from '../utils/tempo';
+
+const FRAME_MS = 1000 / 30;
+
+// Piecewise-linear knee trace: [duration ms, end angle] segments from a start angle
+const trace = (start: number, segments: [number, number][]): AngleSample[] => {
+  const samples: AngleSample[] = [];
+  let t = 0;
+  let angle = start;
+  segments.forEach(([durationMs, end]) => {
+    for (let elapsed = 0; elapsed < durationMs; elapsed += FRAME_MS) {
+      samples.push({ t: t + elapsed, angle: angle + (end - angle) * (elapsed / durationMs) });
+    }
+    t += durationMs;
+    angle = end;
+  });
+  samples.push({ t, angle });
+  return samples;
+};
+
+describe('tempo notation', () => {
+  it('parses dashed and compact notation, with X as explosive', () => {
+    expect(parseTempo('3-1-1-0')).toEqual({ eccentric: 3, bottom: 1, concentric: 1, top: 0 });
+    expect(parseTempo('31x0')).toEqual({ eccentric: 3, bottom: 1, concentric: 0, top: 0 });
+    expect(parseTempo('3-1-1')).toBeNull();
+    expect(parseTempo('3-1-10-0')).toBeNull();
+  });
+
+  it('formats zero-second movement phases as explosive', () => {
+    expect(formatTempo(parseTempo('3-1-X-0')!)).toBe('3-1-X-0');
+    expect(formatTempo(parseTempo('2020')!)).toBe('2-0-2-0');
+  });
+
+  it('accepts a blank tempo as none prescribed', () => {
+    expect(validateTempo(undefined)).toEqual([]);
+    expect(validateTempo('  ')).toEqual([]);
+    expect(validateTempo('slow')).toHaveLength(1);
+  });
+});
+
+describe('measureRepTempo', () => {
+  // Stand 1s, lower 3s, pause 1s, rise 1s
+  const samples = trace(170, [[1000, 170], [3000, 90], [1000, 90], [1000, 170]]);
+
+  it('splits a rep into its phases', () => {
+    const tempo = measureRepTempo(samples, true)!;
+    // The top and bottom bands (5% of range) shave a little off each movement phase
+    expect(tempo.eccentricMs).toBeGreaterThan(2600);
+    expect(tempo.eccentricMs).toBeLessThan(3000);
+    expect(tempo.bottomMs).toBeGreaterThan(1000);
+    expect(tempo.bottomMs).toBeLessThan(1300);
+    expect(tempo.concentricMs).toBeGreaterThan(850);
+    expect(tempo.concentricMs).toBeLessThanOrEqual(1000);
+    expect(tempo.topMs).toBeGreaterThan(1000);
+    expect(tempo.topMs).toBeLessThan(1200);
+  });
+
+  it('leaves out the top pause when asked', () => {
+    expect(measureRepTempo(samples, false)!.topMs).toBeUndefined();
+  });
+
+  it('ends the concentric phase at the highest point when the client stops short', () => {
+    const partial = trace(170, [[2000, 90], [1000, 130], [1000, 130]]);
+    expect(measureRepTempo(partial, false)!.concentricMs).toBeLessThan(1000);
+  });
+
+  it('needs the client back up from the bottom', () => {
+    expect(measureRepTempo(trace(170, [[2000, 90], [500, 90]]), true)).toBeNull();
+    expect(measureRepTempo([{ t: 0, angle: 170 }], true)).toBeNull();
+  });
+});
+
+describe('scoreTempo', () => {
+  const target = parseTempo('3-1-1-0')!;
+
+  it('gives full marks within the tolerance', () => {
+    expect(scoreTempo({ eccentricMs: 3400, bottomMs: 700, concentricMs: 1200, topMs: 300 }, target)).toBe(100);
+  });
+
+  it('loses points in proportion to the error', () => {
+    // Eccentric 1.5s short: 1s beyond tolerance of a 3s target = 2/3 for that phase
+    expect(scoreTempo({ eccentricMs: 1500, bottomMs: 1000, concentricMs: 1000, topMs: 0 }, target)).toBe(92);
+    expect(scoreTempo({ eccentricMs: 0, bottomMs: 0, concentricMs: 5000, topMs: 5000 }, target)).toBe(17);
+  });
+
+  it('only penalises explosive phases for being slow', () => {
+    const explosive = parseTempo('2-0-X-0')!;
+    expect(scoreTempo({ eccentricMs: 2000, bottomMs: 0, concentricMs: 300 }, explosive)).toBe(100);
+    expect(scoreTempo({ eccentricMs: 2000, bottomMs: 0, concentricMs: 1500 }, explosive)).toBe(100 - Math.round(100 / 3));
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { HeightSample, VelocityTracker, measureRepVelocity, velocityLoss } from '../utils/velocity';
+
+const FRAME_MS = 1000 / 30;
+
+// Piecewise-linear hip height trace: [duration ms, end height] segments from a start height
+const trace = (start: number, segments: [number, number][]): HeightSample[] => {
+  const samples: HeightSample[] = [];
+  let t = 0;
+  let height = start;
+  segments.forEach(([durationMs, end]) => {
+    for (let elapsed = 0; elapsed < durationMs; elapsed += FRAME_MS) {
+      samples.push({ t: t + elapsed, height: height + (end - height) * (elapsed / durationMs) });
+    }
+    t += durationMs;
+    height = end;
+  });
+  samples.push({ t, height });
+  return samples;
+};
+
+describe('velocityLoss', () => {
+  it('is the percent below the fastest rep', () => {
+    expect(velocityLoss(1, 0.8)).toBeCloseTo(20);
+    expect(velocityLoss(1, 1.2)).toBe(0);
+    expect(velocityLoss(0, 0.5)).toBe(0);
+  });
+});
+
+describe('measureRepVelocity', () => {
+  it('measures the rise from the bottom back to the top', () => {
+    // Down 0.5 torso lengths in 2s, pause, up in 1s
+    const velocity = measureRepVelocity(trace(2, [[500, 2], [2000, 1.5], [500, 1.5], [1000, 2]]))!;
+    expect(velocity.meanVelocity).toBeCloseTo(0.5, 1);
+    expect(velocity.peakVelocity).toBeCloseTo(0.5, 1);
+  });
+
+  it('reports the fastest part of an uneven rise as the peak', () => {
+    const velocity = measureRepVelocity(trace(2, [[2000, 1.5], [500, 1.6], [250, 1.9], [500, 2]]))!;
+    expect(velocity.peakVelocity).toBeGreaterThan(1);
+    expect(velocity.meanVelocity).toBeLessThan(velocity.peakVelocity);
+  });
+
+  it('needs the client back up from the bottom', () => {
+    expect(measureRepVelocity(trace(2, [[2000, 1.5], [500, 1.5]]))).toBeNull();
+  });
+});
+
+describe('VelocityTracker', () => {
+  it('holds a counted rep until the hip is back at the top', () => {
+    const tracker = new VelocityTracker();
+    const samples = trace(2, [[500, 2], [2000, 1.5], [1000, 2], [500, 2]]);
+    // Counted partway up, as the engines do
+    const countedAt = samples.findIndex(s => s.t > 2500 && s.height > 1.7);
+    const results = samples.map((s, i) => {
+      const result = tracker.update(s.height, s.t, false);
+      if (i === countedAt) tracker.finishRep();
+      return result;
+    });
+    const measuredAt = results.findIndex(r => r !== null);
+    expect(measuredAt).toBeGreaterThan(countedAt);
+    expect(results[measuredAt]!.meanVelocity).toBeCloseTo(0.5, 1);
+    expect(tracker.settle()).toBeNull();
+  });
+});
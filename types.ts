@@ -10,6 +10,7 @@ export interface PoseResults {
   poseLandmarks: Landmark[];
   poseWorldLandmarks: Landmark[];
   image: any; // MediaPipe image source
+  timestamp?: number; // Epoch ms the frame was captured (replayed frames carry the recorded time)
 }
 
 export interface PhysioEyeRef {
@@ -24,13 +25,53 @@ export interface AnalysisResult {
 
 export type TrackingMode = 'OPTIMAL' | 'DEGRADED' | 'ESTIMATED' | 'LOST';
 
+// Landmarks the joint angles were measured on: MediaPipe world landmarks
+// (metric 3D, hip-centered) or normalized image landmarks
+export type TrackingSource = 'WORLD_3D' | 'IMAGE_2D';
+
+// Where the camera sees the subject from. Frontal analysis uses knee/hip widths;
+// side-on analysis uses the near leg in the sagittal plane.
+export type CameraView = 'FRONT' | 'SIDE';
+
+// User setting: a declared view, or detected from the shoulder and hip widths
+export type CameraViewSetting = CameraView | 'AUTO';
+
+export type BodyLineState = 'ALIGNED' | 'SAG' | 'PIKE';
+
+export type SpineState = 'NEUTRAL' | 'ROUNDED';
+
+/**
+ * Side-view squat overlay state for the leg nearest the camera.
+ */
+export interface SagittalContext {
+  side: 'LEFT' | 'RIGHT';
+  hipBelowKnee: boolean;
+  shinAngle: number;    // Degrees forward of vertical
+  shinFault: boolean;
+}
+
+/**
+ * Squat foot checks against the standing baseline.
+ */
+export interface FootContext {
+  heelLift: boolean;
+  rotation: boolean;
+  stanceShift: boolean;
+}
+
 export interface VisualContext {
   valgus: boolean;
+  valgusSide?: 'LEFT' | 'RIGHT'; // Unilateral engines: only this knee is flagged
   baselineKneeY: number; // Normalized 0-1
   isDeep: boolean;
   lean: boolean;
   hipShift: boolean;
   asymmetry: boolean;
+  bodyLine?: BodyLineState; // Set by plank-position engines (push-up). Replaces squat guides.
+  spine?: SpineState;       // Set by hinge engines. Replaces squat guides (forward lean is expected).
+  estimatedJoints?: boolean[]; // Per landmark index: position was predicted by the stabilizer, not measured
+  sagittal?: SagittalContext; // Set by the squat engine in side view. Replaces the frontal squat guides.
+  feet?: FootContext;         // Set by the squat engine once the standing foot baseline is calibrated
 }
 
 export interface HUDState {
@@ -38,11 +79,113 @@ export interface HUDState {
   color: string; // e.g., "#EF4444" (red-500) or "#10B981" (emerald-500)
   visible: boolean;
   trackingMode?: TrackingMode;
+  trackingSource?: TrackingSource;
+  cameraView?: CameraView;
   visualContext?: VisualContext;
+  recognition?: { label: string; confidence: number }; // Auto-detect mode: classifier guess (0-1)
 }
 
 export type SessionStatus = 'IDLE' | 'COUNTDOWN' | 'ACTIVE' | 'SUMMARY';
 
+// Clockwise degrees the camera image is turned before analysis (phones mounted sideways)
+export type CameraRotation = 0 | 90 | 180 | 270;
+
+/**
+ * Live camera capture and display settings (persisted per browser).
+ */
+export interface CameraSettings {
+  deviceId: string | null; // null = default front camera
+  width: number;           // Requested resolution; the browser may pick the closest it supports
+  height: number;
+  frameRate: number;
+  mirrored: boolean;       // Selfie view. Video files are never mirrored.
+  rotation: CameraRotation;
+  cameraView: CameraViewSetting; // Squat analysis plane
+}
+
+export type ExerciseType = 'SQUAT' | 'PUSH_UP' | 'LUNGE' | 'HINGE' | 'PLANK' | 'WALL_SIT' | 'ROM_ASSESSMENT';
+
+// REPS engines count repetitions; HOLD engines time an isometric position;
+// ASSESSMENT engines guide a fixed sequence of movements and measure range of motion.
+export type ExerciseMode = 'REPS' | 'HOLD' | 'ASSESSMENT';
+
+/**
+ * Static description of a movement engine.
+ * Used by the registry, the UI selector and the Gemini context string.
+ */
+export interface ExerciseMetadata {
+  type: ExerciseType;
+  name: string;          // Display name, e.g. "Squat"
+  mode: ExerciseMode;
+  description: string;   // One-line summary for the selector
+  primaryJoint: string;  // Joint whose angle drives rep counting, e.g. "Knee"
+  angleHint?: string;    // Reference for Gemini, e.g. "90 is parallel"
+}
+
+/**
+ * Score of one completed rep as stored in session history.
+ */
+export interface SessionRep {
+  repNumber: number;
+  completedAt: number; // Epoch ms
+  score: number;
+  faults: string[];
+  minAngle?: number;   // Primary joint, degrees
+  descentMs?: number;
+  ascentMs?: number;
+  tempoScore?: number; // 0-100 compliance with the prescribed tempo
+  meanVelocity?: number; // Concentric hip velocity, torso lengths/s
+}
+
+// Joint motions measured by the range-of-motion assessment
+export type RomMotion = 'SHOULDER_FLEXION' | 'SQUAT_HIP_FLEXION' | 'SQUAT_KNEE_FLEXION' | 'STANDING_HIP_FLEXION';
+
+/**
+ * Peak angle of one joint motion on each side, in degrees from the joint's
+ * neutral position. A side is null when it was never measured.
+ */
+export interface RomMeasurement {
+  motion: RomMotion;
+  left: number | null;
+  right: number | null;
+}
+
+/**
+ * Live progress of a range-of-motion assessment.
+ */
+export interface AssessmentStatus {
+  step: number;         // Index of the current movement
+  stepCount: number;
+  movement: string;     // Current movement, e.g. "Overhead reach"
+  instruction: string;  // What the client should do now
+  complete: boolean;    // Every movement has been measured
+  measurements: RomMeasurement[]; // Peaks so far, one per motion
+}
+
+export interface SessionAnalysis {
+  timestamp: number;   // Epoch ms
+  result: AnalysisResult;
+}
+
+/**
+ * A completed set, persisted locally for progress tracking.
+ */
+export interface SessionRecord {
+  id: string;
+  startedAt: number;   // Epoch ms
+  endedAt: number;     // Epoch ms
+  exercise: ExerciseType;
+  exerciseName: string;
+  mode: ExerciseMode;
+  profileName: string;
+  repCount: number;
+  reps: SessionRep[];
+  holdDurationMs?: number;
+  holdBreaks?: number;
+  rom?: RomMeasurement[]; // Finished ASSESSMENT sessions: peak angles per side
+  analyses: SessionAnalysis[];
+}
+
 // Window augmentation for MediaPipe globals loaded via CDN
 declare global {
   interface Window {
@@ -0,0 +1,164 @@
+
+import { Landmark, ExerciseType } from '../types';
+import { POSE_LANDMARKS, calculateAngle, getDistance } from './geometry';
+import { areLandmarksVisible } from './signal';
+
+// Classifier Constants
+const C = {
+  WINDOW_MS: 3000,          // Long enough to contain one full rep
+  MIN_WINDOW_MS: 1000,      // Below this the window is too short to judge
+  VISIBILITY_MIN: 0.5,
+  SETTLE_CONFIDENCE: 0.6,   // Minimum confidence for a guess to count towards settling
+  SETTLE_MS: 1500,          // A guess must hold this long before it is settled
+};
+
+const P = POSE_LANDMARKS;
+const SIDES = {
+  LEFT: { shoulder: P.LEFT_SHOULDER, elbow: P.LEFT_ELBOW, wrist: P.LEFT_WRIST, hip: P.LEFT_HIP, knee: P.LEFT_KNEE, ankle: P.LEFT_ANKLE },
+  RIGHT: { shoulder: P.RIGHT_SHOULDER, elbow: P.RIGHT_ELBOW, wrist: P.RIGHT_WRIST, hip: P.RIGHT_HIP, knee: P.RIGHT_KNEE, ankle: P.RIGHT_ANKLE },
+};
+
+export type RecognizedExercise = Extract<ExerciseType, 'SQUAT' | 'PUSH_UP' | 'LUNGE' | 'HINGE'> | 'IDLE';
+
+export interface ClassificationResult {
+  exercise: RecognizedExercise;
+  confidence: number; // 0-1
+  settled: boolean;   // `exercise` has been the confident best guess for at least SETTLE_MS
+}
+
+interface FrameFeatures {
+  knee: number;      // Average knee angle
+  hip: number;       // Average hip angle (shoulder-hip-knee)
+  elbow: number;     // Average elbow angle
+  incline: number;   // Shoulder-ankle line from horizontal (0 = lying flat, 90 = upright)
+  kneeSplit: number; // Vertical knee offset / torso length (split stance indicator)
+  t: number;         // Frame timestamp, ms
+}
+
+// Linear ramp: 0 at or below `lo`, 1 at or above `hi`
+const ramp = (value: number, lo: number, hi: number) => Math.max(0, Math.min(1, (value - lo) / (hi - lo)));
+
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const meanOf = <T>(items: T[], value: (item: T) => number) => mean(items.map(value));
+
+/**
+ * Rule-based exercise recognition over a rolling window of joint-angle trajectories.
+ * Movements are told apart by which joints travel through the largest range
+ * and by body orientation:
+ * - Push-up: body horizontal, elbows flex
+ * - Hinge: upright start, hips flex while knees stay mostly fixed
+ * - Squat: knees and hips flex together, feet level
+ * - Lunge: like a squat but with a split stance (one knee much lower)
+ */
+export class ExerciseClassifier {
+  private window: FrameFeatures[] = [];
+  private guess: RecognizedExercise | null = null; // Current confident guess
+  private guessSince = 0;                          // When it became the confident guess
+
+  reset() {
+    this.window = [];
+    this.guess = null;
+  }
+
+  /**
+   * Angles are averaged over the sides whose shoulder, hip, knee and ankle are
+   * visible, so a side-on client (far side occluded) is still recognized.
+   * The split stance needs both knees and reads 0 when one is hidden.
+   */
+  private extractFeatures(landmarks: Landmark[], t: number): FrameFeatures | null {
+    const sides = Object.values(SIDES).filter(s =>
+      areLandmarksVisible(landmarks, [s.shoulder, s.hip, s.knee, s.ankle], C.VISIBILITY_MIN)
+    );
+    if (sides.length === 0) return null;
+
+    const at = (i: number) => landmarks[i];
+    const torsoScale = meanOf(sides, s => getDistance(at(s.shoulder), at(s.hip)));
+    if (torsoScale < 0.01) return null;
+
+    const shoulderX = meanOf(sides, s => at(s.shoulder).x);
+    const shoulderY = meanOf(sides, s => at(s.shoulder).y);
+    const ankleX = meanOf(sides, s => at(s.ankle).x);
+    const ankleY = meanOf(sides, s => at(s.ankle).y);
+    const bothKnees = areLandmarksVisible(landmarks, [P.LEFT_KNEE, P.RIGHT_KNEE], C.VISIBILITY_MIN);
+
+    return {
+      knee: meanOf(sides, s => calculateAngle(at(s.hip), at(s.knee), at(s.ankle))),
+      hip: meanOf(sides, s => calculateAngle(at(s.shoulder), at(s.hip), at(s.knee))),
+      elbow: meanOf(sides, s => calculateAngle(at(s.shoulder), at(s.elbow), at(s.wrist))),
+      incline: Math.atan2(Math.abs(ankleY - shoulderY), Math.abs(ankleX - shoulderX)) * (180 / Math.PI),
+      kneeSplit: bothKnees ? Math.abs(at(P.LEFT_KNEE).y - at(P.RIGHT_KNEE).y) / torsoScale : 0,
+      t,
+    };
+  }
+
+  /**
+   * Scores every class from the current window. Scores are independent 0-1
+   * memberships; they are normalized into a confidence in `classify`.
+   */
+  private scoreWindow(): Record<RecognizedExercise, number> {
+    const kneeRange = range(this.window.map(f => f.knee));
+    const hipRange = range(this.window.map(f => f.hip));
+    const elbowRange = range(this.window.map(f => f.elbow));
+    const meanIncline = mean(this.window.map(f => f.incline));
+    const maxKneeSplit = Math.max(...this.window.map(f => f.kneeSplit));
+
+    const horizontal = 1 - ramp(meanIncline, 30, 55);
+    const upright = 1 - horizontal;
+    const legsMoving = ramp(Math.max(kneeRange, hipRange), 15, 40);
+    const kneeDriven = ramp(kneeRange / Math.max(hipRange, 1), 0.4, 0.8);
+    const split = ramp(maxKneeSplit, 0.15, 0.35);
+
+    const pushUp = horizontal * ramp(elbowRange, 20, 50);
+    const hinge = upright * ramp(hipRange, 25, 50) * (1 - kneeDriven);
+    const lunge = upright * legsMoving * kneeDriven * split;
+    const squat = upright * legsMoving * kneeDriven * (1 - split);
+    const idle = (1 - legsMoving) * (1 - pushUp);
+
+    return { SQUAT: squat, PUSH_UP: pushUp, LUNGE: lunge, HINGE: hinge, IDLE: idle };
+  }
+
+  private classify(): Omit<ClassificationResult, 'settled'> {
+    const span = this.window.length > 0 ? this.window[this.window.length - 1].t - this.window[0].t : 0;
+    if (span < C.MIN_WINDOW_MS) {
+      return { exercise: 'IDLE', confidence: 0 };
+    }
+
+    const scores = this.scoreWindow();
+    const total = Object.values(scores).reduce((acc, v) => acc + v, 0);
+    if (total === 0) return { exercise: 'IDLE', confidence: 0 };
+
+    const [exercise, best] = (Object.entries(scores) as [RecognizedExercise, number][])
+      .reduce((a, b) => (b[1] > a[1] ? b : a));
+
+    // Penalize a partially filled window
+    const fill = Math.min(1, span / C.WINDOW_MS);
+    return { exercise, confidence: (best / total) * fill };
+  }
+
+  /**
+   * Adds a frame to the window and returns the current best guess.
+   * Frames without a visible body side are skipped (the window keeps its contents).
+   * A guess only settles once it has stayed the confident best guess for
+   * SETTLE_MS, so a single ambiguous window never counts as a change of exercise.
+   */
+  update(landmarks: Landmark[], timestamp: number = Date.now()): ClassificationResult {
+    const features = this.extractFeatures(landmarks, timestamp);
+    if (features) {
+      this.window.push(features);
+      while (timestamp - this.window[0].t > C.WINDOW_MS) {
+        this.window.shift();
+      }
+    }
+
+    const { exercise, confidence } = this.classify();
+    const guess = exercise !== 'IDLE' && confidence >= C.SETTLE_CONFIDENCE ? exercise : null;
+    if (guess !== this.guess) {
+      this.guess = guess;
+      this.guessSince = timestamp;
+    }
+    const settled = guess !== null && timestamp - this.guessSince >= C.SETTLE_MS;
+    return { exercise, confidence, settled };
+  }
+}
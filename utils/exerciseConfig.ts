@@ -0,0 +1,378 @@
+import { ScoringRubric, RubricOverrides, RubricRule, applyRubricOverrides, validateRubric } from './scoring';
+import { FilterSettings } from './signal';
+import { Tempo, parseTempo, validateTempo } from './tempo';
+
+/**
+ * Squat biomechanics thresholds. Angles in degrees, ratios normalized, times in ms.
+ * Defaults are the "Gold Standard" values; client profiles override a subset.
+ */
+export interface SquatConfig {
+  STANDING_ANGLE: number;
+  DESCENT_START_ANGLE: number;
+  PARALLEL_ANGLE: number;
+  DEEP_SQUAT_ANGLE: number;
+  ASCENT_THRESHOLD: number;
+  ANGLE_CHANGE_MIN: number;
+  VISIBILITY_MIN: number;
+  SMOOTHING_MS: number;
+  SPEED_MIN_MS: number;
+
+  // Valgus
+  VALGUS_THRESHOLD_ON: number;
+  VALGUS_THRESHOLD_OFF: number;
+
+  // Lean
+  LEAN_THRESHOLD_INFO: number;
+  LEAN_THRESHOLD_WARN: number;
+  LEAN_THRESHOLD_CRIT: number;
+  LEAN_THRESHOLD_OFF: number;     // Lean fault releases below this
+  LEAN_SUDDEN_CHANGE: number;
+  LEAN_DESCENT_CHANGE: number;
+  SHIN_TORSO_DEVIATION: number;
+
+  // Asymmetry & Shift
+  ASYMMETRY_THRESHOLD_INFO: number;
+  ASYMMETRY_THRESHOLD_WARN: number;
+  ASYMMETRY_THRESHOLD_CRIT: number;
+  HIP_SHIFT_THRESHOLD: number;
+  HIP_SHIFT_THRESHOLD_OFF: number;
+
+  // Side view
+  SHIN_ANGLE_MAX: number;
+  SHIN_ANGLE_OFF: number;
+
+  // Feet (changes against the standing baseline)
+  HEEL_LIFT_THRESHOLD: number;
+  HEEL_LIFT_THRESHOLD_OFF: number;
+  FOOT_ROTATION_THRESHOLD: number;
+  FOOT_ROTATION_THRESHOLD_OFF: number;
+  STANCE_CHANGE_THRESHOLD: number;
+  STANCE_CHANGE_THRESHOLD_OFF: number;
+
+  // Velocity (percent below the set's fastest rep)
+  VELOCITY_LOSS_THRESHOLD: number;
+}
+
+// Gold Standard Biomechanics Constants
+export const DEFAULT_SQUAT_CONFIG: Readonly<SquatConfig> = {
+  STANDING_ANGLE: 120,
+  DESCENT_START_ANGLE: 115,
+  PARALLEL_ANGLE: 110,
+  DEEP_SQUAT_ANGLE: 65,
+  ASCENT_THRESHOLD: 3,
+  ANGLE_CHANGE_MIN: 3,
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,
+  SPEED_MIN_MS: 500,
+
+  VALGUS_THRESHOLD_ON: 0.18,
+  VALGUS_THRESHOLD_OFF: 0.12,
+
+  LEAN_THRESHOLD_INFO: 3,
+  LEAN_THRESHOLD_WARN: 5,
+  LEAN_THRESHOLD_CRIT: 15,
+  LEAN_THRESHOLD_OFF: 3,
+  LEAN_SUDDEN_CHANGE: 5,
+  LEAN_DESCENT_CHANGE: 15,
+  SHIN_TORSO_DEVIATION: 15,
+
+  ASYMMETRY_THRESHOLD_INFO: 8,
+  ASYMMETRY_THRESHOLD_WARN: 15,
+  ASYMMETRY_THRESHOLD_CRIT: 25,
+  HIP_SHIFT_THRESHOLD: 0.05,
+  HIP_SHIFT_THRESHOLD_OFF: 0.03,
+
+  SHIN_ANGLE_MAX: 45,
+  SHIN_ANGLE_OFF: 40,
+
+  HEEL_LIFT_THRESHOLD: 0.05,
+  HEEL_LIFT_THRESHOLD_OFF: 0.03,
+  FOOT_ROTATION_THRESHOLD: 15,
+  FOOT_ROTATION_THRESHOLD_OFF: 10,
+  STANCE_CHANGE_THRESHOLD: 0.15,
+  STANCE_CHANGE_THRESHOLD_OFF: 0.10,
+
+  VELOCITY_LOSS_THRESHOLD: 20,
+};
+
+/**
+ * Filter choices for the squat engine, separate from the tunable thresholds.
+ * `angle` drives the knee and torso angle smoothers and defaults to a moving
+ * average over SMOOTHING_MS. `landmarks` optionally filters every landmark
+ * coordinate in the stabilizer before any angle is measured.
+ */
+export interface SquatSmoothing {
+  angle?: FilterSettings;
+  landmarks?: FilterSettings | null;
+}
+
+export const DEFAULT_SQUAT_SMOOTHING: Readonly<SquatSmoothing> = {};
+
+/**
+ * Trade-offs between jitter and lag. One Euro beta is per °/s for angles and
+ * per normalized unit/s for landmark coordinates.
+ */
+export const SQUAT_SMOOTHING_PRESETS: Record<'STEADY' | 'RESPONSIVE' | 'PREDICTIVE', SquatSmoothing> = {
+  STEADY: {},
+  RESPONSIVE: {
+    angle: { kind: 'ONE_EURO', minCutoff: 1.0, beta: 0.05 },
+  },
+  PREDICTIVE: {
+    angle: { kind: 'KALMAN', processNoise: 20000, measurementNoise: 4 },
+    landmarks: { kind: 'ONE_EURO', minCutoff: 1.5, beta: 5 },
+  },
+};
+
+export interface ConfigField<T> {
+  key: keyof T;
+  label: string;
+  group: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Editable squat fields with their allowed ranges (used by validation and the Settings UI).
+ */
+export const SQUAT_CONFIG_FIELDS: ConfigField<SquatConfig>[] = [
+  { key: 'STANDING_ANGLE', label: 'Standing knee angle', group: 'Depth', unit: '°', min: 100, max: 175, step: 1 },
+  { key: 'DESCENT_START_ANGLE', label: 'Descent start angle', group: 'Depth', unit: '°', min: 95, max: 170, step: 1 },
+  { key: 'PARALLEL_ANGLE', label: 'Depth target angle', group: 'Depth', unit: '°', min: 60, max: 165, step: 1 },
+  { key: 'DEEP_SQUAT_ANGLE', label: 'Deep squat angle', group: 'Depth', unit: '°', min: 30, max: 120, step: 1 },
+  { key: 'ASCENT_THRESHOLD', label: 'Ascent detection', group: 'Depth', unit: '°', min: 1, max: 15, step: 1 },
+  { key: 'ANGLE_CHANGE_MIN', label: 'Pump rep re-descent', group: 'Depth', unit: '°', min: 1, max: 15, step: 1 },
+  { key: 'SPEED_MIN_MS', label: 'Minimum descent time', group: 'Tempo', unit: 'ms', min: 0, max: 5000, step: 50 },
+  { key: 'VISIBILITY_MIN', label: 'Landmark visibility', group: 'Tracking', unit: '', min: 0.1, max: 0.95, step: 0.05 },
+  { key: 'SMOOTHING_MS', label: 'Angle smoothing window', group: 'Tracking', unit: 'ms', min: 0, max: 1000, step: 10 },
+  { key: 'VALGUS_THRESHOLD_ON', label: 'Valgus trigger', group: 'Valgus', unit: 'ratio', min: 0.02, max: 0.6, step: 0.01 },
+  { key: 'VALGUS_THRESHOLD_OFF', label: 'Valgus release', group: 'Valgus', unit: 'ratio', min: 0.01, max: 0.5, step: 0.01 },
+  { key: 'LEAN_THRESHOLD_INFO', label: 'Lean hint', group: 'Lean', unit: '°', min: 0, max: 30, step: 1 },
+  { key: 'LEAN_THRESHOLD_WARN', label: 'Lean fault', group: 'Lean', unit: '°', min: 1, max: 40, step: 1 },
+  { key: 'LEAN_THRESHOLD_OFF', label: 'Lean release', group: 'Lean', unit: '°', min: 0, max: 39, step: 1 },
+  { key: 'LEAN_THRESHOLD_CRIT', label: 'Lean critical', group: 'Lean', unit: '°', min: 2, max: 60, step: 1 },
+  { key: 'LEAN_SUDDEN_CHANGE', label: 'Sudden lean change', group: 'Lean', unit: '°', min: 1, max: 30, step: 1 },
+  { key: 'LEAN_DESCENT_CHANGE', label: 'Chest falling change', group: 'Lean', unit: '°', min: 1, max: 60, step: 1 },
+  { key: 'SHIN_TORSO_DEVIATION', label: 'Shin/torso mismatch', group: 'Lean', unit: '°', min: 1, max: 60, step: 1 },
+  { key: 'ASYMMETRY_THRESHOLD_INFO', label: 'Asymmetry hint', group: 'Asymmetry', unit: '°', min: 1, max: 40, step: 1 },
+  { key: 'ASYMMETRY_THRESHOLD_WARN', label: 'Asymmetry fault', group: 'Asymmetry', unit: '°', min: 2, max: 50, step: 1 },
+  { key: 'ASYMMETRY_THRESHOLD_CRIT', label: 'Asymmetry critical', group: 'Asymmetry', unit: '°', min: 3, max: 60, step: 1 },
+  { key: 'HIP_SHIFT_THRESHOLD', label: 'Hip shift trigger', group: 'Asymmetry', unit: 'ratio', min: 0.02, max: 0.5, step: 0.01 },
+  { key: 'HIP_SHIFT_THRESHOLD_OFF', label: 'Hip shift release', group: 'Asymmetry', unit: 'ratio', min: 0.01, max: 0.49, step: 0.01 },
+  { key: 'SHIN_ANGLE_MAX', label: 'Forward shin angle', group: 'Side view', unit: '°', min: 10, max: 80, step: 1 },
+  { key: 'SHIN_ANGLE_OFF', label: 'Forward shin release', group: 'Side view', unit: '°', min: 5, max: 79, step: 1 },
+  { key: 'HEEL_LIFT_THRESHOLD', label: 'Heel lift trigger', group: 'Feet', unit: 'ratio', min: 0.02, max: 0.3, step: 0.01 },
+  { key: 'HEEL_LIFT_THRESHOLD_OFF', label: 'Heel lift release', group: 'Feet', unit: 'ratio', min: 0.01, max: 0.29, step: 0.01 },
+  { key: 'FOOT_ROTATION_THRESHOLD', label: 'Foot rotation trigger', group: 'Feet', unit: '°', min: 2, max: 45, step: 1 },
+  { key: 'FOOT_ROTATION_THRESHOLD_OFF', label: 'Foot rotation release', group: 'Feet', unit: '°', min: 1, max: 44, step: 1 },
+  { key: 'STANCE_CHANGE_THRESHOLD', label: 'Stance width change', group: 'Feet', unit: 'ratio', min: 0.02, max: 0.6, step: 0.01 },
+  { key: 'STANCE_CHANGE_THRESHOLD_OFF', label: 'Stance width release', group: 'Feet', unit: 'ratio', min: 0.01, max: 0.59, step: 0.01 },
+  { key: 'VELOCITY_LOSS_THRESHOLD', label: 'Velocity loss to end set', group: 'Velocity', unit: '%', min: 5, max: 60, step: 1 },
+];
+
+// Pairs that must be strictly ordered: [larger, smaller]
+const SQUAT_ORDERING: [keyof SquatConfig, keyof SquatConfig][] = [
+  ['STANDING_ANGLE', 'DESCENT_START_ANGLE'],
+  ['DESCENT_START_ANGLE', 'PARALLEL_ANGLE'],
+  ['PARALLEL_ANGLE', 'DEEP_SQUAT_ANGLE'],
+  ['VALGUS_THRESHOLD_ON', 'VALGUS_THRESHOLD_OFF'],
+  ['LEAN_THRESHOLD_WARN', 'LEAN_THRESHOLD_INFO'],
+  ['LEAN_THRESHOLD_CRIT', 'LEAN_THRESHOLD_WARN'],
+  ['LEAN_THRESHOLD_WARN', 'LEAN_THRESHOLD_OFF'],
+  ['ASYMMETRY_THRESHOLD_WARN', 'ASYMMETRY_THRESHOLD_INFO'],
+  ['ASYMMETRY_THRESHOLD_CRIT', 'ASYMMETRY_THRESHOLD_WARN'],
+  ['HIP_SHIFT_THRESHOLD', 'HIP_SHIFT_THRESHOLD_OFF'],
+  ['SHIN_ANGLE_MAX', 'SHIN_ANGLE_OFF'],
+  ['HEEL_LIFT_THRESHOLD', 'HEEL_LIFT_THRESHOLD_OFF'],
+  ['FOOT_ROTATION_THRESHOLD', 'FOOT_ROTATION_THRESHOLD_OFF'],
+  ['STANCE_CHANGE_THRESHOLD', 'STANCE_CHANGE_THRESHOLD_OFF'],
+];
+
+export interface ConfigValidation<T> {
+  config: T;         // Defaults merged with the overrides
+  errors: string[];  // Empty = valid
+}
+
+/**
+ * Merges overrides onto the defaults and checks ranges and ordering rules.
+ * Unknown keys and non-numeric values are reported, never applied.
+ */
+export const validateSquatConfig = (overrides: Partial<SquatConfig> = {}): ConfigValidation<SquatConfig> => {
+  const config: SquatConfig = { ...DEFAULT_SQUAT_CONFIG };
+  const errors: string[] = [];
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    const field = SQUAT_CONFIG_FIELDS.find(f => f.key === key);
+    if (!field) {
+      errors.push(`Unknown setting "${key}"`);
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${field.label} must be a number`);
+      return;
+    }
+    if (value < field.min || value > field.max) {
+      errors.push(`${field.label} must be between ${field.min} and ${field.max}${field.unit === '°' ? '°' : ''}`);
+      return;
+    }
+    config[field.key] = value;
+  });
+
+  SQUAT_ORDERING.forEach(([larger, smaller]) => {
+    if (config[larger] <= config[smaller]) {
+      const largerLabel = SQUAT_CONFIG_FIELDS.find(f => f.key === larger)!.label;
+      const smallerLabel = SQUAT_CONFIG_FIELDS.find(f => f.key === smaller)!.label;
+      errors.push(`${largerLabel} must be greater than ${smallerLabel}`);
+    }
+  });
+
+  return { config, errors };
+};
+
+export type SquatFault =
+  | 'DEPTH' | 'VALGUS' | 'ASYMMETRY' | 'HIP_SHIFT'
+  | 'LEAN' | 'CHEST_FALLING' | 'HIP_DOMINANT' | 'SPEED'
+  | 'HIP_DEPTH' | 'SHIN_ANGLE'
+  | 'HEEL_LIFT' | 'FOOT_ROTATION' | 'STANCE_SHIFT';
+
+/**
+ * Default squat scoring. Severities are in the engine's units:
+ * DEPTH = degrees short of the depth target, ASYMMETRY = max L/R knee angle
+ * difference, LEAN = max degrees of lean beyond the depth-adjusted allowance,
+ * SHIN_ANGLE = max forward shin angle. The graded ranges here match the default
+ * lean/asymmetry warn and critical thresholds; resolveSquatRubric moves them to
+ * the thresholds of the profile in use. HIP_DEPTH and SHIN_ANGLE are
+ * side-view faults; HIP_DEPTH replaces DEPTH there. HEEL_LIFT = max heel rise
+ * above standing, relative to torso length.
+ */
+export const SQUAT_RUBRIC: ScoringRubric<SquatFault> = {
+  DEPTH: { label: 'GO DEEPER', penalty: 50 },
+  VALGUS: { label: 'KNEES IN', penalty: 20 },
+  ASYMMETRY: { label: 'ASYMMETRY', penalty: 10, grade: { from: 15, to: 25, maxPenalty: 20 } },
+  HIP_SHIFT: { label: 'HIP SHIFT', penalty: 15 },
+  LEAN: { label: 'CHEST UP', penalty: 10, grade: { from: 5, to: 15, maxPenalty: 25 } },
+  CHEST_FALLING: { label: 'CHEST FALLING', penalty: 20 },
+  HIP_DOMINANT: { label: 'HIP DOMINANT', penalty: 15 },
+  SPEED: { label: 'TOO FAST', penalty: 15 },
+  HIP_DEPTH: { label: 'HIP ABOVE KNEE', penalty: 50 },
+  SHIN_ANGLE: { label: 'KNEES FORWARD', penalty: 10 },
+  HEEL_LIFT: { label: 'HEELS DOWN', penalty: 15 },
+  FOOT_ROTATION: { label: 'FEET TURNING', penalty: 10 },
+  STANCE_SHIFT: { label: 'FEET MOVED', penalty: 10 },
+};
+
+/**
+ * Merges rubric overrides onto the squat defaults and validates the result.
+ */
+export const validateSquatRubric = (overrides: RubricOverrides<SquatFault> = {}): ConfigValidation<ScoringRubric<SquatFault>> => {
+  const unknown = Object.keys(overrides)
+    .filter(fault => !(fault in SQUAT_RUBRIC))
+    .map(fault => `Unknown scoring fault "${fault}"`);
+  const rubric = applyRubricOverrides(SQUAT_RUBRIC, overrides);
+  return { config: rubric, errors: [...unknown, ...validateRubric(rubric)] };
+};
+
+/**
+ * Per-client threshold overrides. Only changed values are stored so that
+ * improvements to the defaults still reach existing profiles.
+ */
+export interface ClientProfile {
+  id: string;
+  name: string;
+  notes?: string;
+  thresholds: {
+    SQUAT?: Partial<SquatConfig>;
+  };
+  scoring?: {
+    SQUAT?: RubricOverrides<SquatFault>;
+  };
+  tempo?: {
+    SQUAT?: string; // Prescribed tempo notation, e.g. "3-1-1-0"
+  };
+  velocityAutoStop?: boolean; // End a squat set once velocity loss passes the threshold (only the squat tracks velocity)
+}
+
+export const DEFAULT_PROFILE: ClientProfile = {
+  id: 'default',
+  name: 'Default',
+  thresholds: {},
+};
+
+/**
+ * Starting points for common client groups.
+ */
+export const PROFILE_PRESETS: ClientProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: 'preset-post-acl',
+    name: 'Post-ACL (limited depth)',
+    notes: 'Depth target raised to ~60° knee flexion; stricter valgus trigger.',
+    thresholds: {
+      SQUAT: { PARALLEL_ANGLE: 120, DEEP_SQUAT_ANGLE: 100, DESCENT_START_ANGLE: 135, STANDING_ANGLE: 145, VALGUS_THRESHOLD_ON: 0.12, VALGUS_THRESHOLD_OFF: 0.08 },
+    },
+  },
+  {
+    id: 'preset-elderly',
+    name: 'Older adult (relaxed)',
+    notes: 'No descent speed penalty, more tolerant lean and asymmetry rules.',
+    thresholds: {
+      SQUAT: { SPEED_MIN_MS: 0, LEAN_THRESHOLD_WARN: 10, LEAN_THRESHOLD_OFF: 8, LEAN_THRESHOLD_CRIT: 25, ASYMMETRY_THRESHOLD_WARN: 20, ASYMMETRY_THRESHOLD_CRIT: 30 },
+    },
+  },
+  {
+    id: 'preset-tendon',
+    name: 'Tendon loading (slow tempo)',
+    notes: 'Heavy slow resistance: 3 s down, 3 s up, coached against the prescribed tempo.',
+    thresholds: {},
+    tempo: { SQUAT: '3-0-3-0' },
+  },
+];
+
+/**
+ * Resolves the squat config for a profile. Invalid overrides fall back to the
+ * defaults so a bad profile can never break a live session.
+ */
+export const resolveSquatConfig = (profile?: ClientProfile): SquatConfig => {
+  const { config, errors } = validateSquatConfig(profile?.thresholds.SQUAT);
+  if (errors.length > 0) {
+    console.warn(`Profile "${profile?.name}" has invalid squat thresholds, using defaults:`, errors);
+    return { ...DEFAULT_SQUAT_CONFIG };
+  }
+  return config;
+};
+
+const gradeBetween = (rule: RubricRule, from: number, to: number): RubricRule =>
+  rule.grade ? { ...rule, grade: { ...rule.grade, from, to } } : rule;
+
+/**
+ * Resolves the squat scoring rubric for a profile, falling back to the defaults
+ * when the profile's weights are invalid. Graded lean and asymmetry penalties
+ * run from the warn to the critical threshold of `thresholds`, so a rep at the
+ * client's own warn level takes the base penalty.
+ */
+export const resolveSquatRubric = (profile?: ClientProfile, thresholds: SquatConfig = resolveSquatConfig(profile)): ScoringRubric<SquatFault> => {
+  const { config, errors } = validateSquatRubric(profile?.scoring?.SQUAT);
+  if (errors.length > 0) {
+    console.warn(`Profile "${profile?.name}" has invalid squat scoring, using defaults:`, errors);
+  }
+  const rubric = errors.length > 0 ? { ...SQUAT_RUBRIC } : config;
+  return {
+    ...rubric,
+    LEAN: gradeBetween(rubric.LEAN, thresholds.LEAN_THRESHOLD_WARN, thresholds.LEAN_THRESHOLD_CRIT),
+    ASYMMETRY: gradeBetween(rubric.ASYMMETRY, thresholds.ASYMMETRY_THRESHOLD_WARN, thresholds.ASYMMETRY_THRESHOLD_CRIT),
+  };
+};
+
+/**
+ * Resolves the prescribed squat tempo for a profile. None is set by default,
+ * and an unreadable tempo is ignored rather than breaking a live session.
+ */
+export const resolveSquatTempo = (profile?: ClientProfile): Tempo | null => {
+  const text = profile?.tempo?.SQUAT;
+  const errors = validateTempo(text);
+  if (errors.length > 0) {
+    console.warn(`Profile "${profile?.name}" has an invalid squat tempo, ignoring it:`, errors);
+  }
+  return text && errors.length === 0 ? parseTempo(text) : null;
+};
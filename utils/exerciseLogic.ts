@@ -1,41 +1,17 @@
 
-import { Landmark, TrackingMode, VisualContext } from '../types';
-import { POSE_LANDMARKS, calculateAngle } from './geometry';
-import { MovingAverage, ExponentialMovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
-
-// Gold Standard Biomechanics Constants
-const C = {
-  STANDING_ANGLE: 120,        
-  DESCENT_START_ANGLE: 115,   
-  PARALLEL_ANGLE: 110,        
-  DEEP_SQUAT_ANGLE: 65,       
-  ASCENT_THRESHOLD: 3,        
-  ANGLE_CHANGE_MIN: 3,        
-  VISIBILITY_MIN: 0.5,      
-  SMOOTHING_FRAMES: 5,        
-  SPEED_MIN_MS: 500,          
-  
-  // Valgus Constants
-  VALGUS_THRESHOLD_ON: 0.18,
-  VALGUS_THRESHOLD_OFF: 0.12,
-  
-  // Lean Constants
-  LEAN_THRESHOLD_INFO: 3,      
-  LEAN_THRESHOLD_WARN: 5,      
-  LEAN_THRESHOLD_CRIT: 15,     
-  LEAN_SUDDEN_CHANGE: 5,       
-  LEAN_DESCENT_CHANGE: 15,     
-  SHIN_TORSO_DEVIATION: 15,
-
-  // Asymmetry & Shift Constants
-  ASYMMETRY_THRESHOLD_INFO: 8,
-  ASYMMETRY_THRESHOLD_WARN: 15,
-  ASYMMETRY_THRESHOLD_CRIT: 25,
-  HIP_SHIFT_THRESHOLD: 0.05, 
-};
+import { Landmark, TrackingMode, TrackingSource, VisualContext, ExerciseMetadata, CameraView, CameraViewSetting, FootContext, AssessmentStatus } from '../types';
+import {
+  POSE_LANDMARKS, angleFromVertical, calculateAngle, calculateFootYaw, calculateFrontalWidthRatio, calculateHeelRise,
+  calculateTorsoLean, calculateTorsoLean3D, getNormalizedDistance, hasWorldLandmarks
+} from './geometry';
+import { MovingAverage, ExponentialMovingAverage, LandmarkStabilizer, SignalFilter, createFilter, areLandmarksVisible } from './signal';
+import { SquatConfig, DEFAULT_SQUAT_CONFIG, SquatFault, SQUAT_RUBRIC, SquatSmoothing, DEFAULT_SQUAT_SMOOTHING } from './exerciseConfig';
+import { ScoringRubric, FaultOccurrence, FaultPenalty, RepScore, scoreRep } from './scoring';
+import { RepTempo, Tempo, TempoTracker, scoreTempo } from './tempo';
+import { RepVelocity, VelocityStatus, VelocityTracker, velocityLoss } from './velocity';
 
 // Feedback Priorities
-const PRIORITY = {
+export const PRIORITY = {
     STATE: 0,   // "Go Lower", "Stand Tall" (Instant)
     HINT: 1,    // "Watch Lean" (Sticky 500ms)
     FAULT: 2,   // "Knees Out!" (Sticky 1000ms)
@@ -45,47 +21,54 @@ const PRIORITY = {
 // --- Step 3: Fault Confirmation State Machine ---
 type FaultState = 'CLEAR' | 'SUSPECTED' | 'CONFIRMED' | 'CLEARING';
 
-class FaultDetector {
+// A suspected fault is dropped once the signal stays below threshold this long
+const SUSPECT_DROP_MS = 30;
+
+/**
+ * Hysteresis with time-based confirmation. Durations are measured from the
+ * first frame that crossed the threshold, so a fault needs the same time to
+ * confirm at 15fps as at 60fps. Defaults match 5 / 3 frames at 30fps.
+ */
+export class FaultDetector {
     public state: FaultState = 'CLEAR';
-    private framesInState: number = 0;
-    private framesBelowThreshold: number = 0; 
+    private stateSince: number = 0;
+    private belowSince: number | null = null;
 
     constructor(
         private thresholdOn: number,
         private thresholdOff: number,
-        private framesToConfirm: number = 5,
-        private framesToClear: number = 3
+        private confirmMs: number = 150,
+        private clearMs: number = 100
     ) {}
 
     reset() {
         this.state = 'CLEAR';
-        this.framesInState = 0;
-        this.framesBelowThreshold = 0;
+        this.stateSince = 0;
+        this.belowSince = null;
     }
 
-    update(value: number): boolean {
+    update(value: number, now: number): boolean {
         switch (this.state) {
             case 'CLEAR':
                 if (value > this.thresholdOn) {
                     this.state = 'SUSPECTED';
-                    this.framesInState = 1;
-                    this.framesBelowThreshold = 0;
+                    this.stateSince = now;
+                    this.belowSince = null;
                 }
                 break;
 
             case 'SUSPECTED':
                 if (value > this.thresholdOn) {
-                    this.framesInState++;
-                    this.framesBelowThreshold = 0;
-                    if (this.framesInState >= this.framesToConfirm) {
+                    this.belowSince = null;
+                    if (now - this.stateSince >= this.confirmMs) {
                         this.state = 'CONFIRMED';
-                        this.framesInState = 0;
+                        this.stateSince = now;
                     }
                 } else {
-                    this.framesBelowThreshold++;
-                    if (this.framesBelowThreshold >= 2) {
+                    if (this.belowSince === null) this.belowSince = now;
+                    if (now - this.belowSince >= SUSPECT_DROP_MS) {
                         this.state = 'CLEAR';
-                        this.framesInState = 0;
+                        this.belowSince = null;
                     }
                 }
                 break;
@@ -93,20 +76,19 @@ class FaultDetector {
             case 'CONFIRMED':
                 if (value < this.thresholdOff) {
                     this.state = 'CLEARING';
-                    this.framesInState = 1;
+                    this.stateSince = now;
                 }
                 break;
 
             case 'CLEARING':
                 if (value < this.thresholdOff) {
-                    this.framesInState++;
-                    if (this.framesInState >= this.framesToClear) {
+                    if (now - this.stateSince >= this.clearMs) {
                         this.state = 'CLEAR';
-                        this.framesInState = 0;
+                        this.stateSince = now;
                     }
                 } else {
                     this.state = 'CONFIRMED';
-                    this.framesInState = 0;
+                    this.stateSince = now;
                 }
                 break;
         }
@@ -115,8 +97,73 @@ class FaultDetector {
     }
 }
 
+/**
+ * Priority-based feedback arbitration shared by all engines.
+ * Sticky messages (faults, rep results) hold the HUD for a duration and can
+ * only be overridden by equal or higher priority messages.
+ */
+export class PriorityFeedback {
+    private lockUntil: number = 0;
+    private priority: number = PRIORITY.STATE;
+    private message: string;
+    private color: string;
+
+    constructor(private readonly defaultMessage: string, private readonly defaultColor: string) {
+        this.message = defaultMessage;
+        this.color = defaultColor;
+    }
+
+    reset() {
+        this.lockUntil = 0;
+        this.priority = PRIORITY.STATE;
+        this.message = this.defaultMessage;
+        this.color = this.defaultColor;
+    }
+
+    /**
+     * Sets feedback with a specific priority and duration.
+     * Higher priority overrides lower priority.
+     * Same priority overrides if the message is different or to extend duration.
+     */
+    set(message: string, color: string, priority: number, durationMs: number, now: number) {
+        // 1. If currently locked by higher priority, ignore.
+        if (now < this.lockUntil && priority < this.priority) {
+            return;
+        }
+
+        // 2. If same priority, or higher, or lock expired -> Apply
+        this.message = message;
+        this.color = color;
+        this.priority = priority;
+        this.lockUntil = now + durationMs;
+    }
+
+    /**
+     * Returns the sticky message while locked, otherwise the instant state message.
+     */
+    resolve(instantMessage: string, instantColor: string, now: number): { message: string, color: string } {
+        if (now < this.lockUntil) {
+            return { message: this.message, color: this.color };
+        }
+        this.priority = PRIORITY.STATE;
+        return { message: instantMessage, color: instantColor };
+    }
+}
+
+/**
+ * Maps a rep score to the HUD verdict shown when a rep completes.
+ */
+export const getRepVerdict = (score: number): { message: string, color: string } => {
+    if (score >= 90) return { message: "PERFECT REP!", color: "#10B981" };
+    if (score >= 70) return { message: "GOOD REP", color: "#10B981" };
+    if (score >= 50) return { message: "OKAY - WATCH FORM", color: "#F59E0B" };
+    return { message: "TRY AGAIN", color: "#EF4444" };
+};
+
+export type ExercisePhase = 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING' | 'HOLDING' | 'BROKEN' | 'ASSESSING' | 'COMPLETE';
+
 export interface ExerciseState {
-  phase: 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING';
+  phase: ExercisePhase;
   angle: number;
   repCount: number;
   feedback: string;
@@ -124,21 +171,129 @@ export interface ExerciseState {
   isGoodRep: boolean | null; 
   didFinishRep: boolean; 
   trackingMode: TrackingMode; 
+  trackingSource?: TrackingSource; // Engines that read world landmarks: where the angles came from
+  cameraView?: CameraView;         // Engines with view-specific analysis: the view in use
   visualContext: VisualContext;
   repScore: number;       
   minAngleReached: number; 
   depthHit: boolean;      
   faults: string[];       
+  scoreBreakdown: FaultPenalty[]; // Deductions behind the last rep score
+  repLog: readonly RepRecord[];   // Every rep completed since the last reset, oldest first
+  sideStats?: Record<BodySide, SideRepStats>; // Unilateral engines only
+  holdDurationMs?: number; // HOLD engines: time-under-tension with good form
+  holdBreaks?: number;     // HOLD engines: confirmed form breaks
+  velocity?: VelocityStatus; // Engines with velocity tracking: last measured rep against the fastest
+  assessment?: AssessmentStatus; // ASSESSMENT engines: current movement and peaks measured so far
+}
+
+export type BodySide = 'LEFT' | 'RIGHT';
+
+/**
+ * One completed rep. Timestamps are epoch ms; the descent starts when the
+ * primary joint leaves the top position and the ascent at the bottom turnaround.
+ */
+export interface RepRecord {
+  repNumber: number;
+  startedAt: number;
+  endedAt: number;
+  descentMs: number;
+  ascentMs: number;
+  minAngle: number;          // Primary joint, degrees
+  score: number;
+  faults: string[];
+  scoreBreakdown: FaultPenalty[];
+  side?: BodySide;           // Unilateral engines: working leg
+  maxKneePastToeCm?: number; // Lunge with world landmarks: furthest front-knee travel past the toe
+  // Squat only
+  maxLeanExcess?: number;    // Degrees beyond the depth-adjusted allowance
+  maxLegAngleDiff?: number;  // Max L/R knee angle difference, degrees
+  asymmetrySide?: BodySide | 'NONE'; // Side with the straighter (less loaded) knee
+  hipShiftSide?: BodySide | 'NONE';
+  maxShinAngle?: number;     // Side view: max forward shin angle, degrees
+  maxHeelRise?: number;      // Max heel rise above standing, relative to torso length
+  maxFootRotation?: number;  // Max foot turn from standing, degrees
+  tempo?: RepTempo;          // Measured eccentric / bottom / concentric / top phases
+  tempoScore?: number;       // 0-100 compliance with the prescribed tempo, when one is set
+  meanVelocity?: number;     // Concentric hip velocity, torso lengths/s
+  peakVelocity?: number;
+  velocityLoss?: number;     // Percent below the fastest rep of the set so far
+}
+
+/**
+ * Per-side rep totals for unilateral movements (lunge, split squat).
+ */
+export interface SideRepStats {
+  reps: number;
+  lastScore: number;
+  averageScore: number;
+}
+
+/**
+ * Common contract for every movement engine.
+ * App only talks to engines through this interface, so new movements can be
+ * added to the registry without touching the session loop.
+ */
+export interface ExerciseEngine {
+  readonly metadata: ExerciseMetadata;
+  // `timestamp` is the frame capture time (epoch ms); replays pass the recorded time.
+  // `worldLandmarks` are MediaPipe's metric 3D landmarks; engines that use them
+  // fall back to the image landmarks when they are missing.
+  update(rawLandmarks: Landmark[], timestamp?: number, worldLandmarks?: Landmark[] | null): ExerciseState;
+  reset(): void;
 }
 
-export class SquatMechanics {
+export const SQUAT_METADATA: ExerciseMetadata = {
+  type: 'SQUAT',
+  name: 'Squat',
+  mode: 'REPS',
+  description: 'Bilateral squat with depth, valgus, lean, asymmetry and heel/foot checks (depth and shin angle side-on).',
+  primaryJoint: 'Knee',
+  angleHint: '90 is parallel',
+};
+
+const LEFT_LEG = [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE];
+const RIGHT_LEG = [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE];
+const FEET: Record<BodySide, { heel: number, toe: number }> = {
+  LEFT: { heel: POSE_LANDMARKS.LEFT_HEEL, toe: POSE_LANDMARKS.LEFT_FOOT_INDEX },
+  RIGHT: { heel: POSE_LANDMARKS.RIGHT_HEEL, toe: POSE_LANDMARKS.RIGHT_FOOT_INDEX },
+};
+
+// Camera view detection from calculateFrontalWidthRatio, with hysteresis
+const CAMERA_VIEW = {
+  SIDE_BELOW: 0.2,   // Ratio under this = side-on
+  FRONT_ABOVE: 0.3,  // Ratio over this = frontal
+  WINDOW_MS: 500,
+};
+
+// Squat timings (ms). Not client-tunable, unlike SquatConfig.
+const SQUAT_TIMING = {
+  CALIBRATION_MS: 1000,        // INITIALIZING accepts a near-standing pose after this long
+  PUMP_GUARD_MS: 150,          // Minimum ascent before a re-descent counts as a pump rep
+  KNEE_HEIGHT_WINDOW_MS: 1000, // Standing knee height average
+  VALGUS_BASELINE_TAU_MS: 500, // Knee/ankle width ratio baseline time constant
+  VALGUS_BASELINE_MS: 650,     // Baseline is trusted after this much standing data
+  FOOT_BASELINE_TAU_MS: 500,   // Heel rise, foot direction and stance width baselines
+  FOOT_BASELINE_MS: 650,
+  FAULT_CONFIRM_MS: 150,
+  FAULT_CLEAR_MS: 100,
+  HIP_SHIFT_CONFIRM_MS: 100,
+};
+
+// Standing references (foot baselines, the upright pose) only update within this
+// many degrees of the standing knee angle, so the start of a descent never becomes part of "standing"
+const STANDING_ANGLE_WINDOW = 10;
+
+export class SquatMechanics implements ExerciseEngine {
+  readonly metadata = SQUAT_METADATA;
+
   private state: 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING' = 'INITIALIZING';
   private repCount: number = 0;
-  private frameCounter: number = 0;
+  private stateEnteredAt: number | null = null; // null until the first frame after a reset
   
   // Signal Processing
-  private angleSmoother: MovingAverage;
-  private torsoAngleSmoother: MovingAverage; 
+  private angleSmoother: SignalFilter;
+  private torsoAngleSmoother: SignalFilter; 
   private stabilizer: LandmarkStabilizer;
   private kneeHeightSmoother: MovingAverage;
   
@@ -148,13 +303,14 @@ export class SquatMechanics {
   private maxAscentAngle: number = 0; 
   private hitDepth: boolean = false;
   private descentStartTime: number = 0;
+  private ascentStartTime: number = 0;
   private baselineKneeY: number = 0.8; 
   
   // Valgus Calibration & Detection
   private kneeAnkleRatioBaseline: ExponentialMovingAverage; 
   private baselineRatio: number = 1.0; 
   private valgusDetector: FaultDetector; 
-  private baselineFrameCount: number = 0;
+  private baselineStartedAt: number | null = null;
   private baselineCalibrated: boolean = false;
   
   // Lean Detection
@@ -176,6 +332,47 @@ export class SquatMechanics {
   private repHadHipShift: boolean = false;
   private hipShiftDetector: FaultDetector;
 
+  // Camera View & Side-View (Sagittal) Checks
+  private cameraView: CameraView;
+  private viewRatioSmoother = new MovingAverage(CAMERA_VIEW.WINDOW_MS);
+  private nearSide: BodySide = 'LEFT';
+  private hipBelowKnee: boolean = false;
+  private repHipBelowKnee: boolean = false;
+  private shinAngle: number = 0;
+  private maxShinAngle: number = 0;
+  private shinFault: boolean = false;
+  private repHadShinFault: boolean = false;
+  private shinDetector: FaultDetector;
+
+  // Foot Stability (against the standing baseline)
+  private heelRiseSmoothers: Record<BodySide, ExponentialMovingAverage>;
+  private footYawSmoothers: Record<BodySide, ExponentialMovingAverage>;
+  private stanceWidthSmoother: ExponentialMovingAverage;
+  private heelRiseBaseline: Record<BodySide, number> = { LEFT: 0, RIGHT: 0 };
+  private footYawBaseline: Record<BodySide, number | null> = { LEFT: null, RIGHT: null };
+  private stanceWidthBaseline: number | null = null;
+  private footBaselineStartedAt: number | null = null;
+  private footBaselineCalibrated: boolean = false;
+  private standingPeakAngle: number = 0;
+  private heelLiftDetector: FaultDetector;
+  private footRotationDetector: FaultDetector;
+  private stanceDetector: FaultDetector;
+  private feet: FootContext = { heelLift: false, rotation: false, stanceShift: false };
+  private repHadHeelLift: boolean = false;
+  private repHadFootRotation: boolean = false;
+  private repHadStanceShift: boolean = false;
+  private maxHeelRise: number = 0;
+  private maxFootRotation: number = 0;
+
+  // Tempo
+  private tempoTracker = new TempoTracker();
+
+  // Velocity
+  private velocityTracker = new VelocityTracker();
+  private uprightPose: Landmark[] | null = null;
+  private fastestVelocity: number = 0;
+  private velocityStatus: VelocityStatus | undefined = undefined;
+
   // Fault Tracking Flags
   private kneeValgus: boolean = false; 
   private repHadValgus: boolean = false; 
@@ -185,34 +382,47 @@ export class SquatMechanics {
   private speedFault: boolean = false;
   
   // Feedback System (New Priority Logic)
-  private feedbackLockUntil: number = 0;
-  private feedbackPriority: number = 0;
-  private feedbackMessage: string = "STAND STRAIGHT";
-  private feedbackColor: string = "#3B82F6";
-  private lastFeedback: string = "";
-  private lastColor: string = "";
+  private feedback = new PriorityFeedback("STAND STRAIGHT", "#3B82F6");
   
   // Score Tracking
   private lastRepScore: number = 0;
   private lastRepFaults: string[] = [];
+  private lastRepBreakdown: FaultPenalty[] = [];
+  private repLog: RepRecord[] = [];
 
-  constructor() {
-    this.angleSmoother = new MovingAverage(C.SMOOTHING_FRAMES); 
-    this.torsoAngleSmoother = new MovingAverage(C.SMOOTHING_FRAMES);
-    this.kneeHeightSmoother = new MovingAverage(30); 
-    this.kneeAnkleRatioBaseline = new ExponentialMovingAverage(30); 
-    this.stabilizer = new LandmarkStabilizer();
+  constructor(
+    private readonly config: SquatConfig = DEFAULT_SQUAT_CONFIG,
+    private readonly rubric: ScoringRubric<SquatFault> = SQUAT_RUBRIC,
+    smoothing: SquatSmoothing = DEFAULT_SQUAT_SMOOTHING,
+    private readonly viewSetting: CameraViewSetting = 'AUTO',
+    private readonly tempo: Tempo | null = null,
+  ) {
+    this.cameraView = viewSetting === 'AUTO' ? 'FRONT' : viewSetting;
+    const angleFilter = smoothing.angle ?? { kind: 'MOVING_AVERAGE', windowMs: this.config.SMOOTHING_MS };
+    this.angleSmoother = createFilter(angleFilter); 
+    this.torsoAngleSmoother = createFilter(angleFilter);
+    this.kneeHeightSmoother = new MovingAverage(SQUAT_TIMING.KNEE_HEIGHT_WINDOW_MS); 
+    this.kneeAnkleRatioBaseline = new ExponentialMovingAverage(SQUAT_TIMING.VALGUS_BASELINE_TAU_MS); 
+    this.stabilizer = new LandmarkStabilizer(smoothing.landmarks ?? null);
     
     // Initialize Fault Detectors with Hysteresis
-    this.valgusDetector = new FaultDetector(C.VALGUS_THRESHOLD_ON, C.VALGUS_THRESHOLD_OFF, 5, 3);
-    this.leanDetector = new FaultDetector(C.LEAN_THRESHOLD_WARN, C.LEAN_THRESHOLD_WARN - 2, 5, 3);
-    // Hip Shift Detector: On at 0.05, Off at 0.03
-    this.hipShiftDetector = new FaultDetector(C.HIP_SHIFT_THRESHOLD, C.HIP_SHIFT_THRESHOLD - 0.02, 4, 3);
+    this.valgusDetector = new FaultDetector(this.config.VALGUS_THRESHOLD_ON, this.config.VALGUS_THRESHOLD_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+    this.leanDetector = new FaultDetector(this.config.LEAN_THRESHOLD_WARN, this.config.LEAN_THRESHOLD_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+    this.hipShiftDetector = new FaultDetector(this.config.HIP_SHIFT_THRESHOLD, this.config.HIP_SHIFT_THRESHOLD_OFF, SQUAT_TIMING.HIP_SHIFT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+    this.shinDetector = new FaultDetector(this.config.SHIN_ANGLE_MAX, this.config.SHIN_ANGLE_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+
+    const footBaseline = () => new ExponentialMovingAverage(SQUAT_TIMING.FOOT_BASELINE_TAU_MS);
+    this.heelRiseSmoothers = { LEFT: footBaseline(), RIGHT: footBaseline() };
+    this.footYawSmoothers = { LEFT: footBaseline(), RIGHT: footBaseline() };
+    this.stanceWidthSmoother = footBaseline();
+    this.heelLiftDetector = new FaultDetector(this.config.HEEL_LIFT_THRESHOLD, this.config.HEEL_LIFT_THRESHOLD_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+    this.footRotationDetector = new FaultDetector(this.config.FOOT_ROTATION_THRESHOLD, this.config.FOOT_ROTATION_THRESHOLD_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
+    this.stanceDetector = new FaultDetector(this.config.STANCE_CHANGE_THRESHOLD, this.config.STANCE_CHANGE_THRESHOLD_OFF, SQUAT_TIMING.FAULT_CONFIRM_MS, SQUAT_TIMING.FAULT_CLEAR_MS);
   }
 
   reset() {
     this.state = 'INITIALIZING';
-    this.frameCounter = 0;
+    this.stateEnteredAt = null;
     this.repCount = 0;
     this.minAngle = 180;
     this.prevAngle = 180;
@@ -235,6 +445,29 @@ export class SquatMechanics {
     this.hipShiftSide = 'NONE';
     this.repHadAsymmetry = false;
     this.repHadHipShift = false;
+
+    this.cameraView = this.viewSetting === 'AUTO' ? 'FRONT' : this.viewSetting;
+    this.viewRatioSmoother.reset();
+    this.nearSide = 'LEFT';
+    this.resetSagittalFlags();
+
+    [this.heelRiseSmoothers, this.footYawSmoothers].forEach(smoothers => {
+        smoothers.LEFT.reset();
+        smoothers.RIGHT.reset();
+    });
+    this.stanceWidthSmoother.reset();
+    this.heelRiseBaseline = { LEFT: 0, RIGHT: 0 };
+    this.footYawBaseline = { LEFT: null, RIGHT: null };
+    this.stanceWidthBaseline = null;
+    this.footBaselineStartedAt = null;
+    this.footBaselineCalibrated = false;
+    this.standingPeakAngle = 0;
+    this.resetFootFlags();
+    this.tempoTracker.reset();
+    this.velocityTracker.reset();
+    this.uprightPose = null;
+    this.fastestVelocity = 0;
+    this.velocityStatus = undefined;
     
     this.angleSmoother.reset();
     this.torsoAngleSmoother.reset();
@@ -244,105 +477,297 @@ export class SquatMechanics {
     this.valgusDetector.reset();
     this.leanDetector.reset();
     this.hipShiftDetector.reset();
-    this.baselineFrameCount = 0;
+    this.baselineStartedAt = null;
     this.baselineCalibrated = false;
     
     this.baselineRatio = 1.0;
     this.baselineKneeY = 0.8;
     this.lastRepScore = 0;
     this.lastRepFaults = [];
+    this.lastRepBreakdown = [];
+    // The log is never mutated in place (see `updateLastRep`), so states already
+    // handed out keep the log they were built with
+    this.repLog = [];
     
     // Reset Feedback
-    this.feedbackLockUntil = 0;
-    this.feedbackPriority = 0;
-    this.feedbackMessage = "STAND STRAIGHT";
-    this.feedbackColor = "#3B82F6";
-    this.lastFeedback = "STAND STRAIGHT";
-    this.lastColor = "#3B82F6";
-  }
-
-  /**
-   * Sets feedback with a specific priority and duration.
-   * Higher priority overrides lower priority.
-   * Same priority overrides if the message is different or to extend duration.
-   */
-  private setPriorityFeedback(message: string, color: string, priority: number, durationMs: number) {
-    const now = Date.now();
-    
-    // Check if we can override
-    // 1. If currently locked by higher priority, ignore.
-    if (now < this.feedbackLockUntil && priority < this.feedbackPriority) {
-        return;
-    }
-    
-    // 2. If same priority, or higher, or lock expired -> Apply
-    this.feedbackMessage = message;
-    this.feedbackColor = color;
-    this.feedbackPriority = priority;
-    this.feedbackLockUntil = now + durationMs;
+    this.feedback.reset();
   }
 
-  private calculateRepScore(): { score: number, faults: string[] } {
-    let score = 100;
-    const faults: string[] = [];
+  private calculateRepScore(): RepScore {
+    const faults: FaultOccurrence<SquatFault>[] = [];
 
-    if (this.minAngle > C.PARALLEL_ANGLE) {
-        score -= 50;
-        faults.push("GO DEEPER");
+    if (this.cameraView === 'SIDE') {
+        if (!this.repHipBelowKnee) faults.push({ fault: 'HIP_DEPTH' });
+        if (this.repHadShinFault) faults.push({ fault: 'SHIN_ANGLE', severity: this.maxShinAngle });
+    } else if (this.minAngle > this.config.PARALLEL_ANGLE) {
+        faults.push({ fault: 'DEPTH', severity: this.minAngle - this.config.PARALLEL_ANGLE });
     }
     if (this.repHadValgus) {
-        score -= 20;
-        faults.push("KNEES IN");
+        faults.push({ fault: 'VALGUS' });
     }
     
-    if (this.repHadAsymmetry) {
-        if (this.maxLegAngleDiff > C.ASYMMETRY_THRESHOLD_CRIT) {
-            score -= 20;
-            faults.push(`IMBALANCE ${this.asymmetrySide === 'LEFT' ? 'L' : 'R'}`);
-        } else if (this.maxLegAngleDiff > C.ASYMMETRY_THRESHOLD_WARN) {
-            score -= 10;
-            faults.push("ASYMMETRY");
-        }
+    if (this.repHadAsymmetry && this.maxLegAngleDiff > this.config.ASYMMETRY_THRESHOLD_WARN) {
+        const label = this.maxLegAngleDiff > this.config.ASYMMETRY_THRESHOLD_CRIT
+            ? `IMBALANCE ${this.asymmetrySide === 'LEFT' ? 'L' : 'R'}`
+            : undefined;
+        faults.push({ fault: 'ASYMMETRY', severity: this.maxLegAngleDiff, label });
     }
 
     if (this.repHadHipShift) {
-        score -= 15;
-        faults.push("HIP SHIFT");
+        faults.push({ fault: 'HIP_SHIFT' });
     }
 
     if (this.repHadLeanFault) {
-        if (this.maxLeanExcess > C.LEAN_THRESHOLD_CRIT) {
-             score -= 25; 
-             faults.push("EXCESSIVE LEAN");
+        if (this.maxLeanExcess > this.config.LEAN_THRESHOLD_CRIT) {
+             faults.push({ fault: 'LEAN', severity: this.maxLeanExcess, label: "EXCESSIVE LEAN" });
         } else if (this.leanFaultType === 'FALLING') {
-             score -= 20;
-             faults.push("CHEST FALLING");
+             faults.push({ fault: 'CHEST_FALLING' });
         } else if (this.leanFaultType === 'MISMATCH') {
-             score -= 15;
-             faults.push("HIP DOMINANT");
+             faults.push({ fault: 'HIP_DOMINANT' });
         } else {
-             score -= 10; 
-             faults.push("CHEST UP");
+             faults.push({ fault: 'LEAN', severity: this.maxLeanExcess });
         }
     }
     if (this.speedFault) {
-        score -= 15;
-        faults.push("TOO FAST");
+        faults.push({ fault: 'SPEED' });
     }
+    if (this.repHadHeelLift) faults.push({ fault: 'HEEL_LIFT', severity: this.maxHeelRise });
+    if (this.repHadFootRotation) faults.push({ fault: 'FOOT_ROTATION', severity: this.maxFootRotation });
+    if (this.repHadStanceShift) faults.push({ fault: 'STANCE_SHIFT' });
+
+    return scoreRep(this.rubric, faults);
+  }
 
-    return { 
-        score: Math.max(0, score), 
-        faults 
+  /**
+   * Scores the rep that just finished and appends it to the rep log.
+   */
+  private recordRep(now: number): RepRecord {
+    const { score, faults, breakdown } = this.calculateRepScore();
+    this.lastRepScore = score;
+    this.lastRepFaults = faults;
+    this.lastRepBreakdown = breakdown;
+    // The standing pause before the first rep is set-up, not tempo
+    this.tempoTracker.finishRep(this.repCount > 1);
+    this.velocityTracker.finishRep();
+
+    const record: RepRecord = {
+        repNumber: this.repCount,
+        startedAt: this.descentStartTime,
+        endedAt: now,
+        descentMs: this.ascentStartTime - this.descentStartTime,
+        ascentMs: now - this.ascentStartTime,
+        minAngle: this.minAngle,
+        score,
+        faults,
+        scoreBreakdown: breakdown,
+        maxLeanExcess: this.maxLeanExcess,
+        maxLegAngleDiff: this.maxLegAngleDiff,
+        asymmetrySide: this.asymmetrySide,
+        hipShiftSide: this.repHadHipShift ? this.hipShiftSide : 'NONE',
+        maxShinAngle: this.cameraView === 'SIDE' ? this.maxShinAngle : undefined,
+        maxHeelRise: this.footBaselineCalibrated ? this.maxHeelRise : undefined,
+        maxFootRotation: this.footBaselineCalibrated ? this.maxFootRotation : undefined,
     };
+    this.repLog = [...this.repLog, record];
+    return record;
   }
 
-  update(rawLandmarks: Landmark[]): ExerciseState {
-    const leftLegVisible = areLandmarksVisible(rawLandmarks, [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE], C.VISIBILITY_MIN);
-    const rightLegVisible = areLandmarksVisible(rawLandmarks, [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE], C.VISIBILITY_MIN);
+  /**
+   * Replaces the last rep with an updated copy in a new log array.
+   */
+  private updateLastRep(changes: Partial<RepRecord>) {
+    const rep = this.repLog[this.repLog.length - 1];
+    this.repLog = [...this.repLog.slice(0, -1), { ...rep, ...changes }];
+  }
+
+  /**
+   * Fills in the tempo of the last rep once its concentric phase is over,
+   * which is after the rep was counted.
+   */
+  private recordRepTempo(tempo: RepTempo | null) {
+    if (!tempo || this.repLog.length === 0) return;
+    this.updateLastRep({ tempo, tempoScore: this.tempo ? scoreTempo(tempo, this.tempo) : undefined });
+  }
+
+  /**
+   * Fills in the velocity of the last rep and compares it with the fastest rep
+   * of the set. Cues the last rep when the next one is on course to pass the
+   * loss threshold, judged from the loss added by this rep.
+   */
+  private recordRepVelocity(velocity: RepVelocity | null, now: number) {
+    if (!velocity || this.repLog.length === 0) return;
+    const measuredBefore = this.velocityStatus !== undefined;
+    const previousLoss = this.velocityStatus?.loss ?? 0;
+
+    this.fastestVelocity = Math.max(this.fastestVelocity, velocity.meanVelocity);
+    const loss = velocityLoss(this.fastestVelocity, velocity.meanVelocity);
+    this.updateLastRep({ meanVelocity: velocity.meanVelocity, peakVelocity: velocity.peakVelocity, velocityLoss: loss });
+
+    const stopSet = loss >= this.config.VELOCITY_LOSS_THRESHOLD;
+    this.velocityStatus = { ...velocity, loss, stopSet };
+    if (stopSet) {
+        this.feedback.set("STOP SET", "#EF4444", PRIORITY.SUCCESS, 2000, now);
+    } else if (measuredBefore && loss + (loss - previousLoss) >= this.config.VELOCITY_LOSS_THRESHOLD) {
+        this.feedback.set("LAST REP", "#F59E0B", PRIORITY.SUCCESS, 2000, now);
+    }
+  }
+
+  /**
+   * Closes the previous rep's tempo and velocity when a new descent starts
+   * before the client got back to the top.
+   */
+  private settlePendingRep(now: number) {
+    this.recordRepTempo(this.tempoTracker.settle());
+    this.recordRepVelocity(this.velocityTracker.settle(), now);
+  }
+
+  private resetSagittalFlags() {
+    this.hipBelowKnee = false;
+    this.repHipBelowKnee = false;
+    this.shinAngle = 0;
+    this.maxShinAngle = 0;
+    this.shinFault = false;
+    this.repHadShinFault = false;
+    this.shinDetector.reset();
+  }
 
-    const { landmarks, isEstimated } = this.stabilizer.process(
+  private resetFootFlags() {
+    this.feet = { heelLift: false, rotation: false, stanceShift: false };
+    this.repHadHeelLift = false;
+    this.repHadFootRotation = false;
+    this.repHadStanceShift = false;
+    this.maxHeelRise = 0;
+    this.maxFootRotation = 0;
+    this.heelLiftDetector.reset();
+    this.footRotationDetector.reset();
+    this.stanceDetector.reset();
+  }
+
+  /**
+   * Heel lift, foot rotation and stance width against a baseline taken while
+   * standing. Side-on only the near foot is checked and stance width cannot be
+   * seen; foot rotation needs depth, so there it relies on world landmarks.
+   */
+  private updateFootStability(landmarks: Landmark[], world: Landmark[] | null, sideView: boolean, angle: number, now: number) {
+    const sides: BodySide[] = sideView ? [this.nearSide] : ['LEFT', 'RIGHT'];
+    const visibleSides = sides.filter(side => areLandmarksVisible(landmarks, [FEET[side].heel, FEET[side].toe], this.config.VISIBILITY_MIN));
+    const rotationLandmarks = world ?? (sideView ? null : landmarks);
+    const stanceVisible = !sideView && visibleSides.length === 2;
+
+    const heelRise = (side: BodySide) => calculateHeelRise(landmarks, landmarks[FEET[side].heel], landmarks[FEET[side].toe]);
+    const footYaw = (side: BodySide) => calculateFootYaw(rotationLandmarks![FEET[side].heel], rotationLandmarks![FEET[side].toe]);
+    const stanceWidth = () => getNormalizedDistance(landmarks, landmarks[POSE_LANDMARKS.LEFT_ANKLE], landmarks[POSE_LANDMARKS.RIGHT_ANKLE]);
+
+    if (this.state === 'NEUTRAL' || this.state === 'INITIALIZING') {
+        this.standingPeakAngle = Math.max(this.standingPeakAngle, angle);
+        if (visibleSides.length > 0 && angle >= this.standingPeakAngle - STANDING_ANGLE_WINDOW) {
+            if (this.footBaselineStartedAt === null) this.footBaselineStartedAt = now;
+            visibleSides.forEach(side => {
+                this.heelRiseBaseline[side] = this.heelRiseSmoothers[side].update(heelRise(side), now);
+                if (rotationLandmarks) this.footYawBaseline[side] = this.footYawSmoothers[side].update(footYaw(side), now);
+            });
+            if (stanceVisible) this.stanceWidthBaseline = this.stanceWidthSmoother.update(stanceWidth(), now);
+            if (now - this.footBaselineStartedAt > SQUAT_TIMING.FOOT_BASELINE_MS) this.footBaselineCalibrated = true;
+        }
+
+        this.heelLiftDetector.reset();
+        this.footRotationDetector.reset();
+        this.stanceDetector.reset();
+        this.feet = { heelLift: false, rotation: false, stanceShift: false };
+        return;
+    }
+    // Working: the next standing phase looks for a new peak
+    this.standingPeakAngle = 0;
+    if (!this.footBaselineCalibrated || visibleSides.length === 0) return;
+
+    const lift = Math.max(...visibleSides.map(side => heelRise(side) - this.heelRiseBaseline[side]));
+    this.maxHeelRise = Math.max(this.maxHeelRise, lift);
+    this.feet.heelLift = this.heelLiftDetector.update(lift, now);
+    if (this.feet.heelLift) {
+        this.repHadHeelLift = true;
+        this.feedback.set("HEELS DOWN", "#EF4444", PRIORITY.FAULT, 1000, now);
+    }
+
+    const rotationSides = visibleSides.filter(side => this.footYawBaseline[side] !== null);
+    if (rotationLandmarks && rotationSides.length > 0) {
+        const rotation = Math.max(...rotationSides.map(side => Math.abs(footYaw(side) - this.footYawBaseline[side]!)));
+        this.maxFootRotation = Math.max(this.maxFootRotation, rotation);
+        this.feet.rotation = this.footRotationDetector.update(rotation, now);
+        if (this.feet.rotation) {
+            this.repHadFootRotation = true;
+            this.feedback.set("FEET STILL", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        }
+    }
+
+    if (stanceVisible && this.stanceWidthBaseline !== null) {
+        this.feet.stanceShift = this.stanceDetector.update(Math.abs(stanceWidth() - this.stanceWidthBaseline), now);
+        if (this.feet.stanceShift) {
+            this.repHadStanceShift = true;
+            this.feedback.set("FEET PLANTED", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        }
+    }
+  }
+
+  /**
+   * Follows the camera view between reps when it is not declared. The view is
+   * never switched mid-rep, so a rep is always scored by one set of rules.
+   */
+  private updateCameraView(landmarks: Landmark[], now: number) {
+    if (this.viewSetting !== 'AUTO') return;
+    if (this.state !== 'INITIALIZING' && this.state !== 'NEUTRAL') return;
+    if (!areLandmarksVisible(landmarks, [11, 12, 23, 24], this.config.VISIBILITY_MIN)) return;
+
+    const ratio = this.viewRatioSmoother.update(calculateFrontalWidthRatio(landmarks), now);
+    if (this.cameraView === 'FRONT' && ratio < CAMERA_VIEW.SIDE_BELOW) this.cameraView = 'SIDE';
+    else if (this.cameraView === 'SIDE' && ratio > CAMERA_VIEW.FRONT_ABOVE) this.cameraView = 'FRONT';
+  }
+
+  /**
+   * Side view: the leg nearest the camera is the one MediaPipe sees best.
+   */
+  private detectNearSide(landmarks: Landmark[]): BodySide {
+    const visibility = (leg: number[]) => leg.reduce((acc, i) => acc + (landmarks[i]?.visibility ?? 0), 0);
+    return visibility(LEFT_LEG) >= visibility(RIGHT_LEG) ? 'LEFT' : 'RIGHT';
+  }
+
+  /**
+   * Forward shin inclination of one leg. Side-on, the image plane is the sagittal plane.
+   */
+  private nearShinAngle(points: Landmark[], side: BodySide): number {
+    const [, knee, ankle] = side === 'LEFT' ? LEFT_LEG : RIGHT_LEG;
+    return angleFromVertical(points[ankle], points[knee]);
+  }
+
+  /**
+   * Mean shin inclination from vertical in the image plane (front view: lateral only).
+   */
+  private shinAngle2D(landmarks: Landmark[]): number {
+    const midKneeX = (landmarks[POSE_LANDMARKS.LEFT_KNEE].x + landmarks[POSE_LANDMARKS.RIGHT_KNEE].x) / 2;
+    const midKneeY = (landmarks[POSE_LANDMARKS.LEFT_KNEE].y + landmarks[POSE_LANDMARKS.RIGHT_KNEE].y) / 2;
+    const midAnkleX = (landmarks[POSE_LANDMARKS.LEFT_ANKLE].x + landmarks[POSE_LANDMARKS.RIGHT_ANKLE].x) / 2;
+    const midAnkleY = (landmarks[POSE_LANDMARKS.LEFT_ANKLE].y + landmarks[POSE_LANDMARKS.RIGHT_ANKLE].y) / 2;
+    const shinVert = midAnkleY - midKneeY;
+    const shinHorz = Math.abs(midKneeX - midAnkleX);
+    return shinVert > 0.01 ? Math.atan(shinHorz / shinVert) * (180 / Math.PI) : 0;
+  }
+
+  /**
+   * Mean shin inclination from vertical in 3D, including forward knee travel.
+   */
+  private shinAngle3D(world: Landmark[]): number {
+    const left = angleFromVertical(world[POSE_LANDMARKS.LEFT_ANKLE], world[POSE_LANDMARKS.LEFT_KNEE]);
+    const right = angleFromVertical(world[POSE_LANDMARKS.RIGHT_ANKLE], world[POSE_LANDMARKS.RIGHT_KNEE]);
+    return (left + right) / 2;
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now(), worldLandmarks: Landmark[] | null = null): ExerciseState {
+    const leftLegVisible = areLandmarksVisible(rawLandmarks, [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE], this.config.VISIBILITY_MIN);
+    const rightLegVisible = areLandmarksVisible(rawLandmarks, [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE], this.config.VISIBILITY_MIN);
+
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(
         rawLandmarks, 
-        leftLegVisible || rightLegVisible
+        leftLegVisible || rightLegVisible,
+        timestamp
     );
 
     if (!landmarks) {
@@ -359,13 +784,24 @@ export class SquatMechanics {
             repScore: this.lastRepScore,
             minAngleReached: 180,
             depthHit: false,
-            faults: []
+            faults: [],
+            scoreBreakdown: [],
+            repLog: this.repLog
         };
     }
 
     // --- 1. CALCULATE METRICS FIRST (Moved up for State Machine) ---
+    this.updateCameraView(landmarks, timestamp);
+    const sideView = this.cameraView === 'SIDE';
+    if (sideView && !isEstimated) this.nearSide = this.detectNearSide(rawLandmarks);
+    const nearLegVisible = this.nearSide === 'LEFT' ? leftLegVisible : rightLegVisible;
     
     // Angle Calc
+    // World landmarks give true joint angles, free of camera perspective and
+    // aspect distortion. They are not stabilized, so estimated frames stay on the image data.
+    const world = hasWorldLandmarks(worldLandmarks) && !isEstimated ? worldLandmarks : null;
+    const angleLandmarks = world ?? landmarks;
+    const trackingSource: TrackingSource = world ? 'WORLD_3D' : 'IMAGE_2D';
     let rawAngle = 180;
     let trackingMode: TrackingMode = 'OPTIMAL';
     let leftAngle = 180;
@@ -375,95 +811,121 @@ export class SquatMechanics {
         trackingMode = 'ESTIMATED';
         leftAngle = calculateAngle(landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.LEFT_KNEE], landmarks[POSE_LANDMARKS.LEFT_ANKLE]);
         rightAngle = calculateAngle(landmarks[POSE_LANDMARKS.RIGHT_HIP], landmarks[POSE_LANDMARKS.RIGHT_KNEE], landmarks[POSE_LANDMARKS.RIGHT_ANKLE]);
-        rawAngle = (leftAngle + rightAngle) / 2;
+        // Prefer a leg that was actually measured over one the stabilizer is guessing
+        const leftGuessed = LEFT_LEG.some(i => estimated[i]);
+        const rightGuessed = RIGHT_LEG.some(i => estimated[i]);
+        if (leftGuessed && !rightGuessed) rawAngle = rightAngle;
+        else if (rightGuessed && !leftGuessed) rawAngle = leftAngle;
+        else rawAngle = (leftAngle + rightAngle) / 2;
     } 
+    else if (sideView && nearLegVisible) {
+        // Side-on the far leg is mostly hidden behind the near one, so only the near leg counts
+        const [hip, knee, ankle] = this.nearSide === 'LEFT' ? LEFT_LEG : RIGHT_LEG;
+        rawAngle = calculateAngle(angleLandmarks[hip], angleLandmarks[knee], angleLandmarks[ankle]);
+        leftAngle = rawAngle;
+        rightAngle = rawAngle;
+        trackingMode = 'OPTIMAL';
+
+        if (this.state === 'NEUTRAL' || this.state === 'INITIALIZING') {
+             this.baselineKneeY = this.kneeHeightSmoother.update(landmarks[knee].y, timestamp);
+        }
+    }
     else if (leftLegVisible && rightLegVisible) {
-        leftAngle = calculateAngle(landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.LEFT_KNEE], landmarks[POSE_LANDMARKS.LEFT_ANKLE]);
-        rightAngle = calculateAngle(landmarks[POSE_LANDMARKS.RIGHT_HIP], landmarks[POSE_LANDMARKS.RIGHT_KNEE], landmarks[POSE_LANDMARKS.RIGHT_ANKLE]);
+        leftAngle = calculateAngle(angleLandmarks[POSE_LANDMARKS.LEFT_HIP], angleLandmarks[POSE_LANDMARKS.LEFT_KNEE], angleLandmarks[POSE_LANDMARKS.LEFT_ANKLE]);
+        rightAngle = calculateAngle(angleLandmarks[POSE_LANDMARKS.RIGHT_HIP], angleLandmarks[POSE_LANDMARKS.RIGHT_KNEE], angleLandmarks[POSE_LANDMARKS.RIGHT_ANKLE]);
         rawAngle = (leftAngle + rightAngle) / 2;
         trackingMode = 'OPTIMAL';
         
         if (this.state === 'NEUTRAL' || this.state === 'INITIALIZING') {
              const avgKneeY = (landmarks[POSE_LANDMARKS.LEFT_KNEE].y + landmarks[POSE_LANDMARKS.RIGHT_KNEE].y) / 2;
-             this.baselineKneeY = this.kneeHeightSmoother.update(avgKneeY);
+             this.baselineKneeY = this.kneeHeightSmoother.update(avgKneeY, timestamp);
         }
     } 
     else if (leftLegVisible || rightLegVisible) {
         const offset = leftLegVisible ? 0 : 1; 
-        rawAngle = calculateAngle(landmarks[23+offset], landmarks[25+offset], landmarks[27+offset]);
+        rawAngle = calculateAngle(angleLandmarks[23+offset], angleLandmarks[25+offset], angleLandmarks[27+offset]);
         trackingMode = 'DEGRADED';
         leftAngle = rawAngle;
         rightAngle = rawAngle;
     }
-    const angle = this.angleSmoother.update(rawAngle);
+    const angle = this.angleSmoother.update(rawAngle, timestamp);
+    const standing = this.state === 'NEUTRAL' || this.state === 'INITIALIZING';
+    this.recordRepTempo(this.tempoTracker.update(angle, timestamp, standing));
+
+    // Hip height above the bottom of the frame for velocity, in torso lengths of
+    // the last upright pose (a leaning torso looks shorter to a front camera)
+    if (standing && angle >= this.standingPeakAngle - STANDING_ANGLE_WINDOW) this.uprightPose = landmarks;
+    if (this.uprightPose) {
+        const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+        const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+        const hipCenter = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2, z: 0 };
+        const hipHeight = getNormalizedDistance(this.uprightPose, hipCenter, { x: hipCenter.x, y: 1, z: 0 });
+        this.recordRepVelocity(this.velocityTracker.update(hipHeight, timestamp, standing), timestamp);
+    }
 
     // Torso Angle Calc
-    const torsoVisible = areLandmarksVisible(landmarks, [11, 12, 23, 24], C.VISIBILITY_MIN);
+    const torsoVisible = areLandmarksVisible(landmarks, [11, 12, 23, 24], this.config.VISIBILITY_MIN);
     if (torsoVisible) {
-       const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
-       const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-       const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
-       const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
-
-       const midHipX = (leftHip.x + rightHip.x) / 2;
-       const midHipY = (leftHip.y + rightHip.y) / 2;
-       const midShoulderX = (leftShoulder.x + rightShoulder.x) / 2;
-       const midShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
-
-       const verticalComp = midHipY - midShoulderY;
-       const horizontalComp = Math.abs(midShoulderX - midHipX);
-       let rawTorsoAngle = verticalComp > 0.01 ? Math.atan(horizontalComp / verticalComp) * (180 / Math.PI) : 90;
-       
-       const currentAngle = this.torsoAngleSmoother.update(rawTorsoAngle);
+       const rawTorsoAngle = world ? calculateTorsoLean3D(world) : calculateTorsoLean(landmarks);
+       const currentAngle = this.torsoAngleSmoother.update(rawTorsoAngle, timestamp);
        this.currentTorsoAngle = currentAngle;
     }
 
+    // Side-view depth: hip crease (hip joint center) at or below the top of the knee
+    if (sideView && nearLegVisible) {
+        const [hip, knee] = this.nearSide === 'LEFT' ? LEFT_LEG : RIGHT_LEG;
+        this.hipBelowKnee = landmarks[hip].y >= landmarks[knee].y;
+        this.shinAngle = this.nearShinAngle(world ?? landmarks, this.nearSide);
+    }
+
 
     // --- 2. STATE MACHINE (Transitions & Resets) ---
     // Running this BEFORE Fault Detection ensures flags are reset correctly on transition,
     // and then immediately re-evaluated by Fault Detection in the same frame.
     
-    const now = Date.now();
+    const now = timestamp;
     let instantFeedback = "STAND STRAIGHT";
     let instantColor = "#3B82F6";
     let didFinishRep = false;
     
-    this.frameCounter++;
+    if (this.stateEnteredAt === null) this.stateEnteredAt = now;
+    const timeInState = now - this.stateEnteredAt;
 
     switch (this.state) {
       case 'INITIALIZING':
         instantFeedback = "STAND STRAIGHT";
         this.excessiveLean = false; 
 
-        if (angle > C.STANDING_ANGLE) {
+        if (angle > this.config.STANDING_ANGLE) {
             this.state = 'NEUTRAL';
-            this.frameCounter = 0;
+            this.stateEnteredAt = now;
             instantFeedback = "READY";
         } 
-        else if (angle < C.DESCENT_START_ANGLE) {
+        else if (angle < this.config.DESCENT_START_ANGLE) {
             this.state = 'DESCENDING';
-            this.frameCounter = 0;
+            this.stateEnteredAt = now;
             this.descentStartTime = now;
             this.minAngle = angle;
             instantFeedback = "GO LOWER";
         }
-        else if (this.frameCounter > 30) {
-            if (angle > C.STANDING_ANGLE - 10) { 
+        else if (timeInState > SQUAT_TIMING.CALIBRATION_MS) {
+            if (angle > this.config.STANDING_ANGLE - 10) { 
                  this.state = 'NEUTRAL';
-                 this.frameCounter = 0;
+                 this.stateEnteredAt = now;
                  instantFeedback = "CALIBRATED!";
-                 this.setPriorityFeedback("CALIBRATED!", "#10B981", PRIORITY.SUCCESS, 2000);
+                 this.feedback.set("CALIBRATED!", "#10B981", PRIORITY.SUCCESS, 2000, now);
             }
         }
         break;
 
       case 'NEUTRAL':
-        if (angle < C.DESCENT_START_ANGLE) {
+        if (angle < this.config.DESCENT_START_ANGLE) {
           this.state = 'DESCENDING';
-          this.frameCounter = 0;
+          this.stateEnteredAt = now;
           this.descentStartTime = now;
           this.minAngle = 180;
           this.hitDepth = false;
+          this.settlePendingRep(now);
           
           this.repHadValgus = false;
           this.kneeValgus = false;
@@ -483,6 +945,8 @@ export class SquatMechanics {
           this.repHadAsymmetry = false;
           this.repHadHipShift = false;
           this.hipShiftDetector.reset();
+          this.resetSagittalFlags();
+          this.resetFootFlags();
           
           const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
           const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
@@ -506,25 +970,26 @@ export class SquatMechanics {
         // or re-evaluated flags in next frame cycle for feedback.
         // For Instant Feedback text, we rely on the flags.
         
-        if (angle < C.PARALLEL_ANGLE) {
+        if (sideView ? this.hipBelowKnee : angle < this.config.PARALLEL_ANGLE) {
             this.hitDepth = true;
             instantFeedback = "GOOD DEPTH!";
             instantColor = "#10B981"; 
-            if (angle < C.DEEP_SQUAT_ANGLE) {
+            if (angle < this.config.DEEP_SQUAT_ANGLE) {
                 instantFeedback = "ATG DEEP!";
             }
-            this.setPriorityFeedback(instantFeedback, instantColor, PRIORITY.SUCCESS, 1500);
+            this.feedback.set(instantFeedback, instantColor, PRIORITY.SUCCESS, 1500, now);
         } else {
             instantFeedback = "LOWER...";
             instantColor = "#F59E0B"; 
         }
         
-        if (angle > this.minAngle + C.ASCENT_THRESHOLD && this.minAngle < C.DESCENT_START_ANGLE) {
+        if (angle > this.minAngle + this.config.ASCENT_THRESHOLD && this.minAngle < this.config.DESCENT_START_ANGLE) {
             this.state = 'ASCENDING';
-            this.frameCounter = 0;
+            this.stateEnteredAt = now;
             this.maxAscentAngle = angle; 
+            this.ascentStartTime = now;
             const duration = now - this.descentStartTime;
-            if (duration < C.SPEED_MIN_MS) { 
+            if (duration < this.config.SPEED_MIN_MS) { 
                 this.speedFault = true;
             }
         }
@@ -533,15 +998,14 @@ export class SquatMechanics {
       case 'ASCENDING':
         this.maxAscentAngle = Math.max(this.maxAscentAngle, angle);
         
-        if (angle < C.STANDING_ANGLE && this.frameCounter > 5 && (this.maxAscentAngle - angle) > C.ANGLE_CHANGE_MIN) {
+        if (angle < this.config.STANDING_ANGLE && timeInState > SQUAT_TIMING.PUMP_GUARD_MS && (this.maxAscentAngle - angle) > this.config.ANGLE_CHANGE_MIN) {
             this.state = 'DESCENDING';
-            this.frameCounter = 0;
+            this.stateEnteredAt = now;
             this.repCount++;
             didFinishRep = true;
 
-            const result = this.calculateRepScore();
-            this.lastRepScore = result.score;
-            this.lastRepFaults = result.faults;
+            this.recordRep(now);
+            this.settlePendingRep(now);
 
             this.descentStartTime = now;
             this.minAngle = angle;
@@ -555,11 +1019,13 @@ export class SquatMechanics {
                this.hipCenterXStart = (leftHip.x + rightHip.x) / 2;
             }
             this.maxLegAngleDiff = 0;
+            this.resetSagittalFlags();
+            this.resetFootFlags();
             
             if (!this.hitDepth) {
-                this.setPriorityFeedback("GO LOWER (PUMP)", "#EF4444", PRIORITY.FAULT, 1500);
+                this.feedback.set("GO LOWER (PUMP)", "#EF4444", PRIORITY.FAULT, 1500, now);
             } else {
-                this.setPriorityFeedback("KEEP PUMPING", "#10B981", PRIORITY.SUCCESS, 1500);
+                this.feedback.set("KEEP PUMPING", "#10B981", PRIORITY.SUCCESS, 1500, now);
             }
             this.hitDepth = false;
             this.speedFault = false;
@@ -568,37 +1034,19 @@ export class SquatMechanics {
             instantFeedback = "DRIVE UP";
             instantColor = "#10B981";
 
-            if (angle > C.STANDING_ANGLE) {
+            if (angle > this.config.STANDING_ANGLE) {
                 this.state = 'NEUTRAL';
-                this.frameCounter = 0;
+                this.stateEnteredAt = now;
                 this.repCount++;
                 didFinishRep = true; 
                 
-                const { score, faults } = this.calculateRepScore();
-                this.lastRepScore = score;
-                this.lastRepFaults = faults;
-
-                let repMsg = "";
-                let repColor = "";
-
-                if (score >= 90) {
-                    repMsg = "PERFECT REP!";
-                    repColor = "#10B981"; 
-                } else if (score >= 70) {
-                    repMsg = "GOOD REP";
-                    repColor = "#10B981"; 
-                } else if (score >= 50) {
-                    repMsg = "OKAY - WATCH FORM";
-                    repColor = "#F59E0B"; 
-                } else {
-                    repMsg = "TRY AGAIN";
-                    repColor = "#EF4444"; 
-                }
-                
-                this.setPriorityFeedback(repMsg, repColor, PRIORITY.SUCCESS, 2000);
+                const { score } = this.recordRep(now);
+
+                const verdict = getRepVerdict(score);
+                this.feedback.set(verdict.message, verdict.color, PRIORITY.SUCCESS, 2000, now);
                 
-                instantFeedback = repMsg;
-                instantColor = repColor;
+                instantFeedback = verdict.message;
+                instantColor = verdict.color;
             }
         }
         break;
@@ -609,8 +1057,10 @@ export class SquatMechanics {
     // This ensures flags (repHadValgus, etc.) are calculated for the current state, 
     // even if the state just transitioned in this frame.
     
-    // Knee Valgus
-    if (leftLegVisible && rightLegVisible) {
+    // Knee Valgus (frontal only: side-on the knee widths collapse)
+    if (sideView) {
+        this.kneeValgus = false;
+    } else if (leftLegVisible && rightLegVisible) {
         const leftKnee = landmarks[POSE_LANDMARKS.LEFT_KNEE];
         const rightKnee = landmarks[POSE_LANDMARKS.RIGHT_KNEE];
         const leftAnkle = landmarks[POSE_LANDMARKS.LEFT_ANKLE];
@@ -621,10 +1071,10 @@ export class SquatMechanics {
         const currentRatio = kneeWidth / ankleWidth;
 
         if (this.state === 'NEUTRAL' || this.state === 'INITIALIZING') {
-            this.baselineFrameCount++;
-            this.baselineRatio = this.kneeAnkleRatioBaseline.update(currentRatio);
+            if (this.baselineStartedAt === null) this.baselineStartedAt = now;
+            this.baselineRatio = this.kneeAnkleRatioBaseline.update(currentRatio, now);
             
-            if (this.baselineFrameCount > 20) {
+            if (now - this.baselineStartedAt > SQUAT_TIMING.VALGUS_BASELINE_MS) {
                 this.baselineCalibrated = true;
             }
             
@@ -637,28 +1087,44 @@ export class SquatMechanics {
                 const geometricConfirm = rightKnee.x < (rightAnkle.x - 0.02) || leftKnee.x > (leftAnkle.x + 0.02);
                 
                 const signal = geometricConfirm ? deviation : 0;
-                this.kneeValgus = this.valgusDetector.update(signal);
+                this.kneeValgus = this.valgusDetector.update(signal, now);
                 if (this.kneeValgus) {
                     this.repHadValgus = true;
-                    this.setPriorityFeedback("KNEES OUT!", "#EF4444", PRIORITY.FAULT, 1000);
+                    this.feedback.set("KNEES OUT!", "#EF4444", PRIORITY.FAULT, 1000, now);
                 }
             }
         }
     }
     
-    // Asymmetry & Hip Shift
-    if (trackingMode === 'OPTIMAL' && (this.state === 'DESCENDING' || this.state === 'ASCENDING')) {
+    // Foot Stability
+    this.updateFootStability(landmarks, world, sideView, angle, now);
+
+    // Side-View Depth & Shin Angle
+    if (sideView && nearLegVisible && (this.state === 'DESCENDING' || this.state === 'ASCENDING')) {
+        if (this.hipBelowKnee) this.repHipBelowKnee = true;
+        this.maxShinAngle = Math.max(this.maxShinAngle, this.shinAngle);
+        this.shinFault = this.shinDetector.update(this.shinAngle, now);
+        if (this.shinFault) {
+            this.repHadShinFault = true;
+            this.feedback.set("SIT BACK", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        }
+    } else {
+        this.shinFault = false;
+    }
+
+    // Asymmetry & Hip Shift (frontal only)
+    if (!sideView && trackingMode === 'OPTIMAL' && (this.state === 'DESCENDING' || this.state === 'ASCENDING')) {
         const diff = Math.abs(leftAngle - rightAngle);
         if (diff > this.maxLegAngleDiff) {
             this.maxLegAngleDiff = diff;
-            if (diff > C.ASYMMETRY_THRESHOLD_INFO) {
+            if (diff > this.config.ASYMMETRY_THRESHOLD_INFO) {
                  this.asymmetrySide = leftAngle > rightAngle ? 'LEFT' : 'RIGHT';
             }
         }
-        if (this.maxLegAngleDiff > C.ASYMMETRY_THRESHOLD_WARN) {
+        if (this.maxLegAngleDiff > this.config.ASYMMETRY_THRESHOLD_WARN) {
             this.repHadAsymmetry = true;
             const side = this.asymmetrySide === 'LEFT' ? 'L' : 'R';
-            this.setPriorityFeedback(`EVEN OUT ${side}!`, "#F59E0B", PRIORITY.FAULT, 1000);
+            this.feedback.set(`EVEN OUT ${side}!`, "#F59E0B", PRIORITY.FAULT, 1000, now);
         }
 
         const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
@@ -669,11 +1135,11 @@ export class SquatMechanics {
             const normalizedShift = shift / this.hipWidthStart;
             
             // Smoothed Shift Detection
-            if (this.hipShiftDetector.update(normalizedShift)) {
+            if (this.hipShiftDetector.update(normalizedShift, now)) {
                 this.hipShiftDetected = true;
                 this.repHadHipShift = true;
                 this.hipShiftSide = currentHipX > this.hipCenterXStart ? 'RIGHT' : 'LEFT'; 
-                this.setPriorityFeedback("CENTER HIPS!", "#F59E0B", PRIORITY.FAULT, 1000);
+                this.feedback.set("CENTER HIPS!", "#F59E0B", PRIORITY.FAULT, 1000, now);
             } else {
                 this.hipShiftDetected = false;
             }
@@ -692,11 +1158,11 @@ export class SquatMechanics {
        let isFaulty = false;
        let detectedFaultType: 'NONE' | 'STATIC' | 'FALLING' | 'MISMATCH' | 'INSTABILITY' = 'NONE';
        
-       const isStaticFault = this.leanDetector.update(excessLean);
+       const isStaticFault = this.leanDetector.update(excessLean, now);
        
        // Falling Lean Check (Only relevant in Descending)
        if (this.state === 'DESCENDING') {
-            if (this.currentTorsoAngle - this.startDescentTorsoAngle > C.LEAN_DESCENT_CHANGE) {
+            if (this.currentTorsoAngle - this.startDescentTorsoAngle > this.config.LEAN_DESCENT_CHANGE) {
                 detectedFaultType = 'FALLING';
                 isFaulty = true;
             }
@@ -706,12 +1172,12 @@ export class SquatMechanics {
        if (isStaticFault) {
            detectedFaultType = 'STATIC';
            isFaulty = true;
-       } else if (excessLean > C.LEAN_THRESHOLD_INFO) {
+       } else if (excessLean > this.config.LEAN_THRESHOLD_INFO) {
            this.leanInfo = true;
        }
 
        // Priority 2: INSTABILITY
-       if (Math.abs(this.currentTorsoAngle - this.prevTorsoAngle) > C.LEAN_SUDDEN_CHANGE) {
+       if (Math.abs(this.currentTorsoAngle - this.prevTorsoAngle) > this.config.LEAN_SUDDEN_CHANGE) {
            if (!isFaulty) { 
                detectedFaultType = 'INSTABILITY';
                isFaulty = true;
@@ -719,16 +1185,10 @@ export class SquatMechanics {
        }
 
        // Priority 3: MISMATCH
-       if (leftLegVisible && rightLegVisible) { 
-            const midKneeX = (landmarks[POSE_LANDMARKS.LEFT_KNEE].x + landmarks[POSE_LANDMARKS.RIGHT_KNEE].x) / 2;
-            const midKneeY = (landmarks[POSE_LANDMARKS.LEFT_KNEE].y + landmarks[POSE_LANDMARKS.RIGHT_KNEE].y) / 2;
-            const midAnkleX = (landmarks[POSE_LANDMARKS.LEFT_ANKLE].x + landmarks[POSE_LANDMARKS.RIGHT_ANKLE].x) / 2;
-            const midAnkleY = (landmarks[POSE_LANDMARKS.LEFT_ANKLE].y + landmarks[POSE_LANDMARKS.RIGHT_ANKLE].y) / 2;
-            const shinVert = midAnkleY - midKneeY;
-            const shinHorz = Math.abs(midKneeX - midAnkleX);
-            const shinAngle = shinVert > 0.01 ? Math.atan(shinHorz / shinVert) * (180 / Math.PI) : 0;
+       if (sideView ? nearLegVisible : leftLegVisible && rightLegVisible) { 
+            const shinAngle = sideView ? this.shinAngle : world ? this.shinAngle3D(world) : this.shinAngle2D(landmarks);
             
-            if ((this.currentTorsoAngle - shinAngle) > C.SHIN_TORSO_DEVIATION) {
+            if ((this.currentTorsoAngle - shinAngle) > this.config.SHIN_TORSO_DEVIATION) {
                 if (!isFaulty) {
                     detectedFaultType = 'MISMATCH';
                     isFaulty = true;
@@ -742,38 +1202,43 @@ export class SquatMechanics {
            this.repHadLeanFault = true;
            
            if (this.leanFaultType === 'FALLING') {
-                this.setPriorityFeedback("CONTROL CHEST!", "#EF4444", PRIORITY.FAULT, 1000);
+                this.feedback.set("CONTROL CHEST!", "#EF4444", PRIORITY.FAULT, 1000, now);
             } else if (this.leanFaultType === 'MISMATCH') {
-                this.setPriorityFeedback("ALIGN SHINS!", "#F59E0B", PRIORITY.FAULT, 1000);
-            } else if (excessLean > C.LEAN_THRESHOLD_CRIT) {
-                this.setPriorityFeedback("CHEST UP NOW!", "#EF4444", PRIORITY.FAULT, 1000);
+                this.feedback.set("ALIGN SHINS!", "#F59E0B", PRIORITY.FAULT, 1000, now);
+            } else if (excessLean > this.config.LEAN_THRESHOLD_CRIT) {
+                this.feedback.set("CHEST UP NOW!", "#EF4444", PRIORITY.FAULT, 1000, now);
             } else {
-                this.setPriorityFeedback("CHEST UP", "#F59E0B", PRIORITY.FAULT, 1000);
+                this.feedback.set("CHEST UP", "#F59E0B", PRIORITY.FAULT, 1000, now);
             }
        } else {
            this.excessiveLean = false;
            if (this.leanInfo) {
-                this.setPriorityFeedback("WATCH LEAN", "#60A5FA", PRIORITY.HINT, 500);
+                this.feedback.set("WATCH LEAN", "#60A5FA", PRIORITY.HINT, 500, now);
            }
        }
        this.prevTorsoAngle = this.currentTorsoAngle;
     }
 
+    // Tempo Coaching (prescribed tempo only): pace the descent, then hold the bottom
+    if (this.tempo && this.state === 'DESCENDING') {
+        if (this.hitDepth) {
+            if (this.tempoTracker.shouldHold(this.tempo, angle, this.minAngle, now)) {
+                this.feedback.set("HOLD", "#3B82F6", PRIORITY.SUCCESS, 300, now);
+            }
+        } else {
+            // The last rep's depth is the best guess for where this one ends. Before
+            // that a deep guess, which can only under-call a rushed descent.
+            const expectedBottom = this.repLog.length > 0 ? this.repLog[this.repLog.length - 1].minAngle : this.config.DEEP_SQUAT_ANGLE;
+            if (this.tempoTracker.isDescentTooFast(this.tempo, angle, expectedBottom, now)) {
+                this.feedback.set("SLOWER DOWN", "#F59E0B", PRIORITY.FAULT, 1000, now);
+            }
+        }
+    }
+
     this.prevAngle = angle;
     
     // --- FINAL FEEDBACK SELECTION ---
-    let finalFeedback = instantFeedback;
-    let finalColor = instantColor;
-    
-    if (now < this.feedbackLockUntil) {
-        finalFeedback = this.feedbackMessage;
-        finalColor = this.feedbackColor;
-    } else {
-        this.feedbackPriority = PRIORITY.STATE;
-    }
-    
-    this.lastFeedback = finalFeedback;
-    this.lastColor = finalColor;
+    const { message: finalFeedback, color: finalColor } = this.feedback.resolve(instantFeedback, instantColor, now);
 
     return {
         phase: this.state,
@@ -784,18 +1249,31 @@ export class SquatMechanics {
         isGoodRep: this.lastRepScore >= 70, 
         didFinishRep,
         trackingMode,
+        trackingSource,
+        cameraView: this.cameraView,
         visualContext: {
             valgus: this.kneeValgus, 
             baselineKneeY: this.baselineKneeY,
             isDeep: this.hitDepth,
             lean: this.excessiveLean,
             hipShift: this.hipShiftDetected,
-            asymmetry: this.maxLegAngleDiff > C.ASYMMETRY_THRESHOLD_WARN
+            asymmetry: this.maxLegAngleDiff > this.config.ASYMMETRY_THRESHOLD_WARN,
+            estimatedJoints: estimated,
+            sagittal: sideView ? {
+                side: this.nearSide,
+                hipBelowKnee: this.hipBelowKnee,
+                shinAngle: this.shinAngle,
+                shinFault: this.shinFault
+            } : undefined,
+            feet: this.footBaselineCalibrated ? { ...this.feet } : undefined
         },
         repScore: this.lastRepScore,
         minAngleReached: this.minAngle,
         depthHit: this.hitDepth,
-        faults: this.lastRepFaults
+        faults: this.lastRepFaults,
+        scoreBreakdown: this.lastRepBreakdown,
+        repLog: this.repLog,
+        velocity: this.velocityStatus
     };
   }
 }
@@ -0,0 +1,59 @@
+import { CameraViewSetting, ExerciseMetadata, ExerciseType } from '../types';
+import { ExerciseEngine, SquatMechanics, SQUAT_METADATA } from './exerciseLogic';
+import { PushUpMechanics, PUSH_UP_METADATA } from './pushUpLogic';
+import { LungeMechanics, LUNGE_METADATA } from './lungeLogic';
+import { HingeMechanics, HINGE_METADATA } from './hingeLogic';
+import { ClientProfile, DEFAULT_SQUAT_SMOOTHING, resolveSquatConfig, resolveSquatRubric, resolveSquatTempo } from './exerciseConfig';
+import { createPlankEngine, createWallSitEngine, PLANK_METADATA, WALL_SIT_METADATA } from './holdLogic';
+import { RomAssessmentMechanics, ROM_ASSESSMENT_METADATA } from './romAssessment';
+
+interface ExerciseRegistration {
+  metadata: ExerciseMetadata;
+  create: (profile?: ClientProfile, cameraView?: CameraViewSetting) => ExerciseEngine;
+}
+
+// Every ExerciseType must be registered here (enforced by the Record type).
+const REGISTRY: Record<ExerciseType, ExerciseRegistration> = {
+  SQUAT: {
+    metadata: SQUAT_METADATA,
+    create: (profile, cameraView) => {
+      const config = resolveSquatConfig(profile);
+      return new SquatMechanics(config, resolveSquatRubric(profile, config), DEFAULT_SQUAT_SMOOTHING, cameraView, resolveSquatTempo(profile));
+    },
+  },
+  PUSH_UP: { metadata: PUSH_UP_METADATA, create: () => new PushUpMechanics() },
+  LUNGE: { metadata: LUNGE_METADATA, create: () => new LungeMechanics() },
+  HINGE: { metadata: HINGE_METADATA, create: () => new HingeMechanics() },
+  PLANK: { metadata: PLANK_METADATA, create: createPlankEngine },
+  WALL_SIT: { metadata: WALL_SIT_METADATA, create: createWallSitEngine },
+  ROM_ASSESSMENT: { metadata: ROM_ASSESSMENT_METADATA, create: () => new RomAssessmentMechanics() },
+};
+
+export const DEFAULT_EXERCISE: ExerciseType = 'SQUAT';
+
+/**
+ * Creates a fresh engine instance for the given exercise, applying the
+ * client profile's threshold overrides, prescribed tempo and the camera view where the engine supports them.
+ */
+export const createExerciseEngine = (type: ExerciseType, profile?: ClientProfile, cameraView: CameraViewSetting = 'AUTO'): ExerciseEngine => {
+  return REGISTRY[type].create(profile, cameraView);
+};
+
+/**
+ * True for exercise types this build has an engine for (e.g. when reading a
+ * recording made by another version).
+ */
+export const isExerciseType = (value: unknown): value is ExerciseType => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REGISTRY, value);
+};
+
+export const getExerciseMetadata = (type: ExerciseType): ExerciseMetadata => {
+  return REGISTRY[type].metadata;
+};
+
+/**
+ * Lists all registered exercises in declaration order (used by the selector).
+ */
+export const listExercises = (): ExerciseMetadata[] => {
+  return Object.values(REGISTRY).map(entry => entry.metadata);
+};
@@ -98,15 +98,10 @@ export const getDistance = (a: Landmark, b: Landmark): number => {
 };
 
 /**
- * Calculates distance between A and B, normalized by the user's torso size.
- * This ensures the logic works whether the user is 1 meter or 5 meters away.
- * 
- * @param landmarks The full array of pose landmarks
- * @param a Point A
- * @param b Point B
- * @returns Ratio relative to torso height (e.g., 0.5 means half the torso length)
+ * Returns the user's torso length (shoulder to hip, averaged over both sides)
+ * in normalized screen units, or 0 if the torso landmarks are missing.
  */
-export const getNormalizedDistance = (landmarks: Landmark[], a: Landmark, b: Landmark): number => {
+export const getTorsoScale = (landmarks: Landmark[]): number => {
   const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
   const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
   const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
@@ -118,7 +113,20 @@ export const getNormalizedDistance = (landmarks: Landmark[], a: Landmark, b: Lan
   // Calculate Torso Height (Average of left and right side for robustness)
   const leftTorso = magnitude2D(leftShoulder.x - leftHip.x, leftShoulder.y - leftHip.y);
   const rightTorso = magnitude2D(rightShoulder.x - rightHip.x, rightShoulder.y - rightHip.y);
-  const torsoScale = (leftTorso + rightTorso) / 2;
+  return (leftTorso + rightTorso) / 2;
+};
+
+/**
+ * Calculates distance between A and B, normalized by the user's torso size.
+ * This ensures the logic works whether the user is 1 meter or 5 meters away.
+ * 
+ * @param landmarks The full array of pose landmarks
+ * @param a Point A
+ * @param b Point B
+ * @returns Ratio relative to torso height (e.g., 0.5 means half the torso length)
+ */
+export const getNormalizedDistance = (landmarks: Landmark[], a: Landmark, b: Landmark): number => {
+  const torsoScale = getTorsoScale(landmarks);
 
   // Avoid division by zero
   if (torsoScale < 0.01) return 0;
@@ -127,3 +135,124 @@ export const getNormalizedDistance = (landmarks: Landmark[], a: Landmark, b: Lan
   
   return targetDist / torsoScale;
 };
+
+/**
+ * Calculates the torso lean from vertical (0 = upright, 90 = horizontal) using
+ * the mid-shoulder and mid-hip points. Direction-agnostic (always positive).
+ */
+export const calculateTorsoLean = (landmarks: Landmark[]): number => {
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+
+  const midHipX = (leftHip.x + rightHip.x) / 2;
+  const midHipY = (leftHip.y + rightHip.y) / 2;
+  const midShoulderX = (leftShoulder.x + rightShoulder.x) / 2;
+  const midShoulderY = (leftShoulder.y + rightShoulder.y) / 2;
+
+  const verticalComp = midHipY - midShoulderY;
+  const horizontalComp = Math.abs(midShoulderX - midHipX);
+  return verticalComp > 0.01 ? Math.atan(horizontalComp / verticalComp) * (180 / Math.PI) : 90;
+};
+
+/**
+ * Measures a plank-style body line (shoulder -> hip -> ankle).
+ * - deviation: degrees the hip bends away from a straight line (0 = perfectly straight)
+ * - incline: angle of the shoulder-ankle line from horizontal (0 = flat)
+ * - isSagging: hip below the shoulder-ankle line (screen Y grows downward); false = piking
+ */
+export const calculateBodyLine = (
+  shoulder: Landmark,
+  hip: Landmark,
+  ankle: Landmark
+): { deviation: number; incline: number; isSagging: boolean } => {
+  const deviation = 180 - calculateAngle(shoulder, hip, ankle);
+
+  const dx = ankle.x - shoulder.x;
+  const dy = ankle.y - shoulder.y;
+  const incline = Math.atan2(Math.abs(dy), Math.abs(dx)) * (180 / Math.PI);
+
+  let isSagging = false;
+  if (Math.abs(dx) > 0.01) {
+    const lineY = shoulder.y + dy * ((hip.x - shoulder.x) / dx);
+    isSagging = hip.y > lineY;
+  }
+
+  return { deviation, incline, isSagging };
+};
+
+/**
+ * Shoulder and hip width relative to torso length, averaged. About 0.5 when
+ * facing the camera and close to 0 side-on, so it tells the camera view apart.
+ */
+export const calculateFrontalWidthRatio = (landmarks: Landmark[]): number => {
+  const shoulders = getNormalizedDistance(landmarks, landmarks[POSE_LANDMARKS.LEFT_SHOULDER], landmarks[POSE_LANDMARKS.RIGHT_SHOULDER]);
+  const hips = getNormalizedDistance(landmarks, landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.RIGHT_HIP]);
+  return (shoulders + hips) / 2;
+};
+
+/**
+ * Heel height above the foot index (toe), relative to torso length.
+ * Grows when the heel lifts off the floor while the toes stay down.
+ */
+export const calculateHeelRise = (landmarks: Landmark[], heel: Landmark, toe: Landmark): number => {
+  const torsoScale = getTorsoScale(landmarks);
+  if (torsoScale < 0.01) return 0;
+  return (toe.y - heel.y) / torsoScale;
+};
+
+/**
+ * Direction the foot points in the floor plane (x/z), in degrees.
+ * 0 = towards the camera; positive = toe turned towards larger x.
+ */
+export const calculateFootYaw = (heel: Landmark, toe: Landmark): number => {
+  return Math.atan2(toe.x - heel.x, (heel.z ?? 0) - (toe.z ?? 0)) * (180 / Math.PI);
+};
+
+/**
+ * True when MediaPipe supplied a full set of world landmarks for this frame
+ * (replays of older recordings and some backends do not).
+ */
+export const hasWorldLandmarks = (world: Landmark[] | null | undefined): world is Landmark[] => {
+  return !!world && world.length > POSE_LANDMARKS.RIGHT_FOOT_INDEX;
+};
+
+const midpoint3D = (a: Landmark, b: Landmark): Landmark => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+
+/**
+ * Angle in degrees between the segment lower -> upper and straight up (y grows downward).
+ * With world landmarks this is the true 3D inclination, including lean towards the camera.
+ */
+export const angleFromVertical = (lower: Landmark, upper: Landmark): number => {
+  const dx = upper.x - lower.x;
+  const dy = upper.y - lower.y;
+  const dz = (upper.z ?? 0) - (lower.z ?? 0);
+  const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (length === 0) return 0;
+  const cosine = Math.max(-1, Math.min(1, -dy / length));
+  return Math.acos(cosine) * (180 / Math.PI);
+};
+
+/**
+ * Torso lean from vertical in 3D (0 = upright) using world landmarks.
+ * Unlike calculateTorsoLean, forward lean towards a front-facing camera counts.
+ */
+export const calculateTorsoLean3D = (world: Landmark[]): number => {
+  const midHip = midpoint3D(world[POSE_LANDMARKS.LEFT_HIP], world[POSE_LANDMARKS.RIGHT_HIP]);
+  const midShoulder = midpoint3D(world[POSE_LANDMARKS.LEFT_SHOULDER], world[POSE_LANDMARKS.RIGHT_SHOULDER]);
+  return angleFromVertical(midHip, midShoulder);
+};
+
+/**
+ * How far the knee travels past the toe along the foot, in centimeters, from
+ * world landmarks (meters). Measured in the floor plane (x/z); negative = behind the toe.
+ */
+export const kneePastToeCm = (knee: Landmark, heel: Landmark, toe: Landmark): number => {
+  const footX = toe.x - heel.x;
+  const footZ = toe.z - heel.z;
+  const footLength = Math.sqrt(footX * footX + footZ * footZ);
+  if (footLength === 0) return 0;
+  const along = ((knee.x - toe.x) * footX + (knee.z - toe.z) * footZ) / footLength;
+  return along * 100;
+};
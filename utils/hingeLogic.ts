@@ -0,0 +1,348 @@
+
+import { Landmark, TrackingMode, SpineState, ExerciseMetadata } from '../types';
+import { POSE_LANDMARKS, calculateAngle } from './geometry';
+import { MovingAverage, ExponentialMovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
+import { ExerciseEngine, ExerciseState, RepRecord, BodySide, FaultDetector, PriorityFeedback, PRIORITY, getRepVerdict } from './exerciseLogic';
+import { ScoringRubric, FaultOccurrence, FaultPenalty, RepScore, scoreRep } from './scoring';
+
+// Hip Hinge / Deadlift Biomechanics Constants
+// NOTE: Forward torso lean is the goal of a hinge, so there is no lean rule here.
+const C = {
+  STANDING_ANGLE: 165,         // Hip angle (shoulder-hip-knee) at lockout
+  DESCENT_START_ANGLE: 155,
+  DEPTH_ANGLE: 110,            // Hip angle at/below = full hinge
+  ASCENT_THRESHOLD: 4,
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,
+  SPINE_BASELINE_MS: 500,      // Time constant of the standing spine angle the rounding check compares against
+  FAULT_CONFIRM_MS: 150,
+  FAULT_CLEAR_MS: 100,
+  SPEED_MIN_MS: 600,
+
+  // Knee Bend (degrees of knee flexion added since the start of the rep)
+  KNEE_BEND_THRESHOLD_ON: 25,
+  KNEE_BEND_THRESHOLD_OFF: 18,
+
+  // Spine Rounding (degrees lost at the shoulder in the ear-shoulder-hip chain vs standing)
+  ROUNDING_THRESHOLD_ON: 20,
+  ROUNDING_THRESHOLD_OFF: 14,
+};
+
+// Hinge Scoring Rubric
+type HingeFault = 'DEPTH' | 'ROUNDING' | 'KNEE_BEND' | 'SPEED';
+
+const RUBRIC: ScoringRubric<HingeFault> = {
+  DEPTH: { label: 'HINGE DEEPER', penalty: 30 },
+  ROUNDING: { label: 'ROUNDED BACK', penalty: 30 },
+  KNEE_BEND: { label: 'TOO MUCH KNEE', penalty: 20 },
+  SPEED: { label: 'TOO FAST', penalty: 10 },
+};
+
+type HingePhase = 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING';
+
+const CHAIN: Record<BodySide, { ear: number, shoulder: number, hip: number, knee: number, ankle: number }> = {
+  LEFT: {
+    ear: POSE_LANDMARKS.LEFT_EAR,
+    shoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+    hip: POSE_LANDMARKS.LEFT_HIP,
+    knee: POSE_LANDMARKS.LEFT_KNEE,
+    ankle: POSE_LANDMARKS.LEFT_ANKLE,
+  },
+  RIGHT: {
+    ear: POSE_LANDMARKS.RIGHT_EAR,
+    shoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+    hip: POSE_LANDMARKS.RIGHT_HIP,
+    knee: POSE_LANDMARKS.RIGHT_KNEE,
+    ankle: POSE_LANDMARKS.RIGHT_ANKLE,
+  },
+};
+
+export const HINGE_METADATA: ExerciseMetadata = {
+  type: 'HINGE',
+  name: 'Hip Hinge',
+  mode: 'REPS',
+  description: 'Deadlift / RDL pattern with hip-angle reps, knee-bend and spine rounding checks.',
+  primaryJoint: 'Hip',
+  angleHint: '180 is standing tall, ~90 is torso parallel to floor',
+};
+
+export class HingeMechanics implements ExerciseEngine {
+  readonly metadata = HINGE_METADATA;
+
+  private state: HingePhase = 'INITIALIZING';
+  private repCount: number = 0;
+
+  // Signal Processing
+  private angleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private kneeAngleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private spineAngleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private spineBaseline = new ExponentialMovingAverage(C.SPINE_BASELINE_MS);
+  private stabilizer = new LandmarkStabilizer();
+
+  // Rep Tracking
+  private minAngle: number = 180;
+  private hitDepth: boolean = false;
+  private descentStartTime: number = 0;
+  private ascentStartTime: number = 0;
+  private startKneeAngle: number = 180;
+  private side: BodySide = 'LEFT'; // Chain being measured; locked while a rep is in progress
+
+  // Fault Detection
+  private kneeBendDetector = new FaultDetector(C.KNEE_BEND_THRESHOLD_ON, C.KNEE_BEND_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private roundingDetector = new FaultDetector(C.ROUNDING_THRESHOLD_ON, C.ROUNDING_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private spine: SpineState = 'NEUTRAL';
+  private repHadKneeBend: boolean = false;
+  private repHadRounding: boolean = false;
+  private speedFault: boolean = false;
+
+  private feedback = new PriorityFeedback("STAND TALL", "#3B82F6");
+
+  // Score Tracking
+  private lastRepScore: number = 0;
+  private lastRepFaults: string[] = [];
+  private lastRepBreakdown: FaultPenalty[] = [];
+  private repLog: RepRecord[] = [];
+
+  reset() {
+    this.state = 'INITIALIZING';
+    this.repCount = 0;
+
+    this.angleSmoother.reset();
+    this.kneeAngleSmoother.reset();
+    this.spineAngleSmoother.reset();
+    this.spineBaseline.reset();
+    this.stabilizer.reset();
+
+    this.resetRepFlags();
+    this.descentStartTime = 0;
+    this.side = 'LEFT';
+    this.spine = 'NEUTRAL';
+
+    this.feedback.reset();
+    this.lastRepScore = 0;
+    this.lastRepFaults = [];
+    this.lastRepBreakdown = [];
+    this.repLog = [];
+  }
+
+  private resetRepFlags() {
+    this.minAngle = 180;
+    this.hitDepth = false;
+    this.repHadKneeBend = false;
+    this.repHadRounding = false;
+    this.speedFault = false;
+    this.kneeBendDetector.reset();
+    this.roundingDetector.reset();
+  }
+
+  private calculateRepScore(): RepScore {
+    const faults: FaultOccurrence<HingeFault>[] = [];
+
+    if (this.minAngle > C.DEPTH_ANGLE) faults.push({ fault: 'DEPTH' });
+    if (this.repHadRounding) faults.push({ fault: 'ROUNDING' });
+    if (this.repHadKneeBend) faults.push({ fault: 'KNEE_BEND' });
+    if (this.speedFault) faults.push({ fault: 'SPEED' });
+
+    return scoreRep(RUBRIC, faults);
+  }
+  /**
+   * Scores the rep that just finished and appends it to the rep log.
+   */
+  private recordRep(now: number): RepRecord {
+    const { score, faults, breakdown } = this.calculateRepScore();
+    this.lastRepScore = score;
+    this.lastRepFaults = faults;
+    this.lastRepBreakdown = breakdown;
+
+    const record: RepRecord = {
+        repNumber: this.repCount,
+        startedAt: this.descentStartTime,
+        endedAt: now,
+        descentMs: this.ascentStartTime - this.descentStartTime,
+        ascentMs: now - this.ascentStartTime,
+        minAngle: this.minAngle,
+        score,
+        faults,
+        scoreBreakdown: breakdown,
+    };
+    this.repLog = [...this.repLog, record];
+    return record;
+  }
+
+
+  /**
+   * Hinges are filmed side-on, so use whichever side of the chain is more visible.
+   * The choice only takes effect between reps (see `update`).
+   */
+  private pickSide(landmarks: Landmark[]): BodySide | null {
+    const score = (side: BodySide) => {
+        const c = CHAIN[side];
+        return [c.shoulder, c.hip, c.knee, c.ankle].reduce((acc, idx) => acc + (landmarks[idx]?.visibility || 0), 0) / 4;
+    };
+    const left = score('LEFT');
+    const right = score('RIGHT');
+    if (Math.max(left, right) < C.VISIBILITY_MIN) return null;
+    return left >= right ? 'LEFT' : 'RIGHT';
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now()): ExerciseState {
+    const visibleSide = this.pickSide(rawLandmarks);
+    // Switching legs mid-rep would mix two chains in the smoothed angles and the knee-bend baseline
+    const repInProgress = this.state === 'DESCENDING' || this.state === 'ASCENDING';
+    if (visibleSide && !repInProgress) this.side = visibleSide;
+
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(rawLandmarks, visibleSide !== null, timestamp);
+
+    if (!landmarks) {
+        return {
+            phase: this.state,
+            angle: 180,
+            repCount: this.repCount,
+            feedback: "SHOW FULL BODY",
+            feedbackColor: "#64748B",
+            isGoodRep: null,
+            didFinishRep: false,
+            trackingMode: 'LOST',
+            visualContext: { valgus: false, baselineKneeY: 0, isDeep: false, lean: false, hipShift: false, asymmetry: false, spine: 'NEUTRAL' },
+            repScore: this.lastRepScore,
+            minAngleReached: 180,
+            depthHit: false,
+            faults: [],
+            scoreBreakdown: [],
+            repLog: this.repLog
+        };
+    }
+
+    // --- 1. METRICS ---
+    const c = CHAIN[this.side];
+    const trackingMode: TrackingMode = isEstimated ? 'ESTIMATED' : 'OPTIMAL';
+
+    const angle = this.angleSmoother.update(calculateAngle(landmarks[c.shoulder], landmarks[c.hip], landmarks[c.knee]), timestamp);
+    const kneeAngle = this.kneeAngleSmoother.update(calculateAngle(landmarks[c.hip], landmarks[c.knee], landmarks[c.ankle]), timestamp);
+
+    // Spine: angle at the shoulder in the ear-shoulder-hip chain (~180 = neutral head/upper back)
+    const earVisible = areLandmarksVisible(landmarks, [c.ear], C.VISIBILITY_MIN);
+    const spineAngle = earVisible
+        ? this.spineAngleSmoother.update(calculateAngle(landmarks[c.ear], landmarks[c.shoulder], landmarks[c.hip]), timestamp)
+        : null;
+
+    // --- 2. STATE MACHINE ---
+    const now = timestamp;
+    let instantFeedback = "STAND TALL";
+    let instantColor = "#3B82F6";
+    let didFinishRep = false;
+
+    switch (this.state) {
+      case 'INITIALIZING':
+        if (angle > C.STANDING_ANGLE) {
+            this.state = 'NEUTRAL';
+            instantFeedback = "READY";
+        }
+        break;
+
+      case 'NEUTRAL':
+        if (angle < C.DESCENT_START_ANGLE) {
+            this.state = 'DESCENDING';
+            this.descentStartTime = now;
+            this.resetRepFlags();
+            this.startKneeAngle = kneeAngle;
+            instantFeedback = "HIPS BACK";
+            instantColor = "#F59E0B";
+        }
+        break;
+
+      case 'DESCENDING':
+        if (angle < this.minAngle) this.minAngle = angle;
+
+        if (angle < C.DEPTH_ANGLE) {
+            this.hitDepth = true;
+            instantFeedback = "GOOD HINGE!";
+            instantColor = "#10B981";
+            this.feedback.set(instantFeedback, instantColor, PRIORITY.SUCCESS, 1500, now);
+        } else {
+            instantFeedback = "HIPS BACK";
+            instantColor = "#F59E0B";
+        }
+
+        if (angle > this.minAngle + C.ASCENT_THRESHOLD && this.minAngle < C.DESCENT_START_ANGLE) {
+            this.state = 'ASCENDING';
+            this.ascentStartTime = now;
+            if (now - this.descentStartTime < C.SPEED_MIN_MS) {
+                this.speedFault = true;
+            }
+        }
+        break;
+
+      case 'ASCENDING':
+        instantFeedback = "SQUEEZE GLUTES";
+        instantColor = "#10B981";
+
+        if (angle > C.STANDING_ANGLE) {
+            this.state = 'NEUTRAL';
+            this.repCount++;
+            didFinishRep = true;
+
+            const { score } = this.recordRep(now);
+
+            const verdict = getRepVerdict(score);
+            this.feedback.set(verdict.message, verdict.color, PRIORITY.SUCCESS, 2000, now);
+            instantFeedback = verdict.message;
+            instantColor = verdict.color;
+        }
+        break;
+    }
+
+    // --- 3. FAULT DETECTION ---
+    if (this.state === 'NEUTRAL' || this.state === 'INITIALIZING') {
+        // Calibrate the neutral spine while standing tall
+        if (spineAngle !== null) this.spineBaseline.update(spineAngle, now);
+        this.spine = 'NEUTRAL';
+    } else {
+        if (this.kneeBendDetector.update(Math.max(0, this.startKneeAngle - kneeAngle), now)) {
+            this.repHadKneeBend = true;
+            this.feedback.set("HINGE, DON'T SQUAT", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        }
+
+        if (spineAngle !== null && this.spineBaseline.getValue() > 0) {
+            const rounding = Math.max(0, this.spineBaseline.getValue() - spineAngle);
+            if (this.roundingDetector.update(rounding, now)) {
+                this.spine = 'ROUNDED';
+                this.repHadRounding = true;
+                this.feedback.set("FLAT BACK!", "#EF4444", PRIORITY.FAULT, 1000, now);
+            } else {
+                this.spine = 'NEUTRAL';
+            }
+        }
+    }
+
+    // --- FINAL FEEDBACK SELECTION ---
+    const { message: finalFeedback, color: finalColor } = this.feedback.resolve(instantFeedback, instantColor, now);
+
+    return {
+        phase: this.state,
+        angle,
+        repCount: this.repCount,
+        feedback: finalFeedback,
+        feedbackColor: finalColor,
+        isGoodRep: this.lastRepScore >= 70,
+        didFinishRep,
+        trackingMode,
+        visualContext: {
+            valgus: false,
+            baselineKneeY: 0,
+            isDeep: this.hitDepth,
+            lean: false,
+            hipShift: false,
+            asymmetry: false,
+            spine: this.spine,
+            estimatedJoints: estimated
+        },
+        repScore: this.lastRepScore,
+        minAngleReached: this.minAngle,
+        depthHit: this.hitDepth,
+        faults: this.lastRepFaults,
+        scoreBreakdown: this.lastRepBreakdown,
+        repLog: this.repLog
+    };
+  }
+}
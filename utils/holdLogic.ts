@@ -0,0 +1,322 @@
+
+import { Landmark, TrackingMode, VisualContext, ExerciseMetadata } from '../types';
+import { POSE_LANDMARKS, calculateAngle, calculateBodyLine, calculateTorsoLean } from './geometry';
+import { MovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
+import { ExerciseEngine, ExerciseState, FaultDetector, PriorityFeedback, PRIORITY } from './exerciseLogic';
+
+// Isometric Hold Constants
+const C = {
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,
+  FAULT_CONFIRM_MS: 150,
+  FAULT_CLEAR_MS: 100,
+  MAX_FRAME_GAP_MS: 200,       // Larger gaps (tab hidden, stalls) are not counted as hold time
+  POSITION_BREAK_MS: 250,      // Time out of position before it counts as a break
+  POSITION_CLEAR_MS: 100,
+
+  // Plank
+  PLANK_MAX_INCLINE: 45,
+  PLANK_LINE_THRESHOLD_ON: 15,
+  PLANK_LINE_THRESHOLD_OFF: 10,
+
+  // Wall Sit
+  WALL_SIT_MAX_KNEE: 130,      // Knee angle above this = standing up, not in position
+  WALL_SIT_TARGET_KNEE: 90,
+  WALL_SIT_DEPTH_THRESHOLD_ON: 20,
+  WALL_SIT_DEPTH_THRESHOLD_OFF: 12,
+  WALL_SIT_LEAN_THRESHOLD_ON: 20,
+  WALL_SIT_LEAN_THRESHOLD_OFF: 14,
+};
+
+/**
+ * A form rule for a hold. Its signal is fed through a FaultDetector,
+ * so a break is only counted once the fault is confirmed.
+ */
+interface HoldRule {
+  id: string;
+  fault: string;   // Fault label recorded on break, e.g. "HIP SAG"
+  cue: string;     // HUD cue while the fault is active
+  thresholdOn: number;
+  thresholdOff: number;
+  visual?: Partial<VisualContext>; // Overlay flags while the fault is active
+}
+
+interface HoldMeasurement {
+  inPosition: boolean;
+  angle: number;                    // Primary angle shown on the HUD
+  signals: Record<string, number>;  // Rule id -> fault signal
+}
+
+interface HoldProfile {
+  metadata: ExerciseMetadata;
+  setupCue: string;
+  rules: HoldRule[];
+  baseVisual: Partial<VisualContext>;
+  isTrackable: (landmarks: Landmark[]) => boolean;
+  measure: (landmarks: Landmark[]) => HoldMeasurement;
+}
+
+const PLANK_SIDES = [
+  [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_ANKLE],
+  [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_ANKLE],
+];
+
+const LEG_SIDES = [
+  [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+];
+
+export const PLANK_METADATA: ExerciseMetadata = {
+  type: 'PLANK',
+  name: 'Plank',
+  mode: 'HOLD',
+  description: 'Timed plank hold; the timer pauses on hip sag or pike.',
+  primaryJoint: 'Hip',
+  angleHint: '180 is a straight shoulder-hip-ankle line',
+};
+
+export const WALL_SIT_METADATA: ExerciseMetadata = {
+  type: 'WALL_SIT',
+  name: 'Wall Sit',
+  mode: 'HOLD',
+  description: 'Timed wall sit; the timer pauses when thighs rise or the back leaves the wall.',
+  primaryJoint: 'Knee',
+  angleHint: '90 is thighs parallel',
+};
+
+const PLANK_PROFILE: HoldProfile = {
+  metadata: PLANK_METADATA,
+  setupCue: "GET IN PLANK",
+  rules: [
+    { id: 'SAG', fault: "HIP SAG", cue: "HIPS UP!", thresholdOn: C.PLANK_LINE_THRESHOLD_ON, thresholdOff: C.PLANK_LINE_THRESHOLD_OFF, visual: { bodyLine: 'SAG' } },
+    { id: 'PIKE', fault: "HIP PIKE", cue: "HIPS DOWN", thresholdOn: C.PLANK_LINE_THRESHOLD_ON, thresholdOff: C.PLANK_LINE_THRESHOLD_OFF, visual: { bodyLine: 'PIKE' } },
+  ],
+  baseVisual: { bodyLine: 'ALIGNED' },
+  isTrackable: (landmarks) => PLANK_SIDES.some(side => areLandmarksVisible(landmarks, side, C.VISIBILITY_MIN)),
+  measure: (landmarks) => {
+    // Planks are filmed side-on: use the more visible side
+    const visibility = PLANK_SIDES.map(side => side.reduce((acc, i) => acc + (landmarks[i]?.visibility || 0), 0));
+    const [shoulder, hip, ankle] = PLANK_SIDES[visibility[0] >= visibility[1] ? 0 : 1].map(i => landmarks[i]);
+    const line = calculateBodyLine(shoulder, hip, ankle);
+
+    return {
+      inPosition: line.incline < C.PLANK_MAX_INCLINE,
+      angle: 180 - line.deviation,
+      signals: {
+        SAG: line.isSagging ? line.deviation : 0,
+        PIKE: line.isSagging ? 0 : line.deviation,
+      },
+    };
+  },
+};
+
+const WALL_SIT_PROFILE: HoldProfile = {
+  metadata: WALL_SIT_METADATA,
+  setupCue: "SLIDE DOWN",
+  rules: [
+    { id: 'DEPTH', fault: "THIGHS HIGH", cue: "SIT LOWER", thresholdOn: C.WALL_SIT_DEPTH_THRESHOLD_ON, thresholdOff: C.WALL_SIT_DEPTH_THRESHOLD_OFF },
+    { id: 'LEAN', fault: "OFF THE WALL", cue: "BACK ON WALL", thresholdOn: C.WALL_SIT_LEAN_THRESHOLD_ON, thresholdOff: C.WALL_SIT_LEAN_THRESHOLD_OFF, visual: { lean: true } },
+  ],
+  baseVisual: {},
+  isTrackable: (landmarks) => LEG_SIDES.some(side => areLandmarksVisible(landmarks, side, C.VISIBILITY_MIN)),
+  measure: (landmarks) => {
+    const visibleLegs = LEG_SIDES.filter(side => areLandmarksVisible(landmarks, side, C.VISIBILITY_MIN));
+    const legs = visibleLegs.length > 0 ? visibleLegs : LEG_SIDES;
+    const kneeAngle = legs.reduce((acc, [h, k, a]) => acc + calculateAngle(landmarks[h], landmarks[k], landmarks[a]), 0) / legs.length;
+    const torsoVisible = areLandmarksVisible(landmarks, [11, 12, 23, 24], C.VISIBILITY_MIN);
+
+    return {
+      inPosition: kneeAngle < C.WALL_SIT_MAX_KNEE,
+      angle: kneeAngle,
+      signals: {
+        DEPTH: Math.max(0, kneeAngle - C.WALL_SIT_TARGET_KNEE),
+        LEAN: torsoVisible ? calculateTorsoLean(landmarks) : 0,
+      },
+    };
+  },
+};
+
+const formatSeconds = (ms: number) => `${Math.floor(ms / 1000)}s`;
+
+/**
+ * Generic isometric hold engine. Counts time-under-tension while the pose is
+ * in position and within tolerances; a confirmed fault pauses the timer and
+ * counts as a break until the form recovers.
+ */
+export class IsometricHoldMechanics implements ExerciseEngine {
+  readonly metadata: ExerciseMetadata;
+
+  private state: 'INITIALIZING' | 'HOLDING' | 'BROKEN' = 'INITIALIZING';
+  private angleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private stabilizer = new LandmarkStabilizer();
+  private ruleDetectors: Map<string, FaultDetector>;
+  private signalSmoothers: Map<string, MovingAverage>;
+  // Signal is 1 while out of position; confirmed = position lost
+  private positionDetector = new FaultDetector(0.5, 0.5, C.POSITION_BREAK_MS, C.POSITION_CLEAR_MS);
+
+  // Timing
+  private holdDurationMs: number = 0;
+  private holdStartTime: number = 0;
+  private lastFrameTime: number = 0;
+  private holdBreaks: number = 0;
+  private breakFaults: Set<string> = new Set();
+
+  private feedback: PriorityFeedback;
+
+  constructor(private readonly profile: HoldProfile) {
+    this.metadata = profile.metadata;
+    this.ruleDetectors = new Map(profile.rules.map(r => [r.id, new FaultDetector(r.thresholdOn, r.thresholdOff, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS)]));
+    this.signalSmoothers = new Map(profile.rules.map(r => [r.id, new MovingAverage(C.SMOOTHING_MS)]));
+    this.feedback = new PriorityFeedback(profile.setupCue, "#3B82F6");
+  }
+
+  reset() {
+    this.state = 'INITIALIZING';
+    this.angleSmoother.reset();
+    this.stabilizer.reset();
+    this.ruleDetectors.forEach(d => d.reset());
+    this.signalSmoothers.forEach(s => s.reset());
+    this.positionDetector.reset();
+
+    this.holdDurationMs = 0;
+    this.holdStartTime = 0;
+    this.lastFrameTime = 0;
+    this.holdBreaks = 0;
+    this.breakFaults = new Set();
+
+    this.feedback.reset();
+  }
+
+  /**
+   * Share of elapsed time (since the hold first started) spent in good form.
+   */
+  private holdScore(now: number): number {
+    if (this.holdStartTime === 0) return 0;
+    const elapsed = now - this.holdStartTime;
+    return elapsed > 0 ? Math.round(Math.min(1, this.holdDurationMs / elapsed) * 100) : 100;
+  }
+
+  private baseVisualContext(): VisualContext {
+    return { valgus: false, baselineKneeY: 0, isDeep: false, lean: false, hipShift: false, asymmetry: false, ...this.profile.baseVisual };
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now()): ExerciseState {
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(rawLandmarks, this.profile.isTrackable(rawLandmarks), timestamp);
+    const now = timestamp;
+
+    if (!landmarks) {
+        // Timer does not run while tracking is lost
+        this.lastFrameTime = 0;
+        return {
+            phase: this.state,
+            angle: 180,
+            repCount: 0,
+            feedback: "SHOW FULL BODY",
+            feedbackColor: "#64748B",
+            isGoodRep: null,
+            didFinishRep: false,
+            trackingMode: 'LOST',
+            visualContext: this.baseVisualContext(),
+            repScore: this.holdScore(now),
+            minAngleReached: 180,
+            depthHit: false,
+            faults: Array.from(this.breakFaults),
+            scoreBreakdown: [],
+            repLog: [],
+            holdDurationMs: this.holdDurationMs,
+            holdBreaks: this.holdBreaks
+        };
+    }
+
+    // --- 1. METRICS ---
+    const trackingMode: TrackingMode = isEstimated ? 'ESTIMATED' : 'OPTIMAL';
+    const measurement = this.profile.measure(landmarks);
+    const angle = this.angleSmoother.update(measurement.angle, now);
+
+    const frameGap = this.lastFrameTime > 0 ? now - this.lastFrameTime : 0;
+    this.lastFrameTime = now;
+
+    const outOfPosition = this.positionDetector.update(measurement.inPosition ? 0 : 1, now);
+    const activeRules = this.profile.rules.filter(rule => {
+        const signal = this.signalSmoothers.get(rule.id)!.update(measurement.signals[rule.id] ?? 0, now);
+        return this.ruleDetectors.get(rule.id)!.update(signal, now);
+    });
+    const formOk = activeRules.length === 0;
+
+    // --- 2. STATE MACHINE ---
+    let instantFeedback = this.profile.setupCue;
+    let instantColor = "#3B82F6";
+
+    switch (this.state) {
+      case 'INITIALIZING':
+        if (measurement.inPosition && formOk) {
+            this.state = 'HOLDING';
+            this.holdStartTime = now;
+            this.feedback.set("HOLD!", "#10B981", PRIORITY.SUCCESS, 1000, now);
+        }
+        break;
+
+      case 'HOLDING':
+        if (outOfPosition || !formOk) {
+            this.state = 'BROKEN';
+            this.holdBreaks++;
+            if (outOfPosition) this.breakFaults.add("LOST POSITION");
+            activeRules.forEach(rule => this.breakFaults.add(rule.fault));
+        } else {
+            this.holdDurationMs += Math.min(frameGap, C.MAX_FRAME_GAP_MS);
+            instantFeedback = `HOLD ${formatSeconds(this.holdDurationMs)}`;
+            instantColor = "#10B981";
+        }
+        break;
+
+      case 'BROKEN':
+        if (!outOfPosition && measurement.inPosition && formOk) {
+            this.state = 'HOLDING';
+            this.feedback.set("BACK ON IT!", "#10B981", PRIORITY.SUCCESS, 1000, now);
+        }
+        break;
+    }
+
+    // --- 3. FAULT CUES ---
+    if (this.state === 'BROKEN') {
+        if (outOfPosition) {
+            this.feedback.set(this.profile.setupCue, "#EF4444", PRIORITY.FAULT, 1000, now);
+        } else if (activeRules.length > 0) {
+            this.feedback.set(activeRules[0].cue, "#EF4444", PRIORITY.FAULT, 1000, now);
+        }
+        instantFeedback = "PAUSED";
+        instantColor = "#F59E0B";
+    }
+
+    const visualContext = activeRules.reduce(
+        (ctx, rule) => ({ ...ctx, ...rule.visual }),
+        { ...this.baseVisualContext(), estimatedJoints: estimated }
+    );
+
+    // --- FINAL FEEDBACK SELECTION ---
+    const { message: finalFeedback, color: finalColor } = this.feedback.resolve(instantFeedback, instantColor, now);
+
+    return {
+        phase: this.state,
+        angle,
+        repCount: 0,
+        feedback: finalFeedback,
+        feedbackColor: finalColor,
+        isGoodRep: null,
+        didFinishRep: false,
+        trackingMode,
+        visualContext,
+        repScore: this.holdScore(now),
+        minAngleReached: angle,
+        depthHit: false,
+        faults: Array.from(this.breakFaults),
+        scoreBreakdown: [],
+        repLog: [],
+        holdDurationMs: this.holdDurationMs,
+        holdBreaks: this.holdBreaks
+    };
+  }
+}
+
+export const createPlankEngine = () => new IsometricHoldMechanics(PLANK_PROFILE);
+export const createWallSitEngine = () => new IsometricHoldMechanics(WALL_SIT_PROFILE);
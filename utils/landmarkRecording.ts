@@ -0,0 +1,171 @@
+
+import { Landmark, ExerciseType } from '../types';
+import { ExerciseEngine, ExerciseState } from './exerciseLogic';
+import { isExerciseType } from './exerciseRegistry';
+
+/**
+ * Landmark recording file format (JSON lines):
+ *   line 1:  header object (format, version, metadata)
+ *   line 2+: one frame per line as [t, values] or [t, values, worldValues] where
+ *            t = ms since the first frame, values = flat [x, y, z, visibility, ...]
+ *            per landmark (null = no pose) and worldValues = the same for the metric
+ *            world landmarks (omitted when MediaPipe supplied none)
+ * Bump RECORDING_VERSION on any incompatible change and keep parseRecording
+ * able to read older versions.
+ */
+export const RECORDING_FORMAT = 'physioai-landmarks';
+export const RECORDING_VERSION = 1;
+
+const VALUES_PER_LANDMARK = 4;
+const PRECISION = 1e4; // 4 decimals is well below MediaPipe's own jitter
+
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: number;     // Epoch ms of the first frame
+  exercise?: ExerciseType;
+  profileName?: string;
+  frameSize?: { width: number; height: number };
+}
+
+export interface RecordedFrame {
+  t: number;                  // ms since the first frame
+  landmarks: Landmark[] | null;
+  world?: Landmark[] | null;  // MediaPipe world landmarks (meters, hip-centered)
+}
+
+export interface LandmarkRecording {
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+}
+
+const round = (value: number) => Math.round(value * PRECISION) / PRECISION;
+
+const packLandmarks = (landmarks: Landmark[]): number[] =>
+  landmarks.flatMap(l => [round(l.x), round(l.y), round(l.z), round(l.visibility ?? 0)]);
+
+// A packed landmark list: null (no pose) or x/y/z/visibility numbers per landmark
+const isPackedLandmarks = (value: unknown): value is number[] | null =>
+  value === null || (
+    Array.isArray(value) &&
+    value.length % VALUES_PER_LANDMARK === 0 &&
+    value.every(v => typeof v === 'number' && Number.isFinite(v))
+  );
+
+const unpackLandmarks = (values: number[]): Landmark[] => {
+  const landmarks: Landmark[] = [];
+  for (let i = 0; i + VALUES_PER_LANDMARK <= values.length; i += VALUES_PER_LANDMARK) {
+    landmarks.push({ x: values[i], y: values[i + 1], z: values[i + 2], visibility: values[i + 3] });
+  }
+  return landmarks;
+};
+
+/**
+ * Collects frames from the live pose stream.
+ */
+export class LandmarkRecorder {
+  private header: RecordingHeader | null = null;
+  private frames: RecordedFrame[] = [];
+
+  get isRecording(): boolean {
+    return this.header !== null;
+  }
+
+  start(metadata: Omit<RecordingHeader, 'format' | 'version' | 'createdAt'> = {}) {
+    this.header = { format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: 0, ...metadata };
+    this.frames = [];
+  }
+
+  addFrame(landmarks: Landmark[] | null | undefined, timestamp: number, world?: Landmark[] | null) {
+    if (!this.header) return;
+    if (this.frames.length === 0) this.header.createdAt = timestamp;
+    const hasPose = !!landmarks && landmarks.length > 0;
+    this.frames.push({
+      t: timestamp - this.header.createdAt,
+      landmarks: hasPose ? landmarks.map(l => ({ ...l })) : null,
+      world: hasPose && world && world.length > 0 ? world.map(l => ({ ...l })) : null,
+    });
+  }
+
+  /**
+   * Ends the recording. Returns null if nothing was recorded.
+   */
+  stop(): LandmarkRecording | null {
+    const header = this.header;
+    const frames = this.frames;
+    this.header = null;
+    this.frames = [];
+    if (!header || frames.length === 0) return null;
+    return { header, frames };
+  }
+}
+
+export const serializeRecording = (recording: LandmarkRecording): string => {
+  const lines = [JSON.stringify(recording.header)];
+  recording.frames.forEach(frame => {
+    const entry: (number | number[] | null)[] = [Math.round(frame.t), frame.landmarks ? packLandmarks(frame.landmarks) : null];
+    if (frame.world) entry.push(packLandmarks(frame.world));
+    lines.push(JSON.stringify(entry));
+  });
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Parses a recording file. Throws with a readable message if the file is not
+ * a landmark recording or was written by a newer version.
+ */
+export const parseRecording = (text: string): LandmarkRecording => {
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) throw new Error('Recording file is empty');
+
+  let header: RecordingHeader;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new Error('Recording header is not valid JSON');
+  }
+  if (header?.format !== RECORDING_FORMAT) {
+    throw new Error('Not a PhysioAI landmark recording');
+  }
+  if (typeof header.version !== 'number' || header.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version} (this app reads up to ${RECORDING_VERSION})`);
+  }
+  if (header.exercise !== undefined && !isExerciseType(header.exercise)) {
+    throw new Error(`Recording is for an unknown exercise "${header.exercise}"`);
+  }
+
+  const frames = lines.slice(1).map((line, index): RecordedFrame => {
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      entry = null;
+    }
+    if (
+      !Array.isArray(entry) || entry.length < 2 || entry.length > 3 ||
+      typeof entry[0] !== 'number' || !Number.isFinite(entry[0]) ||
+      !isPackedLandmarks(entry[1]) || (entry.length === 3 && !isPackedLandmarks(entry[2]))
+    ) {
+      throw new Error(`Recording frame ${index + 1} is corrupt`);
+    }
+    const [t, values, worldValues] = entry as [number, number[] | null, (number[] | null)?];
+    return { t, landmarks: values ? unpackLandmarks(values) : null, world: worldValues ? unpackLandmarks(worldValues) : null };
+  });
+
+  return { header, frames };
+};
+
+/**
+ * Runs a recording through an engine as fast as possible (no drawing), using
+ * the recorded timestamps so timing-based rules behave as they did live.
+ * Frames without a pose are skipped, as in the live loop.
+ */
+export const replayThroughEngine = (recording: LandmarkRecording, engine: ExerciseEngine): ExerciseState[] => {
+  engine.reset();
+  const states: ExerciseState[] = [];
+  recording.frames.forEach(frame => {
+    if (!frame.landmarks) return;
+    states.push(engine.update(frame.landmarks, recording.header.createdAt + frame.t, frame.world));
+  });
+  return states;
+};
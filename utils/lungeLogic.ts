@@ -0,0 +1,466 @@
+
+import { Landmark, TrackingMode, TrackingSource, ExerciseMetadata } from '../types';
+import {
+  POSE_LANDMARKS, calculateAngle, calculateTorsoLean, calculateTorsoLean3D, getNormalizedDistance,
+  hasWorldLandmarks, kneePastToeCm
+} from './geometry';
+import { MovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
+import {
+  ExerciseEngine, ExerciseState, RepRecord, BodySide, SideRepStats,
+  FaultDetector, PriorityFeedback, PRIORITY, getRepVerdict
+} from './exerciseLogic';
+import { ScoringRubric, FaultOccurrence, FaultPenalty, RepScore, scoreRep } from './scoring';
+
+// Lunge / Split Squat Biomechanics Constants
+const C = {
+  STANDING_ANGLE: 155,        // Average knee angle when upright
+  DESCENT_START_ANGLE: 145,
+  DEPTH_ANGLE: 105,           // Average knee angle at/below = full depth
+  ASCENT_THRESHOLD: 4,
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,
+  FAULT_CONFIRM_MS: 150,
+  FAULT_CLEAR_MS: 100,
+  FORWARD_LEG_MIN_DIFF: 0.02, // Knee height difference needed to call the forward leg
+
+  // Front Knee Past Toe (fraction of foot length beyond the toe)
+  KNEE_TOE_THRESHOLD_ON: 0.15,
+  KNEE_TOE_THRESHOLD_OFF: 0.05,
+  FOOT_MIN_LENGTH: 0.15,      // Foot length / torso; below = foot foreshortened (frontal view)
+  // Same check from world landmarks, in centimeters past the toe (works from any camera angle)
+  KNEE_TOE_CM_THRESHOLD_ON: 5,
+  KNEE_TOE_CM_THRESHOLD_OFF: 3,
+
+  // Front Knee Valgus (medial knee deviation / leg length)
+  VALGUS_THRESHOLD_ON: 0.08,
+  VALGUS_THRESHOLD_OFF: 0.05,
+  HIP_MIN_WIDTH: 0.2,         // Hip width / torso; below = hips overlap (side view)
+
+  // Torso Lean (degrees from vertical, lunges should stay upright)
+  LEAN_THRESHOLD_ON: 20,
+  LEAN_THRESHOLD_OFF: 15,
+};
+
+// Lunge Scoring Rubric
+type LungeFault = 'DEPTH' | 'VALGUS' | 'KNEE_TOE' | 'LEAN';
+
+const RUBRIC: ScoringRubric<LungeFault> = {
+  DEPTH: { label: 'GO DEEPER', penalty: 40 },
+  VALGUS: { label: 'KNEE IN', penalty: 20 },
+  KNEE_TOE: { label: 'KNEE PAST TOE', penalty: 15 },
+  LEAN: { label: 'TORSO LEAN', penalty: 15 },
+};
+
+type LungePhase = 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING';
+
+const LEGS: Record<BodySide, { hip: number, knee: number, ankle: number, heel: number, toe: number }> = {
+  LEFT: {
+    hip: POSE_LANDMARKS.LEFT_HIP,
+    knee: POSE_LANDMARKS.LEFT_KNEE,
+    ankle: POSE_LANDMARKS.LEFT_ANKLE,
+    heel: POSE_LANDMARKS.LEFT_HEEL,
+    toe: POSE_LANDMARKS.LEFT_FOOT_INDEX,
+  },
+  RIGHT: {
+    hip: POSE_LANDMARKS.RIGHT_HIP,
+    knee: POSE_LANDMARKS.RIGHT_KNEE,
+    ankle: POSE_LANDMARKS.RIGHT_ANKLE,
+    heel: POSE_LANDMARKS.RIGHT_HEEL,
+    toe: POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+  },
+};
+
+const emptySideStats = (): Record<BodySide, SideRepStats> => ({
+  LEFT: { reps: 0, lastScore: 0, averageScore: 0 },
+  RIGHT: { reps: 0, lastScore: 0, averageScore: 0 },
+});
+
+export const LUNGE_METADATA: ExerciseMetadata = {
+  type: 'LUNGE',
+  name: 'Lunge',
+  mode: 'REPS',
+  description: 'Lunge / split squat with per-side reps, knee-over-toe, valgus and lean checks.',
+  primaryJoint: 'Knee',
+  angleHint: 'average of both knees, ~90 at full depth',
+};
+
+export class LungeMechanics implements ExerciseEngine {
+  readonly metadata = LUNGE_METADATA;
+
+  private state: LungePhase = 'INITIALIZING';
+  private repCount: number = 0;
+  private sideStats = emptySideStats();
+
+  // Signal Processing
+  private angleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private torsoAngleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private stabilizer = new LandmarkStabilizer();
+
+  // Rep Tracking
+  private minAngle: number = 180;
+  private hitDepth: boolean = false;
+  private descentStartTime: number = 0;
+  private ascentStartTime: number = 0;
+  private forwardLeg: BodySide | null = null;
+  private forwardVotes: number = 0; // > 0 = LEFT forward, < 0 = RIGHT forward
+
+  // Fault Detection (front leg)
+  private kneeToeDetector = new FaultDetector(C.KNEE_TOE_THRESHOLD_ON, C.KNEE_TOE_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private kneeToeCmDetector = new FaultDetector(C.KNEE_TOE_CM_THRESHOLD_ON, C.KNEE_TOE_CM_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private valgusDetector = new FaultDetector(C.VALGUS_THRESHOLD_ON, C.VALGUS_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private leanDetector = new FaultDetector(C.LEAN_THRESHOLD_ON, C.LEAN_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private kneeValgus: boolean = false;
+  private excessiveLean: boolean = false;
+  private repHadKneeToe: boolean = false;
+  private maxKneePastToeCm: number | null = null; // Only measured with world landmarks
+  private repHadValgus: boolean = false;
+  private repHadLean: boolean = false;
+
+  private feedback = new PriorityFeedback("STAND TALL", "#3B82F6");
+
+  // Score Tracking
+  private lastRepScore: number = 0;
+  private lastRepFaults: string[] = [];
+  private lastRepBreakdown: FaultPenalty[] = [];
+  private repLog: RepRecord[] = [];
+
+  reset() {
+    this.state = 'INITIALIZING';
+    this.repCount = 0;
+    this.sideStats = emptySideStats();
+
+    this.angleSmoother.reset();
+    this.torsoAngleSmoother.reset();
+    this.stabilizer.reset();
+
+    this.resetRepFlags();
+    this.kneeValgus = false;
+    this.excessiveLean = false;
+
+    this.feedback.reset();
+    this.lastRepScore = 0;
+    this.lastRepFaults = [];
+    this.lastRepBreakdown = [];
+    this.repLog = [];
+  }
+
+  private resetRepFlags() {
+    this.minAngle = 180;
+    this.hitDepth = false;
+    this.forwardLeg = null;
+    this.forwardVotes = 0;
+    this.repHadKneeToe = false;
+    this.maxKneePastToeCm = null;
+    this.repHadValgus = false;
+    this.repHadLean = false;
+    this.kneeToeDetector.reset();
+    this.kneeToeCmDetector.reset();
+    this.valgusDetector.reset();
+    this.leanDetector.reset();
+  }
+
+  private calculateRepScore(): RepScore {
+    const faults: FaultOccurrence<LungeFault>[] = [];
+
+    if (this.minAngle > C.DEPTH_ANGLE) faults.push({ fault: 'DEPTH' });
+    if (this.repHadValgus) faults.push({ fault: 'VALGUS' });
+    if (this.repHadKneeToe) faults.push({ fault: 'KNEE_TOE' });
+    if (this.repHadLean) faults.push({ fault: 'LEAN' });
+
+    return scoreRep(RUBRIC, faults);
+  }
+  /**
+   * Scores the rep that just finished and appends it to the rep log.
+   */
+  private recordRep(now: number, side?: BodySide): RepRecord {
+    const { score, faults, breakdown } = this.calculateRepScore();
+    this.lastRepScore = score;
+    this.lastRepFaults = faults;
+    this.lastRepBreakdown = breakdown;
+
+    const record: RepRecord = {
+        repNumber: this.repCount,
+        startedAt: this.descentStartTime,
+        endedAt: now,
+        descentMs: this.ascentStartTime - this.descentStartTime,
+        ascentMs: now - this.ascentStartTime,
+        minAngle: this.minAngle,
+        score,
+        faults,
+        scoreBreakdown: breakdown,
+        side,
+        maxKneePastToeCm: this.maxKneePastToeCm ?? undefined,
+    };
+    this.repLog = [...this.repLog, record];
+    return record;
+  }
+
+
+  /**
+   * Works out which leg is forward. In a lunge the rear knee drops toward the
+   * floor, so the forward leg's knee sits higher in the frame (smaller Y).
+   * When knee heights are too close to call, the ankle closer to the camera
+   * (smaller Z) is treated as forward.
+   */
+  private detectForwardLeg(landmarks: Landmark[]): BodySide | null {
+    const leftKnee = landmarks[LEGS.LEFT.knee];
+    const rightKnee = landmarks[LEGS.RIGHT.knee];
+    const kneeDiff = rightKnee.y - leftKnee.y;
+
+    if (Math.abs(kneeDiff) > C.FORWARD_LEG_MIN_DIFF) {
+        return kneeDiff > 0 ? 'LEFT' : 'RIGHT';
+    }
+
+    const leftAnkleZ = landmarks[LEGS.LEFT.ankle].z ?? 0;
+    const rightAnkleZ = landmarks[LEGS.RIGHT.ankle].z ?? 0;
+    if (leftAnkleZ === rightAnkleZ) return null;
+    return leftAnkleZ < rightAnkleZ ? 'LEFT' : 'RIGHT';
+  }
+
+  /**
+   * Knee travel past the toe along the foot axis, as a fraction of foot length.
+   * Returns 0 when the foot is foreshortened (frontal camera) and the check is unreliable.
+   */
+  private kneePastToe(landmarks: Landmark[], side: BodySide): number {
+    const leg = LEGS[side];
+    const heel = landmarks[leg.heel];
+    const toe = landmarks[leg.toe];
+    const knee = landmarks[leg.knee];
+    if (!heel || !toe || !knee) return 0;
+
+    if (getNormalizedDistance(landmarks, heel, toe) < C.FOOT_MIN_LENGTH) return 0;
+
+    const footX = toe.x - heel.x;
+    const footY = toe.y - heel.y;
+    const footLengthSq = footX * footX + footY * footY;
+    const projection = ((knee.x - heel.x) * footX + (knee.y - heel.y) * footY) / footLengthSq;
+
+    return Math.max(0, projection - 1);
+  }
+
+  /**
+   * Knee-over-toe check for the forward leg. Uses the metric distance when world
+   * landmarks are available, otherwise the foot-length fraction from the image.
+   */
+  private checkKneeToe(landmarks: Landmark[], world: Landmark[] | null, side: BodySide, now: number): boolean {
+    if (!world) return this.kneeToeDetector.update(this.kneePastToe(landmarks, side), now);
+
+    const leg = LEGS[side];
+    const distanceCm = kneePastToeCm(world[leg.knee], world[leg.heel], world[leg.toe]);
+    this.maxKneePastToeCm = Math.max(this.maxKneePastToeCm ?? distanceCm, distanceCm);
+    return this.kneeToeCmDetector.update(distanceCm, now);
+  }
+
+  /**
+   * Medial deviation of the knee from the hip-ankle line, normalized by leg length.
+   * Positive = knee caving toward the body midline.
+   * Returns 0 side-on, where the hips overlap and the midline side is unknown.
+   */
+  private kneeMedialDeviation(landmarks: Landmark[], side: BodySide): number {
+    const leg = LEGS[side];
+    const hip = landmarks[leg.hip];
+    const knee = landmarks[leg.knee];
+    const ankle = landmarks[leg.ankle];
+
+    const hipWidth = getNormalizedDistance(landmarks, landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.RIGHT_HIP]);
+    if (hipWidth < C.HIP_MIN_WIDTH) return 0;
+
+    const legLength = ankle.y - hip.y;
+    if (legLength < 0.05) return 0;
+
+    const midlineX = (landmarks[POSE_LANDMARKS.LEFT_HIP].x + landmarks[POSE_LANDMARKS.RIGHT_HIP].x) / 2;
+    const towardMidline = Math.sign(midlineX - hip.x);
+    const lineX = hip.x + (ankle.x - hip.x) * ((knee.y - hip.y) / legLength);
+
+    return ((knee.x - lineX) * towardMidline) / legLength;
+  }
+
+  private snapshotSideStats(): Record<BodySide, SideRepStats> {
+    return { LEFT: { ...this.sideStats.LEFT }, RIGHT: { ...this.sideStats.RIGHT } };
+  }
+
+  private recordSideRep(side: BodySide, score: number) {
+    const stats = this.sideStats[side];
+    const total = stats.averageScore * stats.reps + score;
+    stats.reps++;
+    stats.lastScore = score;
+    stats.averageScore = total / stats.reps;
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now(), worldLandmarks: Landmark[] | null = null): ExerciseState {
+    const leftLegVisible = areLandmarksVisible(rawLandmarks, [LEGS.LEFT.hip, LEGS.LEFT.knee, LEGS.LEFT.ankle], C.VISIBILITY_MIN);
+    const rightLegVisible = areLandmarksVisible(rawLandmarks, [LEGS.RIGHT.hip, LEGS.RIGHT.knee, LEGS.RIGHT.ankle], C.VISIBILITY_MIN);
+
+    // Both legs are needed to tell front from back
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(
+        rawLandmarks,
+        leftLegVisible && rightLegVisible,
+        timestamp
+    );
+
+    if (!landmarks) {
+        return {
+            phase: this.state,
+            angle: 180,
+            repCount: this.repCount,
+            feedback: "SHOW FULL BODY",
+            feedbackColor: "#64748B",
+            isGoodRep: null,
+            didFinishRep: false,
+            trackingMode: 'LOST',
+            visualContext: { valgus: false, baselineKneeY: 0, isDeep: false, lean: false, hipShift: false, asymmetry: false },
+            repScore: this.lastRepScore,
+            minAngleReached: 180,
+            depthHit: false,
+            faults: [],
+            scoreBreakdown: [],
+            repLog: this.repLog,
+            sideStats: this.snapshotSideStats()
+        };
+    }
+
+    // --- 1. METRICS ---
+    const trackingMode: TrackingMode = isEstimated ? 'ESTIMATED' : 'OPTIMAL';
+    // World landmarks are unstabilized, so estimated frames stay on the image data
+    const world = hasWorldLandmarks(worldLandmarks) && !isEstimated ? worldLandmarks : null;
+    const angleLandmarks = world ?? landmarks;
+    const trackingSource: TrackingSource = world ? 'WORLD_3D' : 'IMAGE_2D';
+    const leftAngle = calculateAngle(angleLandmarks[LEGS.LEFT.hip], angleLandmarks[LEGS.LEFT.knee], angleLandmarks[LEGS.LEFT.ankle]);
+    const rightAngle = calculateAngle(angleLandmarks[LEGS.RIGHT.hip], angleLandmarks[LEGS.RIGHT.knee], angleLandmarks[LEGS.RIGHT.ankle]);
+    const angle = this.angleSmoother.update((leftAngle + rightAngle) / 2, timestamp);
+
+    const torsoVisible = areLandmarksVisible(landmarks, [11, 12, 23, 24], C.VISIBILITY_MIN);
+    const torsoAngle = torsoVisible ? this.torsoAngleSmoother.update(world ? calculateTorsoLean3D(world) : calculateTorsoLean(landmarks), timestamp) : 0;
+
+    // --- 2. STATE MACHINE ---
+    const now = timestamp;
+    let instantFeedback = "STAND TALL";
+    let instantColor = "#3B82F6";
+    let didFinishRep = false;
+
+    switch (this.state) {
+      case 'INITIALIZING':
+        if (angle > C.STANDING_ANGLE) {
+            this.state = 'NEUTRAL';
+            instantFeedback = "READY";
+        }
+        break;
+
+      case 'NEUTRAL':
+        if (angle < C.DESCENT_START_ANGLE) {
+            this.state = 'DESCENDING';
+            this.descentStartTime = now;
+            this.resetRepFlags();
+            instantFeedback = "GO LOWER";
+            instantColor = "#F59E0B";
+        }
+        break;
+
+      case 'DESCENDING':
+        if (angle < this.minAngle) this.minAngle = angle;
+
+        if (angle < C.DEPTH_ANGLE) {
+            this.hitDepth = true;
+            instantFeedback = "GOOD DEPTH!";
+            instantColor = "#10B981";
+            this.feedback.set(instantFeedback, instantColor, PRIORITY.SUCCESS, 1500, now);
+        } else {
+            instantFeedback = "LOWER...";
+            instantColor = "#F59E0B";
+        }
+
+        if (angle > this.minAngle + C.ASCENT_THRESHOLD && this.minAngle < C.DESCENT_START_ANGLE) {
+            this.state = 'ASCENDING';
+            this.ascentStartTime = now;
+        }
+        break;
+
+      case 'ASCENDING':
+        instantFeedback = "DRIVE UP";
+        instantColor = "#10B981";
+
+        if (angle > C.STANDING_ANGLE) {
+            this.state = 'NEUTRAL';
+            this.repCount++;
+            didFinishRep = true;
+
+            // Side is decided by majority vote over the working part of the rep
+            const side: BodySide | null = this.forwardVotes === 0 ? this.forwardLeg : (this.forwardVotes > 0 ? 'LEFT' : 'RIGHT');
+            const { score } = this.recordRep(now, side ?? undefined);
+            if (side) this.recordSideRep(side, score);
+
+            const verdict = getRepVerdict(score);
+            const sideLabel = side ? ` (${side === 'LEFT' ? 'L' : 'R'})` : "";
+            this.feedback.set(`${verdict.message}${sideLabel}`, verdict.color, PRIORITY.SUCCESS, 2000, now);
+            instantFeedback = verdict.message;
+            instantColor = verdict.color;
+        }
+        break;
+    }
+
+    // --- 3. FAULT DETECTION (front leg, only while working) ---
+    if (this.state === 'DESCENDING' || this.state === 'ASCENDING') {
+        const detected = this.detectForwardLeg(landmarks);
+        if (detected) {
+            this.forwardVotes += detected === 'LEFT' ? 1 : -1;
+            this.forwardLeg = this.forwardVotes >= 0 ? 'LEFT' : 'RIGHT';
+        }
+
+        if (this.forwardLeg) {
+            if (this.checkKneeToe(landmarks, world, this.forwardLeg, now)) {
+                this.repHadKneeToe = true;
+                this.feedback.set("KNEE BEHIND TOES", "#F59E0B", PRIORITY.FAULT, 1000, now);
+            }
+
+            this.kneeValgus = this.valgusDetector.update(this.kneeMedialDeviation(landmarks, this.forwardLeg), now);
+            if (this.kneeValgus) {
+                this.repHadValgus = true;
+                this.feedback.set("KNEE OUT!", "#EF4444", PRIORITY.FAULT, 1000, now);
+            }
+        }
+
+        if (torsoVisible) {
+            this.excessiveLean = this.leanDetector.update(torsoAngle, now);
+            if (this.excessiveLean) {
+                this.repHadLean = true;
+                this.feedback.set("CHEST UP", "#F59E0B", PRIORITY.FAULT, 1000, now);
+            }
+        }
+    } else {
+        this.kneeValgus = false;
+        this.excessiveLean = false;
+    }
+
+    // --- FINAL FEEDBACK SELECTION ---
+    const { message: finalFeedback, color: finalColor } = this.feedback.resolve(instantFeedback, instantColor, now);
+
+    return {
+        phase: this.state,
+        angle,
+        repCount: this.repCount,
+        feedback: finalFeedback,
+        feedbackColor: finalColor,
+        isGoodRep: this.lastRepScore >= 70,
+        didFinishRep,
+        trackingMode,
+        trackingSource,
+        visualContext: {
+            valgus: this.kneeValgus,
+            valgusSide: this.forwardLeg ?? undefined,
+            baselineKneeY: 0,
+            isDeep: this.hitDepth,
+            lean: this.excessiveLean,
+            hipShift: false,
+            asymmetry: false,
+            estimatedJoints: estimated
+        },
+        repScore: this.lastRepScore,
+        minAngleReached: this.minAngle,
+        depthHit: this.hitDepth,
+        faults: this.lastRepFaults,
+        scoreBreakdown: this.lastRepBreakdown,
+        repLog: this.repLog,
+        sideStats: this.snapshotSideStats()
+    };
+  }
+}
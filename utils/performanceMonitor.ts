@@ -0,0 +1,105 @@
+
+// Performance Constants
+const C = {
+  WINDOW_MS: 2000,      // Rolling window for all rates and averages
+  MIN_SPAN_MS: 1000,    // Less data than this is not judged
+  // Engine timings are in ms, but below these rates a smoothing or fault
+  // confirmation window (~150ms) holds only one or two frames.
+  LOW_FPS: 20,
+  CRITICAL_FPS: 12,
+};
+
+export type PerformanceLevel = 'GOOD' | 'LOW' | 'CRITICAL';
+
+export interface PerformanceStats {
+  cameraFps: number | null; // null when the browser cannot report camera frames
+  analysisFps: number;      // Frames that reached the engines
+  inferenceMs: number;      // Average pose.send duration
+  engineMs: number;         // Average engine update duration
+  droppedFrames: number;    // Camera frames in the window that were never analysed
+  level: PerformanceLevel;
+}
+
+interface Sample {
+  t: number;     // performance.now() ms
+  value: number;
+}
+
+const prune = (samples: Sample[], now: number) => {
+  while (samples.length > 0 && samples[0].t < now - C.WINDOW_MS) samples.shift();
+};
+
+const rate = (samples: Sample[]): number => {
+  if (samples.length < 2) return 0;
+  const span = samples[samples.length - 1].t - samples[0].t;
+  return span > 0 ? ((samples.length - 1) / span) * 1000 : 0;
+};
+
+const average = (samples: Sample[]): number =>
+  samples.length > 0 ? samples.reduce((acc, s) => acc + s.value, 0) / samples.length : 0;
+
+/**
+ * Rolling measurements of the capture -> pose -> engine pipeline.
+ * All times are performance.now() milliseconds.
+ */
+export class PerformanceMonitor {
+  private cameraFrames: Sample[] = [];
+  private analysedFrames: Sample[] = [];
+  private inference: Sample[] = [];
+  private engine: Sample[] = [];
+
+  reset() {
+    this.cameraFrames = [];
+    this.analysedFrames = [];
+    this.inference = [];
+    this.engine = [];
+  }
+
+  // A new frame was presented by the camera or video file
+  recordCameraFrame(now: number) {
+    this.cameraFrames.push({ t: now, value: 1 });
+    prune(this.cameraFrames, now);
+  }
+
+  // A frame (with or without a pose) was handed to the engines
+  recordAnalysedFrame(now: number) {
+    this.analysedFrames.push({ t: now, value: 1 });
+    prune(this.analysedFrames, now);
+  }
+
+  recordInference(durationMs: number, now: number) {
+    this.inference.push({ t: now, value: durationMs });
+    prune(this.inference, now);
+  }
+
+  recordEngineUpdate(durationMs: number, now: number) {
+    this.engine.push({ t: now, value: durationMs });
+    prune(this.engine, now);
+  }
+
+  snapshot(now: number): PerformanceStats {
+    [this.cameraFrames, this.analysedFrames, this.inference, this.engine].forEach(samples => prune(samples, now));
+
+    // Camera frames are only reported where the browser supports frame callbacks
+    const tracksCamera = this.cameraFrames.length > 0;
+    const analysisFps = rate(this.analysedFrames);
+    const span = this.analysedFrames.length > 1
+      ? this.analysedFrames[this.analysedFrames.length - 1].t - this.analysedFrames[0].t
+      : 0;
+
+    let level: PerformanceLevel = 'GOOD';
+    if (span >= C.MIN_SPAN_MS) {
+      if (analysisFps < C.CRITICAL_FPS) level = 'CRITICAL';
+      else if (analysisFps < C.LOW_FPS) level = 'LOW';
+    }
+
+    return {
+      cameraFps: tracksCamera ? rate(this.cameraFrames) : null,
+      analysisFps,
+      inferenceMs: average(this.inference),
+      engineMs: average(this.engine),
+      droppedFrames: tracksCamera ? Math.max(0, this.cameraFrames.length - this.analysedFrames.length) : 0,
+      level,
+    };
+  }
+}
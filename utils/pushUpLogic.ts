@@ -0,0 +1,383 @@
+
+import { Landmark, TrackingMode, BodyLineState, ExerciseMetadata } from '../types';
+import { POSE_LANDMARKS, calculateAngle, calculateBodyLine } from './geometry';
+import { MovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
+import { ExerciseEngine, ExerciseState, RepRecord, FaultDetector, PriorityFeedback, PRIORITY, getRepVerdict } from './exerciseLogic';
+import { ScoringRubric, FaultOccurrence, FaultPenalty, RepScore, scoreRep } from './scoring';
+
+// Push-Up Biomechanics Constants
+const C = {
+  TOP_ANGLE: 150,             // Elbow lockout
+  DESCENT_START_ANGLE: 140,
+  DEPTH_ANGLE: 90,            // Elbow at/below 90 = full depth
+  ASCENT_THRESHOLD: 5,
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,
+  FAULT_CONFIRM_MS: 150,
+  FAULT_CLEAR_MS: 100,
+  SPEED_MIN_MS: 400,
+  PLANK_MAX_INCLINE: 45,      // Shoulder-ankle line must be within 45° of horizontal
+
+  // Body Line Constants (degrees of bend at the hip away from a straight line)
+  BODY_LINE_THRESHOLD_ON: 15,
+  BODY_LINE_THRESHOLD_OFF: 10,
+};
+
+// Push-Up Scoring Rubric
+type PushUpFault = 'DEPTH' | 'SAG' | 'PIKE' | 'SPEED';
+
+const RUBRIC: ScoringRubric<PushUpFault> = {
+  DEPTH: { label: 'CHEST LOWER', penalty: 40 },
+  SAG: { label: 'HIP SAG', penalty: 25 },
+  PIKE: { label: 'HIP PIKE', penalty: 15 },
+  SPEED: { label: 'TOO FAST', penalty: 15 },
+};
+
+type PushUpPhase = 'INITIALIZING' | 'NEUTRAL' | 'DESCENDING' | 'ASCENDING';
+
+const SIDES = {
+  LEFT: {
+    shoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+    elbow: POSE_LANDMARKS.LEFT_ELBOW,
+    wrist: POSE_LANDMARKS.LEFT_WRIST,
+    hip: POSE_LANDMARKS.LEFT_HIP,
+    ankle: POSE_LANDMARKS.LEFT_ANKLE,
+  },
+  RIGHT: {
+    shoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+    elbow: POSE_LANDMARKS.RIGHT_ELBOW,
+    wrist: POSE_LANDMARKS.RIGHT_WRIST,
+    hip: POSE_LANDMARKS.RIGHT_HIP,
+    ankle: POSE_LANDMARKS.RIGHT_ANKLE,
+  },
+};
+
+export const PUSH_UP_METADATA: ExerciseMetadata = {
+  type: 'PUSH_UP',
+  name: 'Push-Up',
+  mode: 'REPS',
+  description: 'Elbow-angle rep counting with hip sag and pike detection.',
+  primaryJoint: 'Elbow',
+  angleHint: '90 is full depth',
+};
+
+export class PushUpMechanics implements ExerciseEngine {
+  readonly metadata = PUSH_UP_METADATA;
+
+  private state: PushUpPhase = 'INITIALIZING';
+  private repCount: number = 0;
+
+  // Signal Processing
+  private angleSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private bodyLineSmoother = new MovingAverage(C.SMOOTHING_MS);
+  private stabilizer = new LandmarkStabilizer();
+
+  // Rep Tracking
+  private minAngle: number = 180;
+  private maxAscentAngle: number = 0;
+  private hitDepth: boolean = false;
+  private descentStartTime: number = 0;
+  private ascentStartTime: number = 0;
+
+  // Body Line Detection
+  private sagDetector = new FaultDetector(C.BODY_LINE_THRESHOLD_ON, C.BODY_LINE_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private pikeDetector = new FaultDetector(C.BODY_LINE_THRESHOLD_ON, C.BODY_LINE_THRESHOLD_OFF, C.FAULT_CONFIRM_MS, C.FAULT_CLEAR_MS);
+  private bodyLine: BodyLineState = 'ALIGNED';
+
+  // Fault Tracking Flags
+  private repHadSag: boolean = false;
+  private repHadPike: boolean = false;
+  private speedFault: boolean = false;
+
+  private feedback = new PriorityFeedback("GET IN PLANK", "#3B82F6");
+
+  // Score Tracking
+  private lastRepScore: number = 0;
+  private lastRepFaults: string[] = [];
+  private lastRepBreakdown: FaultPenalty[] = [];
+  private repLog: RepRecord[] = [];
+
+  reset() {
+    this.state = 'INITIALIZING';
+    this.repCount = 0;
+    this.angleSmoother.reset();
+    this.bodyLineSmoother.reset();
+    this.stabilizer.reset();
+
+    this.minAngle = 180;
+    this.maxAscentAngle = 0;
+    this.hitDepth = false;
+    this.descentStartTime = 0;
+    this.ascentStartTime = 0;
+
+    this.sagDetector.reset();
+    this.pikeDetector.reset();
+    this.bodyLine = 'ALIGNED';
+
+    this.repHadSag = false;
+    this.repHadPike = false;
+    this.speedFault = false;
+
+    this.feedback.reset();
+    this.lastRepScore = 0;
+    this.lastRepFaults = [];
+    this.lastRepBreakdown = [];
+    this.repLog = [];
+  }
+
+  private calculateRepScore(): RepScore {
+    const faults: FaultOccurrence<PushUpFault>[] = [];
+
+    if (this.minAngle > C.DEPTH_ANGLE) faults.push({ fault: 'DEPTH' });
+    if (this.repHadSag) faults.push({ fault: 'SAG' });
+    if (this.repHadPike) faults.push({ fault: 'PIKE' });
+    if (this.speedFault) faults.push({ fault: 'SPEED' });
+
+    return scoreRep(RUBRIC, faults);
+  }
+  /**
+   * Scores the rep that just finished and appends it to the rep log.
+   */
+  private recordRep(now: number): RepRecord {
+    const { score, faults, breakdown } = this.calculateRepScore();
+    this.lastRepScore = score;
+    this.lastRepFaults = faults;
+    this.lastRepBreakdown = breakdown;
+
+    const record: RepRecord = {
+        repNumber: this.repCount,
+        startedAt: this.descentStartTime,
+        endedAt: now,
+        descentMs: this.ascentStartTime - this.descentStartTime,
+        ascentMs: now - this.ascentStartTime,
+        minAngle: this.minAngle,
+        score,
+        faults,
+        scoreBreakdown: breakdown,
+    };
+    this.repLog = [...this.repLog, record];
+    return record;
+  }
+
+
+  /**
+   * Picks the side with the best shoulder/hip/ankle visibility for the body line.
+   * Push-ups are usually filmed side-on, so the far side is often occluded.
+   */
+  private pickBodySide(landmarks: Landmark[]): keyof typeof SIDES | null {
+    const score = (side: keyof typeof SIDES) => {
+        const s = SIDES[side];
+        return [s.shoulder, s.hip, s.ankle].reduce((acc, idx) => acc + (landmarks[idx]?.visibility || 0), 0) / 3;
+    };
+    const left = score('LEFT');
+    const right = score('RIGHT');
+    if (Math.max(left, right) < C.VISIBILITY_MIN) return null;
+    return left >= right ? 'LEFT' : 'RIGHT';
+  }
+
+  private resetRepFlags() {
+    this.minAngle = 180;
+    this.hitDepth = false;
+    this.repHadSag = false;
+    this.repHadPike = false;
+    this.speedFault = false;
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now()): ExerciseState {
+    const leftArmVisible = areLandmarksVisible(rawLandmarks, [SIDES.LEFT.shoulder, SIDES.LEFT.elbow, SIDES.LEFT.wrist], C.VISIBILITY_MIN);
+    const rightArmVisible = areLandmarksVisible(rawLandmarks, [SIDES.RIGHT.shoulder, SIDES.RIGHT.elbow, SIDES.RIGHT.wrist], C.VISIBILITY_MIN);
+
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(
+        rawLandmarks,
+        leftArmVisible || rightArmVisible,
+        timestamp
+    );
+
+    if (!landmarks) {
+        return {
+            phase: this.state,
+            angle: 180,
+            repCount: this.repCount,
+            feedback: "SHOW FULL BODY",
+            feedbackColor: "#64748B",
+            isGoodRep: null,
+            didFinishRep: false,
+            trackingMode: 'LOST',
+            visualContext: { valgus: false, baselineKneeY: 0, isDeep: false, lean: false, hipShift: false, asymmetry: false, bodyLine: 'ALIGNED' },
+            repScore: this.lastRepScore,
+            minAngleReached: 180,
+            depthHit: false,
+            faults: [],
+            scoreBreakdown: [],
+            repLog: this.repLog
+        };
+    }
+
+    // --- 1. METRICS ---
+
+    // Elbow Angle
+    const elbowAngle = (side: keyof typeof SIDES) =>
+        calculateAngle(landmarks[SIDES[side].shoulder], landmarks[SIDES[side].elbow], landmarks[SIDES[side].wrist]);
+
+    let rawAngle = 180;
+    let trackingMode: TrackingMode = 'OPTIMAL';
+
+    if (isEstimated || (leftArmVisible && rightArmVisible)) {
+        rawAngle = (elbowAngle('LEFT') + elbowAngle('RIGHT')) / 2;
+        trackingMode = isEstimated ? 'ESTIMATED' : 'OPTIMAL';
+    } else {
+        rawAngle = elbowAngle(leftArmVisible ? 'LEFT' : 'RIGHT');
+        trackingMode = 'DEGRADED';
+    }
+    const angle = this.angleSmoother.update(rawAngle, timestamp);
+
+    // Body Line (Shoulder-Hip-Ankle)
+    let inPlank = false;
+    let bodyDeviation = 0;
+    let isSagging = false;
+    const bodySide = this.pickBodySide(landmarks);
+
+    if (bodySide) {
+        const line = calculateBodyLine(
+            landmarks[SIDES[bodySide].shoulder],
+            landmarks[SIDES[bodySide].hip],
+            landmarks[SIDES[bodySide].ankle]
+        );
+        bodyDeviation = this.bodyLineSmoother.update(line.deviation, timestamp);
+        inPlank = line.incline < C.PLANK_MAX_INCLINE;
+        isSagging = line.isSagging;
+    }
+
+    // --- 2. STATE MACHINE ---
+    const now = timestamp;
+    let instantFeedback = "GET IN PLANK";
+    let instantColor = "#3B82F6";
+    let didFinishRep = false;
+
+    switch (this.state) {
+      case 'INITIALIZING':
+        if (inPlank && angle > C.TOP_ANGLE) {
+            this.state = 'NEUTRAL';
+            instantFeedback = "READY";
+            this.feedback.set("READY", "#10B981", PRIORITY.SUCCESS, 1000, now);
+        }
+        break;
+
+      case 'NEUTRAL':
+        if (!inPlank) {
+            instantFeedback = "GET IN PLANK";
+        } else if (angle < C.DESCENT_START_ANGLE) {
+            this.state = 'DESCENDING';
+            this.descentStartTime = now;
+            this.resetRepFlags();
+            this.sagDetector.reset();
+            this.pikeDetector.reset();
+            instantFeedback = "LOWER...";
+            instantColor = "#F59E0B";
+        } else {
+            instantFeedback = "GO DOWN";
+            instantColor = "#3B82F6";
+        }
+        break;
+
+      case 'DESCENDING':
+        if (angle < this.minAngle) this.minAngle = angle;
+
+        if (angle < C.DEPTH_ANGLE) {
+            this.hitDepth = true;
+            instantFeedback = "GOOD DEPTH!";
+            instantColor = "#10B981";
+            this.feedback.set(instantFeedback, instantColor, PRIORITY.SUCCESS, 1500, now);
+        } else {
+            instantFeedback = "LOWER...";
+            instantColor = "#F59E0B";
+        }
+
+        if (angle > this.minAngle + C.ASCENT_THRESHOLD && this.minAngle < C.DESCENT_START_ANGLE) {
+            this.state = 'ASCENDING';
+            this.ascentStartTime = now;
+            this.maxAscentAngle = angle;
+            if (now - this.descentStartTime < C.SPEED_MIN_MS) {
+                this.speedFault = true;
+            }
+        }
+        break;
+
+      case 'ASCENDING':
+        this.maxAscentAngle = Math.max(this.maxAscentAngle, angle);
+        instantFeedback = "PUSH!";
+        instantColor = "#10B981";
+
+        if (angle > C.TOP_ANGLE) {
+            this.state = 'NEUTRAL';
+            this.repCount++;
+            didFinishRep = true;
+
+            const { score } = this.recordRep(now);
+
+            const verdict = getRepVerdict(score);
+            this.feedback.set(verdict.message, verdict.color, PRIORITY.SUCCESS, 2000, now);
+            instantFeedback = verdict.message;
+            instantColor = verdict.color;
+        } else if (this.maxAscentAngle - angle > C.ASCENT_THRESHOLD) {
+            // Dropped back down without locking out: not a rep, keep the current rep open
+            this.state = 'DESCENDING';
+            this.feedback.set("LOCK OUT ARMS", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        }
+        break;
+    }
+
+    // --- 3. FAULT DETECTION ---
+    if (bodySide && inPlank && this.state !== 'INITIALIZING') {
+        const sagging = this.sagDetector.update(isSagging ? bodyDeviation : 0, now);
+        const piking = this.pikeDetector.update(isSagging ? 0 : bodyDeviation, now);
+
+        if (sagging) {
+            this.bodyLine = 'SAG';
+            this.repHadSag = true;
+            this.feedback.set("HIPS UP!", "#EF4444", PRIORITY.FAULT, 1000, now);
+        } else if (piking) {
+            this.bodyLine = 'PIKE';
+            this.repHadPike = true;
+            this.feedback.set("HIPS DOWN", "#F59E0B", PRIORITY.FAULT, 1000, now);
+        } else {
+            this.bodyLine = 'ALIGNED';
+        }
+    } else {
+        // No body line this frame: drop the last verdict rather than showing a stale one
+        this.sagDetector.reset();
+        this.pikeDetector.reset();
+        this.bodyLine = 'ALIGNED';
+    }
+
+    // --- FINAL FEEDBACK SELECTION ---
+    const { message: finalFeedback, color: finalColor } = this.feedback.resolve(instantFeedback, instantColor, now);
+
+    return {
+        phase: this.state,
+        angle,
+        repCount: this.repCount,
+        feedback: finalFeedback,
+        feedbackColor: finalColor,
+        isGoodRep: this.lastRepScore >= 70,
+        didFinishRep,
+        trackingMode,
+        visualContext: {
+            valgus: false,
+            baselineKneeY: 0,
+            isDeep: this.hitDepth,
+            lean: false,
+            hipShift: false,
+            asymmetry: false,
+            bodyLine: this.bodyLine,
+            estimatedJoints: estimated
+        },
+        repScore: this.lastRepScore,
+        minAngleReached: this.minAngle,
+        depthHit: this.hitDepth,
+        faults: this.lastRepFaults,
+        scoreBreakdown: this.lastRepBreakdown,
+        repLog: this.repLog
+    };
+  }
+}
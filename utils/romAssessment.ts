@@ -0,0 +1,395 @@
+import { Landmark, TrackingMode, TrackingSource, VisualContext, ExerciseMetadata, RomMotion, RomMeasurement, AssessmentStatus } from '../types';
+import { POSE_LANDMARKS, calculateAngle, hasWorldLandmarks } from './geometry';
+import { MovingAverage, LandmarkStabilizer, areLandmarksVisible } from './signal';
+import { ExerciseEngine, ExerciseState, PriorityFeedback, PRIORITY, BodySide } from './exerciseLogic';
+
+// Assessment Constants
+const ROM = {
+  VISIBILITY_MIN: 0.5,
+  SMOOTHING_MS: 150,     // Peaks come from smoothed angles, so one noisy frame cannot set them
+  START_DEG: 45,         // Motion past this starts the movement...
+  RETURN_DEG: 30,        // ...and dropping back below this ends it
+  MIN_MOVE_MS: 500,      // Shorter movements are tracking blips and are discarded
+  STEP_PAUSE_MS: 2000,   // Time to return to the start before the next movement is measured
+  ASYMMETRY_DEG: 10,     // Left/right difference reported as asymmetric
+};
+
+export interface NormativeRange {
+  min: number; // Degrees
+  max: number;
+}
+
+interface RomMotionDefinition {
+  label: string;      // e.g. "Shoulder flexion"
+  movement: string;   // Guided movement it is measured in
+  joints: Record<BodySide, [number, number, number]>; // Angle at the middle landmark
+  flexion: boolean;   // Reported as 180 minus the angle, so a straight joint is 0
+  normal: NormativeRange;
+}
+
+const BOTH_SIDES: BodySide[] = ['LEFT', 'RIGHT'];
+
+/**
+ * Measured motions in report order. Normal ranges are approximate adult active
+ * ranges from common goniometry references, adjusted for how each motion is
+ * performed here (e.g. hip flexion in a squat includes the trunk's lean).
+ * Every motion moves in the sagittal plane, towards a camera that faces the
+ * client, so it is only measured from world landmarks.
+ */
+const MOTIONS: Record<RomMotion, RomMotionDefinition> = {
+  SHOULDER_FLEXION: {
+    label: 'Shoulder flexion',
+    movement: 'Overhead reach',
+    joints: {
+      LEFT: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW],
+      RIGHT: [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW],
+    },
+    flexion: false,
+    normal: { min: 150, max: 180 },
+  },
+  SQUAT_HIP_FLEXION: {
+    label: 'Hip flexion',
+    movement: 'Deep squat',
+    joints: {
+      LEFT: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+      RIGHT: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+    },
+    flexion: true,
+    normal: { min: 95, max: 130 },
+  },
+  SQUAT_KNEE_FLEXION: {
+    label: 'Knee flexion',
+    movement: 'Deep squat',
+    joints: {
+      LEFT: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+      RIGHT: [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+    },
+    flexion: true,
+    normal: { min: 120, max: 150 },
+  },
+  STANDING_HIP_FLEXION: {
+    label: 'Hip flexion',
+    movement: 'Single-leg stance',
+    joints: {
+      LEFT: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+      RIGHT: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+    },
+    flexion: true,
+    normal: { min: 90, max: 125 },
+  },
+};
+
+const MOTION_ORDER = Object.keys(MOTIONS) as RomMotion[];
+
+/**
+ * One guided movement. `drive` is the motion whose angle marks the start
+ * and end of the movement; every motion in `motions` is measured during it.
+ */
+interface AssessmentStep {
+  movement: string;
+  cue: string;          // HUD cue
+  instruction: string;  // Shown in the panel
+  motions: RomMotion[];
+  sides: BodySide[];
+  drive: RomMotion;
+}
+
+const STEPS: AssessmentStep[] = [
+  {
+    movement: 'Overhead reach',
+    cue: 'REACH OVERHEAD',
+    instruction: 'Raise both arms straight up as high as you can, then lower them.',
+    motions: ['SHOULDER_FLEXION'],
+    sides: BOTH_SIDES,
+    drive: 'SHOULDER_FLEXION',
+  },
+  {
+    movement: 'Deep squat',
+    cue: 'SQUAT DEEP',
+    instruction: 'Squat as deep as you comfortably can, then stand back up.',
+    motions: ['SQUAT_HIP_FLEXION', 'SQUAT_KNEE_FLEXION'],
+    sides: BOTH_SIDES,
+    drive: 'SQUAT_KNEE_FLEXION',
+  },
+  {
+    movement: 'Single-leg stance (left knee up)',
+    cue: 'LIFT LEFT KNEE',
+    instruction: 'Stand on your right leg, lift your left knee as high as you can, then put it down.',
+    motions: ['STANDING_HIP_FLEXION'],
+    sides: ['LEFT'],
+    drive: 'STANDING_HIP_FLEXION',
+  },
+  {
+    movement: 'Single-leg stance (right knee up)',
+    cue: 'LIFT RIGHT KNEE',
+    instruction: 'Stand on your left leg, lift your right knee as high as you can, then put it down.',
+    motions: ['STANDING_HIP_FLEXION'],
+    sides: ['RIGHT'],
+    drive: 'STANDING_HIP_FLEXION',
+  },
+];
+
+const TORSO = [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP];
+
+export const ROM_ASSESSMENT_METADATA: ExerciseMetadata = {
+  type: 'ROM_ASSESSMENT',
+  name: 'ROM Assessment',
+  mode: 'ASSESSMENT',
+  description: 'Guided overhead reach, deep squat and single-leg stance; reports peak joint angles per side.',
+  primaryJoint: 'Moving joint',
+  angleHint: '0 is the joint\'s neutral position',
+};
+
+export type RomStatus = 'NORMAL' | 'LIMITED';
+
+/**
+ * One line of the range-of-motion report. Changes are against the baseline
+ * assessment and are positive when the range improved.
+ */
+export interface RomReportRow {
+  motion: RomMotion;
+  label: string;
+  movement: string;
+  normal: NormativeRange;
+  left: number | null;
+  right: number | null;
+  leftStatus: RomStatus | null;
+  rightStatus: RomStatus | null;
+  difference: number | null; // Left/right, degrees
+  asymmetric: boolean;
+  leftChange: number | null;
+  rightChange: number | null;
+}
+
+const romStatus = (motion: RomMotion, value: number | null): RomStatus | null => {
+  if (value === null) return null;
+  return value < MOTIONS[motion].normal.min ? 'LIMITED' : 'NORMAL';
+};
+
+const change = (current: number | null, baseline: number | null | undefined): number | null =>
+  current !== null && baseline !== null && baseline !== undefined ? current - baseline : null;
+
+/**
+ * Builds the report for an assessment, with one row per motion in report
+ * order. Motions that were not measured keep their row with null values.
+ */
+export const buildRomReport = (measurements: readonly RomMeasurement[], baseline: readonly RomMeasurement[] | null = null): RomReportRow[] => {
+  return MOTION_ORDER.map(motion => {
+    const { label, movement, normal } = MOTIONS[motion];
+    const measured = measurements.find(m => m.motion === motion);
+    const before = baseline?.find(m => m.motion === motion);
+    const left = measured?.left ?? null;
+    const right = measured?.right ?? null;
+    const difference = left !== null && right !== null ? Math.abs(left - right) : null;
+
+    return {
+      motion,
+      label,
+      movement,
+      normal,
+      left,
+      right,
+      leftStatus: romStatus(motion, left),
+      rightStatus: romStatus(motion, right),
+      difference,
+      asymmetric: difference !== null && difference > ROM.ASYMMETRY_DEG,
+      leftChange: change(left, before?.left),
+      rightChange: change(right, before?.right),
+    };
+  });
+};
+
+const peakKey = (motion: RomMotion, side: BodySide) => `${motion}:${side}`;
+
+/**
+ * Guides the client through a fixed sequence of movements and records the
+ * peak angle of each motion on each side. A movement starts when its drive
+ * angle passes START_DEG and is measured once the client returns below
+ * RETURN_DEG. Only joints that were actually seen are measured: landmarks
+ * the stabilizer is predicting never set a peak, and without world landmarks
+ * nothing is measured because image angles foreshorten sagittal motion.
+ */
+export class RomAssessmentMechanics implements ExerciseEngine {
+  readonly metadata = ROM_ASSESSMENT_METADATA;
+
+  private stabilizer = new LandmarkStabilizer();
+  private smoothers: Map<string, MovingAverage> = new Map();
+  private measured: Map<string, number> = new Map();    // Committed peaks
+  private attemptPeaks: Map<string, number> = new Map(); // Peaks of the movement in progress
+  private step: number = 0;
+  private moving: boolean = false;
+  private movingSince: number = 0;
+  private readyAt: number = 0;
+  private currentStatus: AssessmentStatus | null = null;
+
+  private feedback = new PriorityFeedback(STEPS[0].cue, "#3B82F6");
+
+  reset() {
+    this.stabilizer.reset();
+    this.smoothers = new Map();
+    this.measured = new Map();
+    this.attemptPeaks = new Map();
+    this.step = 0;
+    this.moving = false;
+    this.movingSince = 0;
+    this.readyAt = 0;
+    this.currentStatus = null;
+    this.feedback.reset();
+  }
+
+  private get complete(): boolean {
+    return this.step >= STEPS.length;
+  }
+
+  private measurements(): RomMeasurement[] {
+    const peak = (motion: RomMotion, side: BodySide) => {
+      const value = this.measured.get(peakKey(motion, side));
+      return value === undefined ? null : Math.round(value);
+    };
+    return MOTION_ORDER
+      .filter(motion => BOTH_SIDES.some(side => this.measured.has(peakKey(motion, side))))
+      .map(motion => ({ motion, left: peak(motion, 'LEFT'), right: peak(motion, 'RIGHT') }));
+  }
+
+  /**
+   * The same object is returned until the assessment moves on, so the UI only
+   * re-renders on progress.
+   */
+  private status(): AssessmentStatus {
+    if (this.currentStatus) return this.currentStatus;
+    const current = STEPS[Math.min(this.step, STEPS.length - 1)];
+    this.currentStatus = {
+      step: Math.min(this.step, STEPS.length - 1),
+      stepCount: STEPS.length,
+      movement: current.movement,
+      instruction: this.complete ? 'Assessment complete.' : current.instruction,
+      complete: this.complete,
+      measurements: this.measurements(),
+    };
+    return this.currentStatus;
+  }
+
+  /**
+   * Smoothed angle of a motion on one side, or null when any of its joints
+   * is hidden or estimated this frame.
+   */
+  private measure(motion: RomMotion, side: BodySide, rawLandmarks: Landmark[], world: Landmark[], estimated: boolean[], now: number): number | null {
+    const { flexion } = MOTIONS[motion];
+    const joints = MOTIONS[motion].joints[side];
+    if (!areLandmarksVisible(rawLandmarks, joints, ROM.VISIBILITY_MIN) || joints.some(i => estimated[i])) return null;
+
+    const [a, b, c] = joints.map(i => world[i]);
+    const angle = calculateAngle(a, b, c);
+    const key = peakKey(motion, side);
+    if (!this.smoothers.has(key)) this.smoothers.set(key, new MovingAverage(ROM.SMOOTHING_MS));
+    return this.smoothers.get(key)!.update(flexion ? 180 - angle : angle, now);
+  }
+
+  private finishStep(now: number) {
+    this.attemptPeaks.forEach((value, key) => this.measured.set(key, value));
+    this.attemptPeaks = new Map();
+    this.moving = false;
+    this.step++;
+    this.currentStatus = null;
+    this.readyAt = now + ROM.STEP_PAUSE_MS;
+    if (this.complete) {
+      this.feedback.set("ASSESSMENT DONE", "#10B981", PRIORITY.SUCCESS, ROM.STEP_PAUSE_MS, now);
+    } else {
+      this.feedback.set("GOT IT", "#10B981", PRIORITY.SUCCESS, ROM.STEP_PAUSE_MS, now);
+    }
+  }
+
+  private baseVisualContext(): VisualContext {
+    return { valgus: false, baselineKneeY: 0, isDeep: false, lean: false, hipShift: false, asymmetry: false };
+  }
+
+  update(rawLandmarks: Landmark[], timestamp: number = Date.now(), worldLandmarks: Landmark[] | null = null): ExerciseState {
+    const isTrackable = areLandmarksVisible(rawLandmarks, TORSO, ROM.VISIBILITY_MIN);
+    const { landmarks, isEstimated, estimated } = this.stabilizer.process(rawLandmarks, isTrackable, timestamp);
+    const now = timestamp;
+
+    const state = (angle: number, feedback: string, feedbackColor: string, trackingMode: TrackingMode, extra: Partial<ExerciseState> = {}): ExerciseState => ({
+        phase: this.complete ? 'COMPLETE' : 'ASSESSING',
+        angle,
+        repCount: 0,
+        feedback,
+        feedbackColor,
+        isGoodRep: null,
+        didFinishRep: false,
+        trackingMode,
+        visualContext: this.baseVisualContext(),
+        repScore: 0,
+        minAngleReached: angle,
+        depthHit: false,
+        faults: [],
+        scoreBreakdown: [],
+        repLog: [],
+        assessment: this.status(),
+        ...extra,
+    });
+
+    if (!landmarks) {
+        return state(0, "SHOW FULL BODY", "#64748B", 'LOST');
+    }
+
+    // World landmarks give true joint angles, free of camera perspective.
+    // They are not stabilized, so `measure` skips each joint the stabilizer is estimating.
+    const world = hasWorldLandmarks(worldLandmarks) ? worldLandmarks : null;
+    const trackingSource: TrackingSource = world ? 'WORLD_3D' : 'IMAGE_2D';
+    const trackingMode: TrackingMode = isEstimated ? 'ESTIMATED' : 'OPTIMAL';
+    const visualContext = { ...this.baseVisualContext(), estimatedJoints: estimated };
+
+    if (this.complete) {
+        const { message, color } = this.feedback.resolve("ASSESSMENT DONE", "#10B981", now);
+        return state(0, message, color, trackingMode, { trackingSource, visualContext });
+    }
+
+    // --- 1. METRICS ---
+    const step = STEPS[this.step];
+    const angles = new Map<string, number>();
+    if (world) {
+        step.motions.forEach(motion => step.sides.forEach(side => {
+            const value = this.measure(motion, side, rawLandmarks, world, estimated, now);
+            if (value !== null) angles.set(peakKey(motion, side), value);
+        }));
+    }
+    const driveAngles = step.sides
+        .map(side => angles.get(peakKey(step.drive, side)))
+        .filter((value): value is number => value !== undefined);
+    const drive = driveAngles.length > 0 ? Math.max(...driveAngles) : null;
+
+    // --- 2. STEP PROGRESS ---
+    let instantFeedback = step.cue;
+    let instantColor = "#3B82F6";
+
+    if (!world) {
+        instantFeedback = "NEEDS 3D TRACKING";
+        instantColor = "#64748B";
+    } else if (drive === null) {
+        instantFeedback = "SHOW FULL BODY";
+        instantColor = "#64748B";
+    } else if (now >= this.readyAt) {
+        if (!this.moving && drive > ROM.START_DEG) {
+            this.moving = true;
+            this.movingSince = now;
+        }
+        if (this.moving) {
+            angles.forEach((value, key) => this.attemptPeaks.set(key, Math.max(this.attemptPeaks.get(key) ?? 0, value)));
+            instantFeedback = "AS FAR AS YOU CAN";
+            instantColor = "#10B981";
+
+            if (drive < ROM.RETURN_DEG) {
+                if (now - this.movingSince >= ROM.MIN_MOVE_MS) {
+                    this.finishStep(now);
+                } else {
+                    this.moving = false;
+                    this.attemptPeaks = new Map();
+                }
+            }
+        }
+    }
+
+    const { message, color } = this.feedback.resolve(instantFeedback, instantColor, now);
+    return state(drive ?? 0, message, color, trackingMode, { trackingSource, visualContext });
+  }
+}
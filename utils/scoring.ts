@@ -0,0 +1,121 @@
+
+/**
+ * One line of a scoring rubric.
+ * Flat rules deduct `penalty` whenever the fault occurred. Graded rules scale the
+ * deduction linearly from `penalty` at `grade.from` up to `grade.maxPenalty` at
+ * `grade.to`, using the severity the engine measured (e.g. degrees of excess lean).
+ */
+export interface RubricRule {
+  label: string;
+  penalty: number;
+  grade?: {
+    from: number;
+    to: number;
+    maxPenalty: number;
+  };
+}
+
+export type ScoringRubric<F extends string> = Record<F, RubricRule>;
+
+// Per-fault adjustments stored in client profiles
+export type RubricOverrides<F extends string> = Partial<Record<F, Partial<RubricRule>>>;
+
+/**
+ * A fault the engine saw during the rep.
+ * `label` overrides the rubric label when the cue depends on the rep (e.g. "IMBALANCE L").
+ */
+export interface FaultOccurrence<F extends string> {
+  fault: F;
+  severity?: number;
+  label?: string;
+}
+
+/**
+ * One entry of the per-rep score breakdown.
+ */
+export interface FaultPenalty {
+  fault: string;
+  label: string;
+  penalty: number;
+  severity?: number;
+}
+
+export interface RepScore {
+  score: number;
+  faults: string[];
+  breakdown: FaultPenalty[];
+}
+
+const rulePenalty = (rule: RubricRule, severity?: number): number => {
+  if (!rule.grade || severity === undefined) return rule.penalty;
+  const { from, to, maxPenalty } = rule.grade;
+  const t = Math.max(0, Math.min(1, (severity - from) / (to - from)));
+  return rule.penalty + (maxPenalty - rule.penalty) * t;
+};
+
+/**
+ * Scores a rep out of 100 against a rubric. Penalties are rounded to whole points
+ * so the breakdown always adds up to the displayed score (floored at 0).
+ */
+export const scoreRep = <F extends string>(rubric: ScoringRubric<F>, occurrences: FaultOccurrence<F>[]): RepScore => {
+  const breakdown: FaultPenalty[] = occurrences.map(({ fault, severity, label }) => {
+    const rule = rubric[fault];
+    return {
+      fault,
+      label: label ?? rule.label,
+      penalty: Math.round(rulePenalty(rule, severity)),
+      severity,
+    };
+  });
+
+  const total = breakdown.reduce((acc, item) => acc + item.penalty, 0);
+  return {
+    score: Math.max(0, 100 - total),
+    faults: breakdown.map(item => item.label),
+    breakdown,
+  };
+};
+
+/**
+ * Applies per-fault overrides on top of a base rubric. Unknown faults are ignored.
+ */
+export const applyRubricOverrides = <F extends string>(base: ScoringRubric<F>, overrides: RubricOverrides<F> = {}): ScoringRubric<F> => {
+  const rubric = { ...base };
+  (Object.keys(base) as F[]).forEach(fault => {
+    const override = overrides[fault];
+    if (!override) return;
+    const rule = base[fault];
+    rubric[fault] = {
+      ...rule,
+      ...override,
+      grade: rule.grade && { ...rule.grade, ...override.grade },
+    };
+  });
+  return rubric;
+};
+
+/**
+ * Checks penalty weights: every deduction within 0-100 and graded rules
+ * with an increasing severity range and a maximum at least the base penalty.
+ */
+export const validateRubric = <F extends string>(rubric: ScoringRubric<F>): string[] => {
+  const errors: string[] = [];
+  const inRange = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+  (Object.values(rubric) as RubricRule[]).forEach(rule => {
+    if (!inRange(rule.penalty)) {
+      errors.push(`${rule.label} penalty must be between 0 and 100`);
+    }
+    if (rule.grade) {
+      if (!inRange(rule.grade.maxPenalty)) {
+        errors.push(`${rule.label} maximum penalty must be between 0 and 100`);
+      } else if (rule.grade.maxPenalty < rule.penalty) {
+        errors.push(`${rule.label} maximum penalty must be at least its base penalty`);
+      }
+      if (!(rule.grade.to > rule.grade.from)) {
+        errors.push(`${rule.label} severity range must be increasing`);
+      }
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,123 @@
+
+import { ExerciseState, ExercisePhase, RepRecord, BodySide } from './exerciseLogic';
+
+// Summary Constants
+const C = {
+  MAX_CHART_POINTS: 400, // Angle series is decimated to this many points
+};
+
+/**
+ * One frame of set telemetry. Collected for the whole set (unlike the
+ * short Gemini history buffer) so the summary can chart every rep.
+ */
+export interface TelemetrySample {
+  t: number;     // Epoch ms
+  angle: number; // Primary joint, degrees
+  phase: ExercisePhase;
+}
+
+export interface FaultCount {
+  label: string;
+  count: number;
+}
+
+export interface AsymmetryPoint {
+  repNumber: number;
+  diff: number;                // Degrees
+  side: BodySide | 'NONE';
+}
+
+export interface SideSummary {
+  reps: number;
+  averageScore: number;
+  averageMinAngle: number;
+}
+
+export interface SetSummary {
+  durationMs: number;
+  reps: readonly RepRecord[];
+  averageScore: number | null;
+  bestRep: RepRecord | null;
+  worstRep: RepRecord | null;
+  angleSeries: { t: number; angle: number }[]; // t = ms since set start
+  repEnds: number[];                            // ms since set start
+  faultCounts: FaultCount[];                    // Most frequent first
+  asymmetryTrend: AsymmetryPoint[];             // Bilateral engines with L/R tracking
+  sideComparison: Record<BodySide, SideSummary> | null; // Unilateral engines
+  averageTempoScore: number | null;             // Reps coached against a prescribed tempo
+  velocityLoss: number | null;                  // Last measured rep against the fastest, percent
+}
+
+export const toTelemetrySample = (state: ExerciseState, t: number): TelemetrySample => ({
+  t,
+  angle: state.angle,
+  phase: state.phase,
+});
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+/**
+ * Keeps the min and max of each bucket so rep bottoms survive decimation.
+ */
+const decimate = (samples: TelemetrySample[], maxPoints: number): TelemetrySample[] => {
+  if (samples.length <= maxPoints) return samples;
+  const bucketSize = Math.ceil(samples.length / (maxPoints / 2));
+  const result: TelemetrySample[] = [];
+  for (let i = 0; i < samples.length; i += bucketSize) {
+    const bucket = samples.slice(i, i + bucketSize);
+    const min = bucket.reduce((a, b) => (b.angle < a.angle ? b : a));
+    const max = bucket.reduce((a, b) => (b.angle > a.angle ? b : a));
+    result.push(...(min.t <= max.t ? [min, max] : [max, min]));
+  }
+  return result;
+};
+
+/**
+ * Builds the end-of-set summary from the set telemetry and the engine's rep log.
+ */
+export const summarizeSet = (samples: TelemetrySample[], repLog: readonly RepRecord[]): SetSummary => {
+  const start = samples.length > 0 ? samples[0].t : (repLog[0]?.startedAt ?? 0);
+  const end = samples.length > 0 ? samples[samples.length - 1].t : (repLog[repLog.length - 1]?.endedAt ?? start);
+
+  const scores = repLog.map(r => r.score);
+  const tempoScores = repLog.filter(r => r.tempoScore !== undefined).map(r => r.tempoScore!);
+  const velocityReps = repLog.filter(r => r.velocityLoss !== undefined);
+  const byScore = [...repLog].sort((a, b) => b.score - a.score);
+
+  const faultMap = new Map<string, number>();
+  repLog.forEach(rep => rep.faults.forEach(label => faultMap.set(label, (faultMap.get(label) ?? 0) + 1)));
+  const faultCounts = Array.from(faultMap, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const asymmetryTrend = repLog
+    .filter(rep => rep.maxLegAngleDiff !== undefined)
+    .map(rep => ({ repNumber: rep.repNumber, diff: rep.maxLegAngleDiff!, side: rep.asymmetrySide ?? 'NONE' }));
+
+  let sideComparison: Record<BodySide, SideSummary> | null = null;
+  if (repLog.some(rep => rep.side)) {
+    const summarizeSide = (side: BodySide): SideSummary => {
+      const reps = repLog.filter(rep => rep.side === side);
+      return {
+        reps: reps.length,
+        averageScore: reps.length > 0 ? mean(reps.map(r => r.score)) : 0,
+        averageMinAngle: reps.length > 0 ? mean(reps.map(r => r.minAngle)) : 0,
+      };
+    };
+    sideComparison = { LEFT: summarizeSide('LEFT'), RIGHT: summarizeSide('RIGHT') };
+  }
+
+  return {
+    durationMs: end - start,
+    reps: repLog,
+    averageScore: scores.length > 0 ? Math.round(mean(scores)) : null,
+    bestRep: byScore[0] ?? null,
+    worstRep: byScore[byScore.length - 1] ?? null,
+    angleSeries: decimate(samples, C.MAX_CHART_POINTS).map(s => ({ t: s.t - start, angle: s.angle })),
+    repEnds: repLog.map(rep => rep.endedAt - start),
+    faultCounts,
+    asymmetryTrend,
+    sideComparison,
+    averageTempoScore: tempoScores.length > 0 ? Math.round(mean(tempoScores)) : null,
+    velocityLoss: velocityReps.length > 0 ? Math.round(velocityReps[velocityReps.length - 1].velocityLoss!) : null,
+  };
+};
@@ -1,26 +1,36 @@
 
 import { Landmark } from '../types';
 
+interface TimedSample {
+  t: number;     // ms
+  value: number;
+}
+
 /**
- * A buffer that stores the last N numeric values and calculates their average.
+ * Averages the values received in the last `windowMs` milliseconds.
  * Used to smooth out jittery MediaPipe data (Low-pass filter).
+ * The window is in time rather than samples so smoothing is the same at any frame rate.
  */
-export class MovingAverage {
-  private buffer: number[] = [];
-  private readonly size: number;
+export class MovingAverage implements SignalFilter {
+  private buffer: TimedSample[] = [];
+  private readonly windowMs: number;
 
-  constructor(size: number = 5) {
-    this.size = size;
+  constructor(windowMs: number = 150) {
+    this.windowMs = windowMs;
   }
 
   /**
-   * Adds a new value to the buffer and returns the current average.
+   * Adds a new value at time `now` (ms) and returns the current average.
    */
-  update(value: number): number {
-    this.buffer.push(value);
+  update(value: number, now: number): number {
+    // Time went backwards (rewound video / new replay): old samples no longer apply
+    if (this.buffer.length > 0 && now < this.buffer[this.buffer.length - 1].t) {
+      this.buffer = [];
+    }
+    this.buffer.push({ t: now, value });
     
-    // Maintain fixed window size
-    if (this.buffer.length > this.size) {
+    // Drop samples that fell out of the window (the newest is always kept)
+    while (this.buffer.length > 1 && this.buffer[0].t <= now - this.windowMs) {
       this.buffer.shift();
     }
     
@@ -32,7 +42,7 @@ export class MovingAverage {
    */
   average(): number {
     if (this.buffer.length === 0) return 0;
-    const sum = this.buffer.reduce((acc, val) => acc + val, 0);
+    const sum = this.buffer.reduce((acc, s) => acc + s.value, 0);
     return sum / this.buffer.length;
   }
 
@@ -46,26 +56,32 @@ export class MovingAverage {
 
 /**
  * Exponential Moving Average (EMA) for stable baseline tracking.
+ * The weight of each sample depends on the time since the previous one,
+ * so `timeConstantMs` means the same thing at any frame rate.
  */
-export class ExponentialMovingAverage {
+export class ExponentialMovingAverage implements SignalFilter {
   private value: number | null = null;
-  private readonly alpha: number;
+  private lastTime: number = 0;
+  private readonly timeConstantMs: number;
 
-  constructor(window: number = 30) {
-    this.alpha = 2 / (window + 1);
+  constructor(timeConstantMs: number = 500) {
+    this.timeConstantMs = timeConstantMs;
   }
 
-  update(newValue: number): number {
-    if (this.value === null) {
+  update(newValue: number, now: number): number {
+    if (this.value === null || now < this.lastTime) {
       this.value = newValue;
     } else {
-      this.value = this.alpha * newValue + (1 - this.alpha) * this.value;
+      const alpha = 1 - Math.exp(-(now - this.lastTime) / this.timeConstantMs);
+      this.value = alpha * newValue + (1 - alpha) * this.value;
     }
+    this.lastTime = now;
     return this.value;
   }
   
   reset() {
     this.value = null;
+    this.lastTime = 0;
   }
 
   getValue(): number {
@@ -73,6 +89,155 @@ export class ExponentialMovingAverage {
   }
 }
 
+/**
+ * A scalar filter over timestamped samples (ms). Every smoother in this file
+ * implements it, so engines can swap them through `FilterSettings`.
+ */
+export interface SignalFilter {
+  update(value: number, now: number): number;
+  reset(): void;
+}
+
+const lowPassAlpha = (cutoffHz: number, dtSeconds: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dtSeconds);
+};
+
+/**
+ * One Euro filter (Casiez et al., 2012): a low-pass whose cutoff rises with
+ * the signal's speed. Slow movement is smoothed heavily, fast movement passes
+ * with little lag. `minCutoff` and `derivativeCutoff` are in Hz; `beta` scales
+ * the cutoff per unit/s of speed, so it depends on the signal's units.
+ */
+export class OneEuroFilter implements SignalFilter {
+  private value: number | null = null;
+  private derivative: number = 0;
+  private lastTime: number = 0;
+
+  constructor(
+    private readonly minCutoff: number = 1.0,
+    private readonly beta: number = 0.007,
+    private readonly derivativeCutoff: number = 1.0
+  ) {}
+
+  update(newValue: number, now: number): number {
+    if (this.value === null || now < this.lastTime) {
+      this.value = newValue;
+      this.derivative = 0;
+      this.lastTime = now;
+      return this.value;
+    }
+    // Duplicate timestamp: no time has passed to filter over
+    if (now === this.lastTime) return this.value;
+
+    const dt = (now - this.lastTime) / 1000;
+    this.lastTime = now;
+
+    const rawDerivative = (newValue - this.value) / dt;
+    const derivativeAlpha = lowPassAlpha(this.derivativeCutoff, dt);
+    this.derivative = derivativeAlpha * rawDerivative + (1 - derivativeAlpha) * this.derivative;
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    const alpha = lowPassAlpha(cutoff, dt);
+    this.value = alpha * newValue + (1 - alpha) * this.value;
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTime = 0;
+  }
+}
+
+/**
+ * Constant-velocity Kalman filter for one coordinate. Tracks position and
+ * velocity, so a steady movement is followed without the lag of an average.
+ * `processNoise` is the acceleration variance (units²/s³) and
+ * `measurementNoise` the variance of a single measurement (units²).
+ */
+export class KalmanFilter implements SignalFilter {
+  private position: number | null = null;
+  private velocity: number = 0;
+  // Covariance [[p00, p01], [p01, p11]]
+  private p00: number = 0;
+  private p01: number = 0;
+  private p11: number = 0;
+  private lastTime: number = 0;
+
+  constructor(
+    private readonly processNoise: number = 1,
+    private readonly measurementNoise: number = 0.01
+  ) {}
+
+  update(measurement: number, now: number): number {
+    if (this.position === null || now < this.lastTime) {
+      this.position = measurement;
+      this.velocity = 0;
+      this.p00 = this.measurementNoise;
+      this.p01 = 0;
+      this.p11 = 1e3 * this.measurementNoise;
+      this.lastTime = now;
+      return this.position;
+    }
+
+    const dt = (now - this.lastTime) / 1000;
+    this.lastTime = now;
+
+    // Predict: x' = F x, P' = F P Fᵀ + Q
+    this.position += this.velocity * dt;
+    const q = this.processNoise;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * dt * dt * dt / 3;
+    const p01 = this.p01 + dt * this.p11 + q * dt * dt / 2;
+    const p11 = this.p11 + q * dt;
+
+    // Correct with the position measurement
+    const innovation = measurement - this.position;
+    const s = p00 + this.measurementNoise;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 = p11 - k1 * p01;
+
+    return this.position;
+  }
+
+  reset() {
+    this.position = null;
+    this.velocity = 0;
+    this.p00 = 0;
+    this.p01 = 0;
+    this.p11 = 0;
+    this.lastTime = 0;
+  }
+}
+
+/**
+ * Serializable filter choice, so engines and profiles can pick a smoother
+ * without constructing it themselves.
+ */
+export type FilterSettings =
+  | { kind: 'MOVING_AVERAGE'; windowMs: number }
+  | { kind: 'EMA'; timeConstantMs: number }
+  | { kind: 'ONE_EURO'; minCutoff: number; beta: number; derivativeCutoff?: number }
+  | { kind: 'KALMAN'; processNoise: number; measurementNoise: number };
+
+export const createFilter = (settings: FilterSettings): SignalFilter => {
+  switch (settings.kind) {
+    case 'MOVING_AVERAGE':
+      return new MovingAverage(settings.windowMs);
+    case 'EMA':
+      return new ExponentialMovingAverage(settings.timeConstantMs);
+    case 'ONE_EURO':
+      return new OneEuroFilter(settings.minCutoff, settings.beta, settings.derivativeCutoff);
+    case 'KALMAN':
+      return new KalmanFilter(settings.processNoise, settings.measurementNoise);
+  }
+};
+
 /**
  * Checks if all specified landmarks meet the minimum visibility threshold.
  */
@@ -100,80 +265,189 @@ const lerpLandmark = (prev: Landmark, curr: Landmark, t: number): Landmark => {
 };
 
 /**
- * Stabilizer that implements robust filtering with interpolation.
+ * Last stabilized position of one landmark and its velocity (units per ms),
+ * measured while the landmark was confidently visible.
+ */
+interface LandmarkTrack {
+  position: Landmark;
+  vx: number;
+  vy: number;
+  vz: number;
+  updatedAt: number;
+  confidentAt: number; // Last time the landmark was measured with high confidence
+}
+
+export interface StabilizedFrame {
+  landmarks: Landmark[] | null;
+  isEstimated: boolean;  // The key joints (hips, knees, ankles) are seen with low confidence on average
+  estimated: boolean[];  // Per landmark: position is predicted or blended with old data
+}
+
+/**
+ * Stabilizer that weighs every landmark by its own visibility.
  * - Visibility > 0.7: Trust current fully
- * - Visibility < 0.5: Use last known (if available)
- * - Visibility 0.5-0.7: Interpolate
+ * - Visibility < 0.5: Follow the predicted position, drifting slowly to the measurement
+ * - Visibility 0.5-0.7: Interpolate between prediction and measurement
+ * The prediction continues each landmark's last confident velocity for a short
+ * time, so an occluded joint keeps moving with the body instead of freezing.
+ * Blend factors are defined per 30fps frame and scaled by the actual frame
+ * interval, and the dropout allowance is in milliseconds.
+ * An optional `coordinateFilter` then smooths x, y and z of every landmark
+ * with its own filter instance (visibility is left as measured).
  */
 export class LandmarkStabilizer {
-  private lastValidLandmarks: Landmark[] | null = null;
-  private missingFrames: number = 0;
-  private readonly maxMissingFrames: number = 10;
+  private tracks: LandmarkTrack[] | null = null;
+  private coordinateFilters: SignalFilter[][] = []; // Per landmark: x, y, z
+  private lastValidTime: number = 0;
+  private lastFrameTime: number | null = null;
+  private readonly maxMissingMs: number = 350;
+  private readonly maxPredictionMs: number = 200;
+  private readonly REFERENCE_FRAME_MS = 1000 / 30;
   private readonly LOW_CONFIDENCE = 0.5;
   private readonly HIGH_CONFIDENCE = 0.7;
+  private readonly KEY_INDICES = [23, 24, 25, 26, 27, 28]; // Hips, Knees, Ankles
+
+  constructor(private readonly coordinateFilter: FilterSettings | null = null) {}
 
   reset() {
-    this.lastValidLandmarks = null;
-    this.missingFrames = 0;
+    this.tracks = null;
+    this.lastValidTime = 0;
+    this.lastFrameTime = null;
+    this.coordinateFilters = [];
+  }
+
+  private filterCoordinates(landmarks: Landmark[], now: number): Landmark[] {
+    const settings = this.coordinateFilter;
+    if (!settings) return landmarks;
+    return landmarks.map((landmark, i) => {
+      if (!this.coordinateFilters[i]) {
+        this.coordinateFilters[i] = [createFilter(settings), createFilter(settings), createFilter(settings)];
+      }
+      const [fx, fy, fz] = this.coordinateFilters[i];
+      return { ...landmark, x: fx.update(landmark.x, now), y: fy.update(landmark.y, now), z: fz.update(landmark.z, now) };
+    });
+  }
+
+  private startTrack(landmark: Landmark, now: number): LandmarkTrack {
+    return { position: { ...landmark }, vx: 0, vy: 0, vz: 0, updatedAt: now, confidentAt: now };
+  }
+
+  /**
+   * Where the landmark should be now if it kept its last confident velocity.
+   * Extrapolation stops `maxPredictionMs` after the last confident measurement.
+   */
+  private predict(track: LandmarkTrack, now: number): Landmark {
+    const horizonEnd = track.confidentAt + this.maxPredictionMs;
+    const span = Math.max(0, Math.min(now, horizonEnd) - track.updatedAt);
+    const { position } = track;
+    return {
+      x: position.x + track.vx * span,
+      y: position.y + track.vy * span,
+      z: position.z + track.vz * span,
+      visibility: position.visibility,
+    };
+  }
+
+  /**
+   * Per-frame weight of the new measurement for a landmark of this visibility.
+   */
+  private measurementWeight(visibility: number): number {
+    if (visibility >= this.HIGH_CONFIDENCE) return 1.0; // Trust current
+    if (visibility <= this.LOW_CONFIDENCE) return 0.1;  // Trust prediction heavily
+    // Interpolate 0.5 to 0.7 -> 0.0 to 1.0
+    return (visibility - this.LOW_CONFIDENCE) / (this.HIGH_CONFIDENCE - this.LOW_CONFIDENCE);
   }
 
   /**
    * Processes current landmarks and applies stabilization.
    * @param currentLandmarks The raw landmarks from MediaPipe
    * @param isValid External check if the pose is generally valid
+   * @param now Frame timestamp in ms
    */
-  process(currentLandmarks: Landmark[], isValid: boolean): { 
-    landmarks: Landmark[] | null; 
-    isEstimated: boolean 
-  } {
-    if (!this.lastValidLandmarks) {
+  process(currentLandmarks: Landmark[], isValid: boolean, now: number): StabilizedFrame {
+    const previousFrameTime = this.lastFrameTime;
+    this.lastFrameTime = now;
+
+    if (!this.tracks) {
       // First frame or lost tracking reset
       if (isValid) {
-        this.lastValidLandmarks = [...currentLandmarks];
-        this.missingFrames = 0;
-        return { landmarks: currentLandmarks, isEstimated: false };
+        this.tracks = currentLandmarks.map(landmark => this.startTrack(landmark, now));
+        this.lastValidTime = now;
+        return {
+          landmarks: this.filterCoordinates(currentLandmarks, now),
+          isEstimated: false,
+          estimated: currentLandmarks.map(() => false),
+        };
       }
-      return { landmarks: null, isEstimated: false };
+      return { landmarks: null, isEstimated: false, estimated: [] };
     }
 
-    // Determine how "good" this new frame is overall?
-    // We will use the `isValid` flag to determine if we should even consider this frame,
-    // but applying interpolation based on a "Global Confidence".
-    
     if (!isValid) {
-        // Lost track completely
-        this.missingFrames++;
-        if (this.missingFrames <= this.maxMissingFrames) {
-            return { landmarks: this.lastValidLandmarks, isEstimated: true };
+        // Lost track completely: carry every landmark forward on its prediction
+        if (now - this.lastValidTime <= this.maxMissingMs) {
+            const predicted = this.tracks.map(track => {
+                track.position = this.predict(track, now);
+                track.updatedAt = now;
+                return { ...track.position };
+            });
+            return { landmarks: predicted, isEstimated: true, estimated: predicted.map(() => true) };
         }
-        return { landmarks: null, isEstimated: false };
+        return { landmarks: null, isEstimated: false, estimated: [] };
     }
 
-    this.missingFrames = 0;
-
-    // "Smart" Interpolation
-    // We calculate a mixing factor based on average visibility of key joints (Hips, Knees, Ankles)
-    const keyIndices = [23, 24, 25, 26, 27, 28]; // Hips, Knees, Ankles
-    const avgVis = keyIndices.reduce((acc, idx) => acc + (currentLandmarks[idx]?.visibility || 0), 0) / keyIndices.length;
-
-    let t = 1.0;
-    if (avgVis >= this.HIGH_CONFIDENCE) {
-        t = 1.0; // Trust current
-    } else if (avgVis <= this.LOW_CONFIDENCE) {
-        t = 0.1; // Trust last heavily
-    } else {
-        // Interpolate 0.5 to 0.7 -> 0.0 to 1.0
-        t = (avgVis - this.LOW_CONFIDENCE) / (this.HIGH_CONFIDENCE - this.LOW_CONFIDENCE);
+    // Tracking resumes after a loss: old velocities and filter history no longer apply
+    if (now - this.lastValidTime > this.maxMissingMs) {
+        this.tracks = this.tracks.map(track => this.startTrack(track.position, now));
+        this.coordinateFilters = [];
     }
+    this.lastValidTime = now;
 
-    // Apply interpolation
+    const frameScale = previousFrameTime !== null && now > previousFrameTime
+        ? (now - previousFrameTime) / this.REFERENCE_FRAME_MS
+        : 1;
+
+    const estimated: boolean[] = [];
     const stabilizedLandmarks = currentLandmarks.map((curr, i) => {
-        const prev = this.lastValidLandmarks![i];
-        if (!prev) return curr;
-        return lerpLandmark(prev, curr, t);
+        const track = this.tracks![i];
+        if (!track) {
+            this.tracks![i] = this.startTrack(curr, now);
+            estimated.push(false);
+            return curr;
+        }
+
+        let t = this.measurementWeight(curr.visibility ?? 0);
+        const isLandmarkEstimated = t < 1.0;
+        // Scale the per-frame blend to the real frame interval: two 60fps frames
+        // move as far towards the measurement as one 30fps frame
+        if (isLandmarkEstimated) t = 1 - Math.pow(1 - t, frameScale);
+
+        const result = lerpLandmark(this.predict(track, now), curr, t);
+
+        if (!isLandmarkEstimated) {
+            const dt = now - track.updatedAt;
+            if (dt > 0) {
+                // Lightly smoothed so a single noisy frame does not fling the prediction
+                track.vx = 0.5 * track.vx + 0.5 * (result.x - track.position.x) / dt;
+                track.vy = 0.5 * track.vy + 0.5 * (result.y - track.position.y) / dt;
+                track.vz = 0.5 * track.vz + 0.5 * (result.z - track.position.z) / dt;
+            }
+            track.confidentAt = now;
+        }
+        track.position = result;
+        track.updatedAt = now;
+        estimated.push(isLandmarkEstimated);
+        return result;
     });
 
-    this.lastValidLandmarks = stabilizedLandmarks;
-    return { landmarks: stabilizedLandmarks, isEstimated: t < 1.0 };
+    // Frame-level flag from the key joints' average, so one partly occluded joint
+    // (the far leg in a side view) does not mark the whole frame as estimated
+    const keyVisibility = this.KEY_INDICES
+        .reduce((acc, i) => acc + (currentLandmarks[i]?.visibility ?? 0), 0) / this.KEY_INDICES.length;
+
+    return {
+        landmarks: this.filterCoordinates(stabilizedLandmarks, now),
+        isEstimated: keyVisibility < this.HIGH_CONFIDENCE,
+        estimated,
+    };
   }
 }
@@ -0,0 +1,259 @@
+/**
+ * Prescribed rep tempo in seconds per phase, in the usual notation order:
+ * eccentric (lowering), bottom pause, concentric (rising), top pause.
+ * "X" (explosive) is stored as 0.
+ */
+export interface Tempo {
+  eccentric: number;
+  bottom: number;
+  concentric: number;
+  top: number;
+}
+
+/**
+ * Measured phase durations of one rep, in ms. `topMs` is the standing pause
+ * before the rep and is missing for the first rep of a set.
+ */
+export interface RepTempo {
+  eccentricMs: number;
+  bottomMs: number;
+  concentricMs: number;
+  topMs?: number;
+}
+
+export interface AngleSample {
+  t: number;     // Epoch ms
+  angle: number; // Primary joint, degrees
+}
+
+// Tempo Constants
+const TEMPO = {
+  TOLERANCE_MS: 500,    // Phase error that costs nothing
+  MIN_SCALE_MS: 1000,   // Short and explosive phases are scored against at least this
+  BAND_FRACTION: 0.05,  // Top / bottom band as a share of the rep's range of motion
+  BAND_MIN_DEG: 3,
+  CUE_MIN_PROGRESS: 0.3, // Descent share before pacing is judged
+  CUE_PACE_SHARE: 0.6,  // Live cues allow for the faster middle of a smooth descent
+  TRACE_MS: 20000,      // Standing samples kept while waiting for the next rep
+};
+
+// "3-1-1-0", "3110" or "31X0"
+const TEMPO_PATTERN = /^([0-9X])-?([0-9X])-?([0-9X])-?([0-9X])$/i;
+
+/**
+ * Parses tempo notation. Returns null when the text is not four phases.
+ */
+export const parseTempo = (text: string): Tempo | null => {
+  const match = TEMPO_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const [eccentric, bottom, concentric, top] = match.slice(1).map(digit => (digit.toUpperCase() === 'X' ? 0 : Number(digit)));
+  return { eccentric, bottom, concentric, top };
+};
+
+/**
+ * Formats a tempo as "3-1-X-0". A zero-second movement phase can only mean explosive.
+ */
+export const formatTempo = (tempo: Tempo): string => [
+  tempo.eccentric === 0 ? 'X' : tempo.eccentric,
+  tempo.bottom,
+  tempo.concentric === 0 ? 'X' : tempo.concentric,
+  tempo.top,
+].join('-');
+
+/**
+ * Checks a tempo entered in a profile. Blank means no prescribed tempo.
+ */
+export const validateTempo = (text?: string): string[] => {
+  if (text === undefined || text.trim() === '') return [];
+  return parseTempo(text) ? [] : ['Target tempo must be four phases like 3-1-1-0 (X = explosive)'];
+};
+
+interface RepPhases {
+  reachTop: number;    // Sample indices
+  leaveTop: number;
+  reachBottom: number;
+  leaveBottom: number;
+  backAtTop: number;   // -1 until the client has risen back to the top band
+  topAngle: number;
+  band: number;
+}
+
+/**
+ * Finds the phase boundaries in a rep's primary joint trace. Each boundary is
+ * where the angle enters or leaves a band around the rep's own top and bottom
+ * angles, so the phases follow the client's range rather than the counting
+ * thresholds. The concentric phase ends back in the top band, or near the
+ * highest angle reached after the bottom when the client never got there.
+ */
+const findPhases = (samples: readonly AngleSample[]): RepPhases | null => {
+  if (samples.length < 2) return null;
+
+  let bottomIndex = 0;
+  samples.forEach((s, i) => {
+    if (s.angle < samples[bottomIndex].angle) bottomIndex = i;
+  });
+  const bottom = samples[bottomIndex].angle;
+  const topAngle = Math.max(...samples.slice(0, bottomIndex + 1).map(s => s.angle));
+  const band = Math.max(TEMPO.BAND_MIN_DEG, (topAngle - bottom) * TEMPO.BAND_FRACTION);
+
+  const reachTop = samples.findIndex(s => s.angle >= topAngle - band);
+  let leaveTop = reachTop;
+  for (let i = reachTop; i <= bottomIndex; i++) {
+    if (samples[i].angle >= topAngle - band) leaveTop = i;
+  }
+  let reachBottom = bottomIndex;
+  for (let i = bottomIndex; i > leaveTop && samples[i - 1].angle <= bottom + band; i--) reachBottom = i - 1;
+  let leaveBottom = bottomIndex;
+  for (let i = bottomIndex; i < samples.length - 1 && samples[i + 1].angle <= bottom + band; i++) leaveBottom = i + 1;
+
+  const returnAngle = Math.max(...samples.slice(leaveBottom).map(s => s.angle));
+  const returnTarget = Math.min(topAngle, returnAngle) - band;
+  const backAtTop = returnAngle > bottom + band
+    ? samples.findIndex((s, i) => i > leaveBottom && s.angle >= returnTarget)
+    : -1;
+
+  return { reachTop, leaveTop, reachBottom, leaveBottom, backAtTop, topAngle, band };
+};
+
+const toRepTempo = (samples: readonly AngleSample[], phases: RepPhases, hasTopPause: boolean): RepTempo => ({
+  eccentricMs: samples[phases.reachBottom].t - samples[phases.leaveTop].t,
+  bottomMs: samples[phases.leaveBottom].t - samples[phases.reachBottom].t,
+  concentricMs: samples[phases.backAtTop].t - samples[phases.leaveBottom].t,
+  topMs: hasTopPause ? samples[phases.leaveTop].t - samples[phases.reachTop].t : undefined,
+});
+
+/**
+ * Measures one rep from a trace that starts at the end of the previous rep
+ * (or the start of the set) and runs until the client is back at the top.
+ * Returns null when the trace does not hold a complete rep.
+ */
+export const measureRepTempo = (samples: readonly AngleSample[], hasTopPause: boolean): RepTempo | null => {
+  const phases = findPhases(samples);
+  return phases && phases.backAtTop >= 0 ? toRepTempo(samples, phases, hasTopPause) : null;
+};
+
+const phaseCompliance = (actualMs: number, targetSeconds: number): number => {
+  const targetMs = targetSeconds * 1000;
+  const error = Math.max(0, Math.abs(actualMs - targetMs) - TEMPO.TOLERANCE_MS);
+  return Math.max(0, 1 - error / Math.max(targetMs, TEMPO.MIN_SCALE_MS));
+};
+
+/**
+ * Tempo compliance out of 100: the mean phase score, where each phase loses
+ * points linearly once it is more than TOLERANCE_MS off target. Explosive
+ * phases only lose points for being slow. A missing top pause is not scored.
+ */
+export const scoreTempo = (measured: RepTempo, target: Tempo): number => {
+  const phases = [
+    phaseCompliance(measured.eccentricMs, target.eccentric),
+    phaseCompliance(measured.bottomMs, target.bottom),
+    phaseCompliance(measured.concentricMs, target.concentric),
+  ];
+  if (measured.topMs !== undefined) phases.push(phaseCompliance(measured.topMs, target.top));
+  return Math.round(100 * phases.reduce((acc, p) => acc + p, 0) / phases.length);
+};
+
+/**
+ * Collects the primary joint trace between reps and follows the descent live,
+ * so engines can measure each rep's tempo and pace the client against a target.
+ * A counted rep stays pending until the client is back at the top, because
+ * reps are counted partway up and the concentric phase is not over yet.
+ */
+export class TempoTracker {
+  private samples: AngleSample[] = [];
+  private topAngle: number = 0;
+  private leftTopAt: number | null = null;
+  private bottomSince: number | null = null;
+  private pending: { hasTopPause: boolean; returnAngle: number } | null = null;
+
+  reset() {
+    this.samples = [];
+    this.topAngle = 0;
+    this.leftTopAt = null;
+    this.bottomSince = null;
+    this.pending = null;
+  }
+
+  /**
+   * Adds a frame and returns the pending rep's tempo once the client is back
+   * where it started. `standing` trims the trace so a long rest does not grow it.
+   */
+  update(angle: number, now: number, standing: boolean): RepTempo | null {
+    this.samples.push({ t: now, angle });
+    if (this.pending) {
+      return angle >= this.pending.returnAngle ? this.settle() : null;
+    }
+    if (standing) {
+      while (this.samples.length > 2 && now - this.samples[0].t > TEMPO.TRACE_MS) this.samples.shift();
+    }
+    this.followTop(angle, now);
+    return null;
+  }
+
+  /**
+   * Marks the end of a counted rep. `hasTopPause` is false for the first rep,
+   * whose standing time is set-up rather than tempo.
+   */
+  finishRep(hasTopPause: boolean) {
+    const phases = findPhases(this.samples);
+    this.bottomSince = null;
+    if (phases) this.pending = { hasTopPause, returnAngle: phases.topAngle - phases.band };
+  }
+
+  /**
+   * Ends the pending rep where it stopped rising, e.g. when the next descent
+   * starts before the client stood all the way up. The rest of the trace
+   * becomes the start of the next rep.
+   */
+  settle(): RepTempo | null {
+    if (!this.pending) return null;
+    const { hasTopPause } = this.pending;
+    this.pending = null;
+    const phases = findPhases(this.samples);
+    if (!phases || phases.backAtTop < 0) {
+      this.samples = this.samples.slice(-1);
+      this.restartTop();
+      return null;
+    }
+    const tempo = toRepTempo(this.samples, phases, hasTopPause);
+    this.samples = this.samples.slice(phases.backAtTop);
+    this.restartTop();
+    return tempo;
+  }
+
+  /**
+   * True while the descent is well ahead of the target eccentric pace.
+   * Progress is measured from the top towards `expectedBottom`, and only
+   * judged once the client is part of the way down.
+   */
+  isDescentTooFast(target: Tempo, angle: number, expectedBottom: number, now: number): boolean {
+    if (target.eccentric === 0 || this.leftTopAt === null || this.topAngle <= expectedBottom) return false;
+    const progress = Math.min(1, (this.topAngle - angle) / (this.topAngle - expectedBottom));
+    if (progress < TEMPO.CUE_MIN_PROGRESS) return false;
+    return now - this.leftTopAt < progress * target.eccentric * 1000 * TEMPO.CUE_PACE_SHARE;
+  }
+
+  /**
+   * True while the client should stay at the bottom. The pause starts at the
+   * first frame within the bottom band of the rep's deepest angle.
+   */
+  shouldHold(target: Tempo, angle: number, minAngle: number, now: number): boolean {
+    if (target.bottom === 0) return false;
+    const band = Math.max(TEMPO.BAND_MIN_DEG, (this.topAngle - minAngle) * TEMPO.BAND_FRACTION);
+    if (angle > minAngle + band) return false;
+    if (this.bottomSince === null) this.bottomSince = now;
+    return now - this.bottomSince < target.bottom * 1000;
+  }
+
+  private followTop(angle: number, now: number) {
+    this.topAngle = Math.max(this.topAngle, angle);
+    if (angle >= this.topAngle - TEMPO.BAND_MIN_DEG) this.leftTopAt = now;
+  }
+
+  private restartTop() {
+    this.topAngle = 0;
+    this.leftTopAt = null;
+    this.bottomSince = null;
+    this.samples.forEach(s => this.followTop(s.angle, s.t));
+  }
+}
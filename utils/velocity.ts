@@ -0,0 +1,147 @@
+/**
+ * Concentric velocity of one rep, in torso lengths per second (TL/s) of hip
+ * travel. Torso lengths keep the numbers comparable at any camera distance.
+ */
+export interface RepVelocity {
+  meanVelocity: number;
+  peakVelocity: number;
+}
+
+/**
+ * Velocity of the last measured rep against the fastest rep of the set.
+ */
+export interface VelocityStatus extends RepVelocity {
+  loss: number;     // Percent below the fastest rep
+  stopSet: boolean; // Loss passed the client's threshold
+}
+
+export interface HeightSample {
+  t: number;      // Epoch ms
+  height: number; // Hip height, torso lengths
+}
+
+// Velocity Constants
+const VELOCITY = {
+  PEAK_WINDOW_MS: 100, // Peak velocity is the fastest rise sustained this long
+  BAND_FRACTION: 0.05, // Top / bottom band as a share of the rep's hip travel
+  TRACE_MS: 20000,     // Standing samples kept while waiting for the next rep
+};
+
+/**
+ * Percent a rep's mean velocity fell below the fastest rep (0 when faster).
+ */
+export const velocityLoss = (fastest: number, current: number): number => {
+  if (fastest <= 0) return 0;
+  return Math.max(0, (fastest - current) / fastest * 100);
+};
+
+interface ConcentricPhase {
+  start: number;  // Sample indices; -1 until the hip is back up
+  end: number;
+  topHeight: number;
+  band: number;
+}
+
+/**
+ * Finds the concentric phase in a hip height trace: from leaving the bottom
+ * band to reaching the top band, or the highest point after the bottom when
+ * the client never got back up that far.
+ */
+const findConcentric = (samples: readonly HeightSample[]): ConcentricPhase | null => {
+  if (samples.length < 2) return null;
+
+  let bottomIndex = 0;
+  samples.forEach((s, i) => {
+    if (s.height < samples[bottomIndex].height) bottomIndex = i;
+  });
+  const bottom = samples[bottomIndex].height;
+  const topHeight = Math.max(...samples.slice(0, bottomIndex + 1).map(s => s.height));
+  const band = (topHeight - bottom) * VELOCITY.BAND_FRACTION;
+
+  let start = bottomIndex;
+  for (let i = bottomIndex; i < samples.length - 1 && samples[i + 1].height <= bottom + band; i++) start = i + 1;
+  const returnHeight = Math.max(...samples.slice(start).map(s => s.height));
+  const returnTarget = Math.min(topHeight, returnHeight) - band;
+  const end = returnHeight > bottom + band
+    ? samples.findIndex((s, i) => i > start && s.height >= returnTarget)
+    : -1;
+
+  return { start, end, topHeight, band };
+};
+
+const toRepVelocity = (samples: readonly HeightSample[], { start, end }: ConcentricPhase): RepVelocity | null => {
+  const durationMs = samples[end].t - samples[start].t;
+  if (durationMs <= 0) return null;
+
+  let peak = 0;
+  let from = start;
+  for (let i = start + 1; i <= end; i++) {
+    while (from + 1 < i && samples[i].t - samples[from + 1].t >= VELOCITY.PEAK_WINDOW_MS) from++;
+    const dt = samples[i].t - samples[from].t;
+    if (dt >= VELOCITY.PEAK_WINDOW_MS) peak = Math.max(peak, (samples[i].height - samples[from].height) / dt * 1000);
+  }
+
+  const mean = (samples[end].height - samples[start].height) / durationMs * 1000;
+  return { meanVelocity: mean, peakVelocity: Math.max(peak, mean) };
+};
+
+/**
+ * Measures one rep from a hip height trace that starts at the end of the
+ * previous rep and runs until the client is back at the top.
+ */
+export const measureRepVelocity = (samples: readonly HeightSample[]): RepVelocity | null => {
+  const phase = findConcentric(samples);
+  return phase && phase.end >= 0 ? toRepVelocity(samples, phase) : null;
+};
+
+/**
+ * Collects the hip height trace between reps. Like the tempo tracker, a counted
+ * rep stays pending until the client is back at the top, since reps are
+ * counted partway up and velocity usually peaks later in the rise.
+ */
+export class VelocityTracker {
+  private samples: HeightSample[] = [];
+  private returnHeight: number | null = null; // Set while a counted rep is pending
+
+  reset() {
+    this.samples = [];
+    this.returnHeight = null;
+  }
+
+  /**
+   * Adds a frame and returns the pending rep's velocity once the hip is back
+   * at the top. `standing` trims the trace so a long rest does not grow it.
+   */
+  update(height: number, now: number, standing: boolean): RepVelocity | null {
+    this.samples.push({ t: now, height });
+    if (this.returnHeight !== null) {
+      return height >= this.returnHeight ? this.settle() : null;
+    }
+    if (standing) {
+      while (this.samples.length > 2 && now - this.samples[0].t > VELOCITY.TRACE_MS) this.samples.shift();
+    }
+    return null;
+  }
+
+  finishRep() {
+    const phase = findConcentric(this.samples);
+    if (phase) this.returnHeight = phase.topHeight - phase.band;
+  }
+
+  /**
+   * Ends the pending rep where it stopped rising, e.g. when the next descent
+   * starts first. The rest of the trace becomes the start of the next rep.
+   */
+  settle(): RepVelocity | null {
+    if (this.returnHeight === null) return null;
+    this.returnHeight = null;
+    const phase = findConcentric(this.samples);
+    if (!phase || phase.end < 0) {
+      this.samples = this.samples.slice(-1);
+      return null;
+    }
+    const velocity = toRepVelocity(this.samples, phase);
+    this.samples = this.samples.slice(phase.end);
+    return velocity;
+  }
+}